@@ -1,5 +1,11 @@
 import { IExecuteFunctions, NodeOperationError } from 'n8n-workflow';
-import { ParseResult, ParsedPerson, ParsedFamily, AncestryResult } from './gedcom-types';
+import { ParseResult, ParsedPerson, ParsedFamily, AncestryResult, AncestryNode, ImplexGeneration, DescendantNumbering } from './gedcom-types';
+import { GedcomDateParser } from './gedcom-date-parser';
+
+// Sosa numbers listed per ancestor; heavy pedigree collapse can give a person thousands
+const MAX_SOSA_NUMBERS = 32;
+
+type AncestorSlots = { count: number; sosa: number[] };
 
 export class GedcomAncestry {
 	static computeAncestors(parseResult: ParseResult, rootId: string, maxGenerations: number, context: IExecuteFunctions): AncestryResult {
@@ -21,62 +27,102 @@ export class GedcomAncestry {
 		}
 
 		const generations: string[][] = [];
-		const visitedPersons = new Set<string>();
 		const edges: Array<{parent: string; child: string; relation: 'father' | 'mother'}> = [];
+		const edgeKeys = new Set<string>();
+		const reached = new Set<string>();
+		const sosaNumbers = new Map<string, number[]>();
+		const implexGenerations: ImplexGeneration[] = [];
 
-		let currentGeneration = [canonicalRootId];
-		visitedPersons.add(canonicalRootId);
+		// Each generation lists a person once, with the number of ancestor slots they fill and their
+		// lowest Sosa numbers, so pedigree collapse does not multiply the work
+		let current = new Map<string, AncestorSlots>([[canonicalRootId, { count: 1, sosa: [1] }]]);
 
-		for (let gen = 0; gen < maxGenerations && currentGeneration.length > 0; gen++) {
-			generations.push([...currentGeneration]);
-			const nextGeneration: string[] = [];
+		for (let gen = 0; gen < maxGenerations && current.size > 0; gen++) {
+			generations.push(Array.from(current.keys()));
+			for (const [id, slots] of current) {
+				reached.add(id);
+				if (slots.count > 0) sosaNumbers.set(id, GedcomAncestry.lowestSosa(sosaNumbers.get(id) || [], slots.sosa));
+			}
 
-			for (const personId of currentGeneration) {
-				const person = personMap.get(personId);
+			if (gen > 0) {
+				const inLine = Array.from(current.values()).filter(slots => slots.count > 0);
+				implexGenerations.push({
+					generation: gen,
+					theoretical: 2 ** gen,
+					known: inLine.reduce((sum, slots) => sum + slots.count, 0),
+					distinct: inLine.length,
+				});
+			}
+
+			const next = new Map<string, AncestorSlots>();
+			const reach = (parentId: string, childId: string, relation: 'father' | 'mother', count: number, sosa: number[]) => {
+				const slots = next.get(parentId) || { count: 0, sosa: [] };
+				next.set(parentId, { count: slots.count + count, sosa: GedcomAncestry.lowestSosa(slots.sosa, sosa) });
+
+				const key = `${parentId}>${childId}`;
+				if (!edgeKeys.has(key)) {
+					edgeKeys.add(key);
+					edges.push({
+						parent: parentId,
+						child: childId,
+						relation,
+					});
+				}
+			};
+
+			for (const [id, slots] of current) {
+				const person = personMap.get(id);
 				if (!person) continue;
 
-				for (const familyId of person.famc) {
+				// Adoptive, foster and other parent families are walked too, outside the Sosa numbering
+				const birthFamily = GedcomAncestry.birthFamily(person, familyMap);
+				for (const familyId of Array.from(new Set(person.famc))) {
 					const family = familyMap.get(familyId);
 					if (!family) continue;
 
-					if (family.husband && !visitedPersons.has(family.husband)) {
-						nextGeneration.push(family.husband);
-						visitedPersons.add(family.husband);
-						edges.push({
-							parent: family.husband,
-							child: personId,
-							relation: 'father',
-						});
+					const inLine = family === birthFamily;
+					if (family.husband) {
+						reach(family.husband, id, 'father', inLine ? slots.count : 0, inLine ? slots.sosa.map(sosa => sosa * 2) : []);
 					}
-
-					if (family.wife && !visitedPersons.has(family.wife)) {
-						nextGeneration.push(family.wife);
-						visitedPersons.add(family.wife);
-						edges.push({
-							parent: family.wife,
-							child: personId,
-							relation: 'mother',
-						});
+					if (family.wife) {
+						reach(family.wife, id, 'mother', inLine ? slots.count : 0, inLine ? slots.sosa.map(sosa => sosa * 2 + 1) : []);
 					}
 				}
 			}
 
-			currentGeneration = nextGeneration;
+			current = next;
 		}
 
-		const nodes = Array.from(visitedPersons)
+		const nodes: AncestryNode[] = Array.from(reached)
 			.map(id => personMap.get(id))
-			.filter((person): person is ParsedPerson => person !== undefined);
+			.filter((person): person is ParsedPerson => person !== undefined)
+			.map(person => (sosaNumbers.has(person.id) ? { ...person, sosa: sosaNumbers.get(person.id) } : person));
+
+		const known = implexGenerations.reduce((sum, generation) => sum + generation.known, 0);
+		const distinct = sosaNumbers.size - 1;
 
 		return {
 			root: canonicalRootId,
 			generations,
 			nodes,
 			edges,
+			implex: {
+				theoretical: implexGenerations.reduce((sum, generation) => sum + generation.theoretical, 0),
+				known,
+				distinct,
+				implexRate: known > 0 ? Math.round((known - distinct) / known * 10000) / 100 : 0,
+				generations: implexGenerations,
+			},
 		};
 	}
 
-	static computeDescendants(parseResult: ParseResult, rootId: string, maxGenerations: number, context: IExecuteFunctions): AncestryResult {
+	static computeDescendants(
+		parseResult: ParseResult,
+		rootId: string,
+		maxGenerations: number,
+		context: IExecuteFunctions,
+		numbering: DescendantNumbering = 'none',
+	): AncestryResult {
 		const canonicalRootId = GedcomAncestry.canonicalizeId(rootId);
 		
 		const personMap = new Map<string, ParsedPerson>();
@@ -97,6 +143,8 @@ export class GedcomAncestry {
 		const generations: string[][] = [];
 		const visitedPersons = new Set<string>();
 		const edges: Array<{parent: string; child: string; relation: 'father' | 'mother'}> = [];
+		// Birth order of each child at every step down from the root, for d'Aboville and Henry numbers
+		const lines = new Map<string, number[]>([[canonicalRootId, []]]);
 
 		let currentGeneration = [canonicalRootId];
 		visitedPersons.add(canonicalRootId);
@@ -109,41 +157,182 @@ export class GedcomAncestry {
 				const person = personMap.get(personId);
 				if (!person) continue;
 
-				for (const familyId of person.fams) {
-					const family = familyMap.get(familyId);
-					if (!family) continue;
+				// Numbers need birth order; otherwise children keep the order of their families and CHIL lines
+				GedcomAncestry.children(person, familyMap, personMap, numbering !== 'none').forEach(({ childId, family }, index) => {
+					if (visitedPersons.has(childId)) return;
 
-					for (const childId of family.children) {
-						if (!visitedPersons.has(childId)) {
-							nextGeneration.push(childId);
-							visitedPersons.add(childId);
-							
-							const relation = person.id === family.husband ? 'father' : 'mother';
-							edges.push({
-								parent: personId,
-								child: childId,
-								relation,
-							});
-						}
-					}
-				}
+					nextGeneration.push(childId);
+					visitedPersons.add(childId);
+					lines.set(childId, [...(lines.get(personId) || []), index + 1]);
+
+					const relation = person.id === family.husband ? 'father' : 'mother';
+					edges.push({
+						parent: personId,
+						child: childId,
+						relation,
+					});
+				});
 			}
 
 			currentGeneration = nextGeneration;
 		}
 
-		const nodes = Array.from(visitedPersons)
+		const persons = Array.from(visitedPersons)
 			.map(id => personMap.get(id))
 			.filter((person): person is ParsedPerson => person !== undefined);
 
+		if (numbering === 'none') {
+			return {
+				root: canonicalRootId,
+				generations,
+				nodes: persons,
+				edges,
+			};
+		}
+
+		const nodes: AncestryNode[] = persons.map((person, index) => {
+			const line = lines.get(person.id) || [];
+			const node: AncestryNode = { ...person, number: GedcomAncestry.descendantNumber(numbering, line, index) };
+			if (numbering === 'register' && line.length > 0) {
+				node.birthOrder = GedcomAncestry.romanNumeral(line[line.length - 1]);
+			}
+			node.spouses = GedcomAncestry.spouses(person, familyMap, personMap);
+			return node;
+		});
+
+		// d'Aboville and Henry lists read depth-first; Register numbers already follow generation order
+		if (numbering !== 'register') {
+			nodes.sort((a, b) => GedcomAncestry.compareLines(lines.get(a.id) || [], lines.get(b.id) || []));
+		}
+
 		return {
 			root: canonicalRootId,
 			generations,
 			nodes,
 			edges,
+			numbering,
 		};
 	}
 
+	/**
+	 * Children of a person across all their families, in family and CHIL order or by birth date.
+	 */
+	private static children(
+		person: ParsedPerson,
+		familyMap: Map<string, ParsedFamily>,
+		personMap: Map<string, ParsedPerson>,
+		byBirth: boolean,
+	): Array<{childId: string; family: ParsedFamily}> {
+		const familyOfChild = new Map<string, ParsedFamily>();
+
+		for (const familyId of person.fams) {
+			const family = familyMap.get(familyId);
+			if (!family) continue;
+
+			for (const childId of family.children) {
+				if (!familyOfChild.has(childId)) familyOfChild.set(childId, family);
+			}
+		}
+
+		const childIds = Array.from(familyOfChild.keys());
+		return (byBirth ? GedcomAncestry.sortByBirth(childIds, personMap) : childIds)
+			.map(childId => ({ childId, family: familyOfChild.get(childId) as ParsedFamily }));
+	}
+
+	private static spouses(
+		person: ParsedPerson,
+		familyMap: Map<string, ParsedFamily>,
+		personMap: Map<string, ParsedPerson>,
+	): Array<{id: string; name: string; family: string}> {
+		const spouses: Array<{id: string; name: string; family: string}> = [];
+
+		for (const familyId of person.fams) {
+			const family = familyMap.get(familyId);
+			if (!family) continue;
+
+			const spouseId = family.husband === person.id ? family.wife : family.husband;
+			if (!spouseId) continue;
+
+			const spouse = personMap.get(spouseId);
+			spouses.push({ id: spouseId, name: spouse ? spouse.name : '', family: family.id });
+		}
+
+		return spouses;
+	}
+
+	/**
+	 * d'Aboville: 1.2.3; Henry: 123, with (10) from the tenth child; Register: sequential by generation.
+	 */
+	private static descendantNumber(numbering: DescendantNumbering, line: number[], index: number): string {
+		switch (numbering) {
+			case 'daboville':
+				return [1, ...line].join('.');
+			case 'henry':
+				return [1, ...line].map(position => (position > 9 ? `(${position})` : `${position}`)).join('');
+			default:
+				return `${index + 1}`;
+		}
+	}
+
+	private static compareLines(a: number[], b: number[]): number {
+		for (let i = 0; i < Math.min(a.length, b.length); i++) {
+			if (a[i] !== b[i]) return a[i] - b[i];
+		}
+		return a.length - b.length;
+	}
+
+	private static romanNumeral(value: number): string {
+		const numerals: Array<[number, string]> = [
+			[1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+			[50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+		];
+		let remaining = value;
+		let result = '';
+		for (const [amount, numeral] of numerals) {
+			while (remaining >= amount) {
+				result += numeral;
+				remaining -= amount;
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Merges two sorted lists of Sosa numbers, keeping the lowest MAX_SOSA_NUMBERS.
+	 */
+	private static lowestSosa(first: number[], second: number[]): number[] {
+		return [...first, ...second].sort((a, b) => a - b).slice(0, MAX_SOSA_NUMBERS);
+	}
+
+	/**
+	 * The family a person was born into: the first FAMC without a PEDI other than birth,
+	 * or the first FAMC when all are adoptive, foster or sealing families.
+	 */
+	static birthFamily(person: ParsedPerson, familyMap: Map<string, ParsedFamily>): ParsedFamily | undefined {
+		const families = person.famc
+			.map(id => familyMap.get(id))
+			.filter((family): family is ParsedFamily => family !== undefined);
+
+		const birthFamily = families.find(family => {
+			const pedigree = ((person.famcDetails || {})[family.id] || []).find(node => node.tag === 'PEDI');
+			return !pedigree || (pedigree.value || '').toLowerCase() === 'birth';
+		});
+
+		return birthFamily || families[0];
+	}
+
+	/**
+	 * Orders person IDs by birth date, keeping the original order for undated persons.
+	 */
+	private static sortByBirth(personIds: string[], personMap: Map<string, ParsedPerson>): string[] {
+		const birthDates = new Map(personIds.map(id => {
+			const person = personMap.get(id);
+			return [id, GedcomDateParser.parse(person ? person.birthDate : '')];
+		}));
+
+		return [...personIds].sort((a, b) => GedcomDateParser.compare(birthDates.get(a), birthDates.get(b)));
+	}
+
 	private static canonicalizeId(id: string): string {
 		if (!id) return '';
 		if (id.startsWith('@') && id.endsWith('@')) {
@@ -0,0 +1,243 @@
+import { IExecuteFunctions, NodeOperationError } from 'n8n-workflow';
+import { ParseResult, ParsedPerson, ParsedFamily, ParsedEvent } from './gedcom-types';
+import { GedcomParser } from './gedcom-parser';
+import { GedcomNameParser } from './gedcom-name-parser';
+import { GedcomDateParser } from './gedcom-date-parser';
+
+type TreeField = 'id' | 'name' | 'firstName' | 'lastName' | 'sex' | 'birthDate' | 'birthPlace' | 'deathDate' | 'deathPlace' | 'fatherId' | 'motherId' | 'spouseIds';
+
+// Column names understood for each field, compared lowercase without spaces, dashes or underscores
+const COLUMN_ALIASES: Record<TreeField, string[]> = {
+	id: ['id', 'personid', 'xref'],
+	name: ['name', 'fullname'],
+	firstName: ['firstname', 'givenname', 'given', 'forename'],
+	lastName: ['lastname', 'surname', 'familyname'],
+	sex: ['sex', 'gender'],
+	birthDate: ['birthdate', 'dateofbirth'],
+	birthPlace: ['birthplace', 'placeofbirth'],
+	deathDate: ['deathdate', 'dateofdeath'],
+	deathPlace: ['deathplace', 'placeofdeath'],
+	fatherId: ['fatherid', 'father'],
+	motherId: ['motherid', 'mother'],
+	spouseIds: ['spouseid', 'spouseids', 'spouse', 'spouses'],
+};
+
+const SEX_VALUES: Record<string, string> = {
+	m: 'M', male: 'M', man: 'M', h: 'M', homme: 'M',
+	f: 'F', female: 'F', woman: 'F', femme: 'F',
+	u: 'U', x: 'U', unknown: 'U',
+};
+
+type TreeRow = Partial<Record<TreeField, string>>;
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+export class GedcomBuilder {
+	/**
+	 * Reads CSV text into one object per line, keyed by the header line. The delimiter
+	 * (comma, semicolon or tab) is the one the header uses most; quoted values may hold line breaks.
+	 */
+	static parseCsv(text: string): Array<Record<string, string>> {
+		const content = text.replace(/^\uFEFF/, '');
+		const headerLine = content.split(/\r?\n/)[0].replace(/"[^"]*"/g, '');
+		const delimiter = [',', ';', '\t']
+			.map(candidate => ({ candidate, count: headerLine.split(candidate).length }))
+			.sort((a, b) => b.count - a.count)[0].candidate;
+
+		const lines: string[][] = [];
+		let line: string[] = [];
+		let value = '';
+		let quoted = false;
+
+		for (let index = 0; index < content.length; index++) {
+			const char = content[index];
+			if (quoted) {
+				if (char === '"' && content[index + 1] === '"') {
+					value += '"';
+					index++;
+				} else if (char === '"') {
+					quoted = false;
+				} else {
+					value += char;
+				}
+			} else if (char === '"') {
+				quoted = true;
+			} else if (char === delimiter) {
+				line.push(value);
+				value = '';
+			} else if (char === '\n' || char === '\r') {
+				if (char === '\r' && content[index + 1] === '\n') index++;
+				lines.push([...line, value]);
+				line = [];
+				value = '';
+			} else {
+				value += char;
+			}
+		}
+		if (value || line.length > 0) lines.push([...line, value]);
+
+		const [header = [], ...rows] = lines;
+		return rows
+			.filter(row => row.some(cell => cell.trim()))
+			.map(row => Object.fromEntries(header.map((column, index) => [column.trim(), row[index] || ''])));
+	}
+
+	/**
+	 * Builds a parse result from one row per person. Families are created for every father and
+	 * mother pair and every couple, with FAMC, FAMS, HUSB, WIFE and CHIL links on both sides.
+	 * Rows without an ID get the next free `@I<n>@`.
+	 */
+	static build(rows: Array<Record<string, unknown>>, context: IExecuteFunctions): ParseResult {
+		const treeRows = rows.map(row => GedcomBuilder.readRow(row)).filter(row => Object.keys(row).length > 0);
+		const fail = (index: number, message: string): never => {
+			throw new NodeOperationError(context.getNode(), `Row ${index + 1}: ${message}`);
+		};
+
+		const usedIds = new Set<string>();
+		treeRows.forEach((row, index) => {
+			if (!row.id) return;
+			const id = GedcomParser.canonicalizeId(row.id);
+			if (usedIds.has(id)) fail(index, `ID '${row.id}' is used by another row`);
+			usedIds.add(id);
+		});
+
+		let nextNumber = 1;
+		const persons = treeRows.map((row, index) => {
+			let id = row.id ? GedcomParser.canonicalizeId(row.id) : '';
+			while (!id) {
+				const candidate = `@I${nextNumber++}@`;
+				if (!usedIds.has(candidate)) id = candidate;
+			}
+			usedIds.add(id);
+			return GedcomBuilder.person(id, row, message => fail(index, message));
+		});
+
+		const personMap = new Map<string, ParsedPerson>(persons.map(person => [person.id, person]));
+		const resolve = (index: number, value: string | undefined, role: string): string | undefined => {
+			if (!value) return undefined;
+			const id = GedcomParser.canonicalizeId(value);
+			if (!personMap.has(id)) fail(index, `${role} '${value}' is not the ID of any row`);
+			if (id === persons[index].id) fail(index, `${persons[index].id} cannot be their own ${role}`);
+			return id;
+		};
+
+		const families: ParsedFamily[] = [];
+		const familyFor = (husband: string | undefined, wife: string | undefined, eitherWay: boolean): ParsedFamily => {
+			const existing = families.find(family => (family.husband === husband && family.wife === wife)
+				|| (eitherWay && family.husband === wife && family.wife === husband));
+			if (existing) return existing;
+
+			let familyNumber = families.length + 1;
+			while (usedIds.has(`@F${familyNumber}@`)) familyNumber++;
+			const family: ParsedFamily = { id: `@F${familyNumber}@`, children: [], events: [] };
+			usedIds.add(family.id);
+			if (husband) family.husband = husband;
+			if (wife) family.wife = wife;
+			families.push(family);
+
+			for (const spouseId of [husband, wife]) {
+				if (spouseId) (personMap.get(spouseId) as ParsedPerson).fams.push(family.id);
+			}
+			return family;
+		};
+
+		// Parents first, so couples listed as spouses reuse the family of their children
+		treeRows.forEach((row, index) => {
+			const fatherId = resolve(index, row.fatherId, 'father');
+			const motherId = resolve(index, row.motherId, 'mother');
+			if (!fatherId && !motherId) return;
+
+			const family = familyFor(fatherId, motherId, false);
+			family.children.push(persons[index].id);
+			persons[index].famc.push(family.id);
+		});
+
+		treeRows.forEach((row, index) => {
+			const person = persons[index];
+			for (const value of (row.spouseIds || '').split(/[;,\s]+/).filter(part => part)) {
+				const spouseId = resolve(index, value, 'spouse') as string;
+				const spouse = personMap.get(spouseId) as ParsedPerson;
+				const personIsWife = person.sex === 'F' || spouse.sex === 'M';
+				familyFor(personIsWife ? spouseId : person.id, personIsWife ? person.id : spouseId, true);
+			}
+		});
+
+		return {
+			meta: {
+				individuals: persons.length,
+				families: families.length,
+				encodingTag: 'UTF-8',
+			},
+			persons,
+			families,
+			notes: [],
+			sources: [],
+			repositories: [],
+			media: [],
+			records: [],
+		};
+	}
+
+	private static readRow(row: Record<string, unknown>): TreeRow {
+		const treeRow: TreeRow = {};
+		for (const [column, value] of Object.entries(row)) {
+			const key = column.toLowerCase().replace(/[\s_-]/g, '');
+			const field = (Object.keys(COLUMN_ALIASES) as TreeField[]).find(candidate => COLUMN_ALIASES[candidate].includes(key));
+			const text = value === undefined || value === null ? '' : String(value).trim();
+			if (field && text) treeRow[field] = text;
+		}
+		return treeRow;
+	}
+
+	private static person(id: string, row: TreeRow, fail: (message: string) => never): ParsedPerson {
+		const birthDate = row.birthDate ? GedcomBuilder.gedcomDate(row.birthDate) || fail(`birth date '${row.birthDate}' is not a GEDCOM or ISO date`) : '';
+		const deathDate = row.deathDate ? GedcomBuilder.gedcomDate(row.deathDate) || fail(`death date '${row.deathDate}' is not a GEDCOM or ISO date`) : '';
+		const person: ParsedPerson = {
+			id,
+			name: '',
+			birthDate,
+			deathDate,
+			events: [],
+			famc: [],
+			fams: [],
+		};
+
+		// A name written the GEDCOM way, with the surname between slashes, gives both parts
+		if (row.name && row.name.includes('/') && !row.firstName && !row.lastName) {
+			const parsedName = GedcomNameParser.parseName(row.name);
+			person.name = parsedName.fullName;
+			person.rawName = row.name;
+			if (parsedName.firstName) person.firstName = parsedName.firstName;
+			if (parsedName.lastName) person.lastName = parsedName.lastName;
+		} else {
+			person.name = row.name || [row.firstName, row.lastName].filter(part => part).join(' ');
+			if (row.firstName) person.firstName = row.firstName;
+			if (row.lastName) person.lastName = row.lastName;
+		}
+
+		const sex = SEX_VALUES[(row.sex || '').toLowerCase()];
+		if (sex) person.sex = sex;
+
+		for (const [type, date, place] of [['BIRT', birthDate, row.birthPlace], ['DEAT', deathDate, row.deathPlace]] as const) {
+			if (!date && !place) continue;
+			const event: ParsedEvent = { type, date: date || '', place: place || '', notes: [], sources: [] };
+			if (event.date) event.parsedDate = GedcomDateParser.parse(event.date);
+			person.events.push(event);
+		}
+
+		return person;
+	}
+
+	/**
+	 * Returns a date cell as a GEDCOM date, converting ISO dates (`1850-03-12`, `1850-03`) to
+	 * `12 MAR 1850`, or undefined when it is neither.
+	 */
+	private static gedcomDate(value: string): string | undefined {
+		const iso = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/.exec(value);
+		const month = iso ? MONTHS[Number(iso[2]) - 1] : undefined;
+		if (iso && !month) return undefined;
+
+		const date = iso ? [iso[3] ? String(Number(iso[3])) : '', month, iso[1]].filter(part => part).join(' ') : value;
+		return GedcomDateParser.parse(date).valid ? date : undefined;
+	}
+}
@@ -0,0 +1,429 @@
+import { IExecuteFunctions } from 'n8n-workflow';
+import { ParseResult, ParsedPerson, ParsedEvent, AncestryResult, ChartType, ChartBoxField, ChartOptions, ChartResult } from './gedcom-types';
+import { GedcomAncestry } from './gedcom-ancestry';
+import { GedcomGraph, SEX_COLORS } from './gedcom-graph';
+import { GedcomTable } from './gedcom-table';
+
+type BoxColors = { fill: string; stroke: string };
+type TextLine = { text: string; bold: boolean };
+type Point = { x: number; y: number };
+type Drawing = { width: number; height: number; elements: string[] };
+
+const FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+const FONT_SIZE = 11;
+// Average glyph width as a share of the font size, to shorten text that would overflow
+const CHAR_WIDTH_RATIO = 0.55;
+const LINE_HEIGHT = 14;
+const MARGIN = 20;
+
+const BOX_WIDTH = 180;
+const BOX_PADDING = 6;
+const PEDIGREE_GAP_X = 40;
+const PEDIGREE_GAP_Y = 10;
+const DESCENDANTS_GAP_X = 16;
+const DESCENDANTS_GAP_Y = 40;
+
+const FAN_ROOT_RADIUS = 80;
+// Rings whose segments are wide enough get text along the arc, the others text along the radius
+const FAN_TANGENT_RING = 70;
+const FAN_RADIAL_RING = 140;
+const FAN_TANGENT_MIN_ARC = 100;
+const FAN_MIN_FONT_SIZE = 4;
+
+const LINE_COLOR = '#666666';
+const EMPTY_SLOT_COLOR = '#cccccc';
+const NEUTRAL_COLORS: BoxColors = { fill: '#ffffff', stroke: '#888888' };
+// Four grandparent branches, then cycled through by generation
+const PALETTE: BoxColors[] = [
+	{ fill: '#dbe9f6', stroke: '#4a7ab0' },
+	{ fill: '#dff0d8', stroke: '#5a9a4a' },
+	{ fill: '#fbe5cf', stroke: '#c07a30' },
+	{ fill: '#f9dde6', stroke: '#b0486a' },
+	{ fill: '#e8e0f4', stroke: '#7a5aa8' },
+	{ fill: '#d9f0ef', stroke: '#3f8f8a' },
+	{ fill: '#f6f1cf', stroke: '#a89430' },
+	{ fill: '#ece3da', stroke: '#8a6a50' },
+];
+
+// Landscape width and height in millimetres
+const PAGE_SIZES: Record<string, [number, number]> = {
+	a4: [297, 210],
+	a3: [420, 297],
+	letter: [279.4, 215.9],
+	tabloid: [431.8, 279.4],
+};
+
+function format(value: number): string {
+	return String(Math.round(value * 10) / 10);
+}
+
+function eventOf(events: ParsedEvent[], type: string): ParsedEvent | undefined {
+	return events.find(event => event.type === type);
+}
+
+function polar(center: Point, radius: number, degrees: number): Point {
+	const radians = degrees * Math.PI / 180;
+	return { x: center.x + radius * Math.cos(radians), y: center.y + radius * Math.sin(radians) };
+}
+
+/**
+ * Generation of a Sosa-Stradonitz number, the root being generation 0.
+ */
+function sosaGeneration(sosa: number): number {
+	return 31 - Math.clz32(sosa);
+}
+
+export class GedcomChart {
+	/**
+	 * Draws the ancestors of the root person as a pedigree or fan chart, or their descendants
+	 * as a drop-line chart. The layout is computed here and the SVG needs no fonts or scripts.
+	 */
+	static render(data: ParseResult, rootId: string, type: ChartType, options: ChartOptions, context: IExecuteFunctions): ChartResult {
+		const result = type === 'descendants'
+			? GedcomAncestry.computeDescendants(data, rootId, options.generations, context)
+			: GedcomAncestry.computeAncestors(data, rootId, options.generations, context);
+		const personMap = new Map<string, ParsedPerson>(result.nodes.map(node => [node.id, node]));
+		const root = personMap.get(result.root) as ParsedPerson;
+
+		let drawing: Drawing;
+		if (type === 'fan') {
+			drawing = GedcomChart.fan(result, personMap, options);
+		} else if (type === 'descendants') {
+			drawing = GedcomChart.dropLine(result, personMap, options);
+		} else {
+			drawing = GedcomChart.pedigree(result, personMap, options);
+		}
+
+		const title = `${type === 'descendants' ? 'Descendants' : 'Ancestors'} of ${root.name || root.id}`;
+		return {
+			svg: GedcomChart.document(drawing, title, options),
+			width: drawing.width,
+			height: drawing.height,
+			generations: result.generations.length,
+			persons: result.nodes.length,
+		};
+	}
+
+	/**
+	 * Root on the left and each generation of ancestors in the next column, fathers above mothers.
+	 * A person is centred on their parents; persons without parents take the next free row.
+	 */
+	private static pedigree(result: AncestryResult, personMap: Map<string, ParsedPerson>, options: ChartOptions): Drawing {
+		const slots = GedcomChart.sosaSlots(result);
+		const boxHeight = GedcomChart.boxHeight(options.boxContent);
+		const positions = new Map<number, Point>();
+		let rows = 0;
+
+		const place = (sosa: number): number => {
+			const parents = [sosa * 2, sosa * 2 + 1].filter(parent => slots.has(parent));
+			const y = parents.length > 0
+				? parents.map(place).reduce((sum, parentY) => sum + parentY, 0) / parents.length
+				: MARGIN + (rows++) * (boxHeight + PEDIGREE_GAP_Y);
+			positions.set(sosa, { x: MARGIN + sosaGeneration(sosa) * (BOX_WIDTH + PEDIGREE_GAP_X), y });
+			return y;
+		};
+		place(1);
+
+		const lines: string[] = [];
+		const boxes: string[] = [];
+		for (const [sosa, position] of positions) {
+			const person = personMap.get(slots.get(sosa) as string) as ParsedPerson;
+			boxes.push(GedcomChart.box(person, position, boxHeight, GedcomChart.colors(person, sosaGeneration(sosa), GedcomChart.sosaBranch(sosa), options), options));
+
+			if (sosa > 1) {
+				const child = positions.get(Math.floor(sosa / 2)) as Point;
+				const startX = child.x + BOX_WIDTH;
+				lines.push(`M${format(startX)} ${format(child.y + boxHeight / 2)}H${format(startX + PEDIGREE_GAP_X / 2)}V${format(position.y + boxHeight / 2)}H${format(position.x)}`);
+			}
+		}
+
+		const generations = result.generations.length;
+		return {
+			width: 2 * MARGIN + generations * BOX_WIDTH + (generations - 1) * PEDIGREE_GAP_X,
+			height: 2 * MARGIN + rows * boxHeight + (rows - 1) * PEDIGREE_GAP_Y,
+			elements: [GedcomChart.connectors(lines), ...boxes],
+		};
+	}
+
+	/**
+	 * Root in the centre and a ring per generation of ancestors, fathers on the left of each segment.
+	 * Every slot of the rings drawn is outlined, so missing ancestors show as gaps.
+	 */
+	private static fan(result: AncestryResult, personMap: Map<string, ParsedPerson>, options: ChartOptions): Drawing {
+		const slots = GedcomChart.sosaSlots(result);
+		const generations = result.generations.length;
+		const lineCount = Math.max(options.boxContent.length, 1);
+		const startAngle = 270 - options.fanAngle / 2;
+
+		// Inner radius of each ring, and whether its text follows the arc
+		const radii = [0, FAN_ROOT_RADIUS];
+		const tangent = [true];
+		for (let generation = 1; generation < generations; generation++) {
+			const segmentAngle = options.fanAngle / 2 ** generation;
+			const arc = (radii[generation] + FAN_TANGENT_RING / 2) * segmentAngle * Math.PI / 180;
+			tangent.push(arc >= FAN_TANGENT_MIN_ARC);
+			radii.push(radii[generation] + (tangent[generation] ? FAN_TANGENT_RING : FAN_RADIAL_RING));
+		}
+
+		const outer = radii[generations];
+		const width = 2 * (outer + MARGIN);
+		const height = options.fanAngle === 360 ? width : outer + 2 * MARGIN;
+		const center = { x: MARGIN + outer, y: MARGIN + outer };
+		const elements: string[] = [];
+
+		const root = personMap.get(result.root) as ParsedPerson;
+		const rootColors = GedcomChart.colors(root, 0, undefined, options);
+		const rootShape = options.fanAngle === 360
+			? `<circle cx="${format(center.x)}" cy="${format(center.y)}" r="${FAN_ROOT_RADIUS}"`
+			: `<path d="${GedcomChart.sector(center, 0, FAN_ROOT_RADIUS, 180, 360)}"`;
+		// A half fan's root sits on the baseline, with its text just above it
+		const rootText = options.fanAngle === 360 ? center : { x: center.x, y: center.y - FAN_ROOT_RADIUS / 2 };
+		elements.push(
+			`<g data-id="${GedcomTable.escapeXml(root.id)}">${rootShape} fill="${rootColors.fill}" stroke="${rootColors.stroke}"/>`
+			+ GedcomChart.textBlock(GedcomChart.textLines(root, options.boxContent), rootText, 0, FONT_SIZE, 1.6 * FAN_ROOT_RADIUS)
+			+ '</g>',
+		);
+
+		for (let generation = 1; generation < generations; generation++) {
+			const segmentAngle = options.fanAngle / 2 ** generation;
+			const inner = radii[generation];
+			const ringWidth = radii[generation + 1] - inner;
+			const innerArc = inner * segmentAngle * Math.PI / 180;
+			const fontSize = Math.max(FAN_MIN_FONT_SIZE, Math.min(FONT_SIZE, tangent[generation]
+				? (ringWidth - 2 * BOX_PADDING) / (lineCount * LINE_HEIGHT / FONT_SIZE)
+				: (innerArc - 2) / (lineCount * LINE_HEIGHT / FONT_SIZE)));
+
+			for (let index = 0; index < 2 ** generation; index++) {
+				const sosa = 2 ** generation + index;
+				const from = startAngle + index * segmentAngle;
+				const path = GedcomChart.sector(center, inner, radii[generation + 1], from, from + segmentAngle);
+				const id = slots.get(sosa);
+				if (!id) {
+					elements.push(`<path d="${path}" fill="none" stroke="${EMPTY_SLOT_COLOR}"/>`);
+					continue;
+				}
+
+				const person = personMap.get(id) as ParsedPerson;
+				const colors = GedcomChart.colors(person, generation, GedcomChart.sosaBranch(sosa), options);
+				const middle = from + segmentAngle / 2;
+				let rotation = tangent[generation] ? middle + 90 : middle;
+				// Keep text upright: turn it half a circle when it would read downwards
+				rotation = ((rotation % 360) + 360) % 360;
+				if (rotation > 90 && rotation < 270) rotation -= 180;
+				// Straight text spans the chord across the middle of the segment
+				const available = tangent[generation]
+					? 2 * (inner + ringWidth / 2) * Math.sin(segmentAngle * Math.PI / 360) - 2 * BOX_PADDING
+					: ringWidth - 2 * BOX_PADDING;
+
+				elements.push(
+					`<g data-id="${GedcomTable.escapeXml(id)}"><path d="${path}" fill="${colors.fill}" stroke="${colors.stroke}"/>`
+					+ GedcomChart.textBlock(GedcomChart.textLines(person, options.boxContent), polar(center, inner + ringWidth / 2, middle), rotation, fontSize, available)
+					+ '</g>',
+				);
+			}
+		}
+
+		return { width, height, elements };
+	}
+
+	/**
+	 * Root at the top and each generation of descendants in the next row. A line drops from each
+	 * parent to a bar above their children; parents are centred over their children.
+	 */
+	private static dropLine(result: AncestryResult, personMap: Map<string, ParsedPerson>, options: ChartOptions): Drawing {
+		const boxHeight = GedcomChart.boxHeight(options.boxContent);
+		const children = new Map<string, string[]>();
+		for (const edge of result.edges) {
+			children.set(edge.parent, [...(children.get(edge.parent) || []), edge.child]);
+		}
+
+		// Colour branches follow the root's children
+		const branches = new Map<string, number>();
+		const firstGeneration = result.generations.length > 1 ? result.generations[1] : [];
+		const branchOf = (id: string, branch: number | undefined) => {
+			if (branch !== undefined) branches.set(id, branch);
+			for (const child of children.get(id) || []) {
+				branchOf(child, branch === undefined ? firstGeneration.indexOf(child) : branch);
+			}
+		};
+		branchOf(result.root, undefined);
+
+		const positions = new Map<string, Point & { generation: number }>();
+		let columns = 0;
+
+		const place = (id: string, generation: number): number => {
+			const kids = children.get(id) || [];
+			let x: number;
+			if (kids.length > 0) {
+				const childXs = kids.map(child => place(child, generation + 1));
+				x = (childXs[0] + childXs[childXs.length - 1]) / 2;
+			} else {
+				x = MARGIN + (columns++) * (BOX_WIDTH + DESCENDANTS_GAP_X);
+			}
+			positions.set(id, { x, y: MARGIN + generation * (boxHeight + DESCENDANTS_GAP_Y), generation });
+			return x;
+		};
+		place(result.root, 0);
+
+		const lines: string[] = [];
+		const boxes: string[] = [];
+		for (const [id, position] of positions) {
+			const person = personMap.get(id) as ParsedPerson;
+			boxes.push(GedcomChart.box(person, position, boxHeight, GedcomChart.colors(person, position.generation, branches.get(id), options), options));
+
+			const kids = (children.get(id) || []).map(child => positions.get(child) as Point);
+			if (kids.length === 0) continue;
+
+			const barY = position.y + boxHeight + DESCENDANTS_GAP_Y / 2;
+			const centers = kids.map(kid => kid.x + BOX_WIDTH / 2);
+			let path = `M${format(position.x + BOX_WIDTH / 2)} ${format(position.y + boxHeight)}V${format(barY)}`;
+			if (kids.length > 1) {
+				path += `M${format(centers[0])} ${format(barY)}H${format(centers[centers.length - 1])}`;
+			}
+			kids.forEach((kid, index) => {
+				path += `M${format(centers[index])} ${format(barY)}V${format(kid.y)}`;
+			});
+			lines.push(path);
+		}
+
+		const generations = result.generations.length;
+		return {
+			width: 2 * MARGIN + columns * BOX_WIDTH + (columns - 1) * DESCENDANTS_GAP_X,
+			height: 2 * MARGIN + generations * boxHeight + (generations - 1) * DESCENDANTS_GAP_Y,
+			elements: [GedcomChart.connectors(lines), ...boxes],
+		};
+	}
+
+	/**
+	 * Sized in millimetres for a page, the drawing being scaled to fit and centred, or in pixels.
+	 */
+	private static document(drawing: Drawing, title: string, options: ChartOptions): string {
+		const page = PAGE_SIZES[options.pageSize];
+		let size = `width="${format(drawing.width)}" height="${format(drawing.height)}"`;
+		if (page) {
+			const [pageWidth, pageHeight] = options.orientation === 'portrait' ? [page[1], page[0]] : page;
+			size = `width="${pageWidth}mm" height="${pageHeight}mm" preserveAspectRatio="xMidYMid meet"`;
+		}
+
+		return '<?xml version="1.0" encoding="UTF-8"?>\n'
+			+ `<svg xmlns="http://www.w3.org/2000/svg" ${size} viewBox="0 0 ${format(drawing.width)} ${format(drawing.height)}" font-family="${FONT_FAMILY}" font-size="${FONT_SIZE}">\n`
+			+ `<title>${GedcomTable.escapeXml(title)}</title>\n`
+			+ `<rect width="${format(drawing.width)}" height="${format(drawing.height)}" fill="#ffffff"/>\n`
+			+ drawing.elements.filter(element => element).map(element => `${element}\n`).join('')
+			+ '</svg>\n';
+	}
+
+	private static box(person: ParsedPerson, position: Point, height: number, colors: BoxColors, options: ChartOptions): string {
+		const text = GedcomChart.textLines(person, options.boxContent).map((line, index) => {
+			const y = position.y + BOX_PADDING + (index + 1) * LINE_HEIGHT - 3;
+			const content = GedcomChart.fit(line.text, BOX_WIDTH - 2 * BOX_PADDING, FONT_SIZE);
+			return `<text x="${format(position.x + BOX_PADDING)}" y="${format(y)}"${line.bold ? ' font-weight="bold"' : ''}>${GedcomTable.escapeXml(content)}</text>`;
+		});
+		return `<g data-id="${GedcomTable.escapeXml(person.id)}">`
+			+ `<rect x="${format(position.x)}" y="${format(position.y)}" width="${BOX_WIDTH}" height="${height}" rx="4" fill="${colors.fill}" stroke="${colors.stroke}"/>`
+			+ text.join('')
+			+ '</g>';
+	}
+
+	/**
+	 * Lines centred on a point and turned by `rotation` degrees, for fan chart segments.
+	 */
+	private static textBlock(lines: TextLine[], at: Point, rotation: number, fontSize: number, width: number): string {
+		const lineHeight = fontSize * LINE_HEIGHT / FONT_SIZE;
+		const text = lines.map((line, index) => {
+			const y = (index - (lines.length - 1) / 2) * lineHeight + fontSize * 0.35;
+			const content = GedcomChart.fit(line.text, width, fontSize);
+			return `<text y="${format(y)}" text-anchor="middle"${line.bold ? ' font-weight="bold"' : ''}>${GedcomTable.escapeXml(content)}</text>`;
+		});
+		const size = fontSize === FONT_SIZE ? '' : ` font-size="${format(fontSize)}"`;
+		return `<g transform="translate(${format(at.x)} ${format(at.y)}) rotate(${format(rotation)})"${size}>${text.join('')}</g>`;
+	}
+
+	private static textLines(person: ParsedPerson, fields: ChartBoxField[]): TextLine[] {
+		const event = (type: string, prefix: string): string => {
+			const found = eventOf(person.events || [], type);
+			if (!found || (!found.date && !found.place)) return '';
+			return `${prefix} ${[found.date, found.place].filter(part => part).join(', ')}`;
+		};
+		const parts: Record<ChartBoxField, string> = {
+			name: person.name,
+			lifespan: GedcomGraph.lifespan(person.birthDate, person.deathDate),
+			birth: event('BIRT', 'b.'),
+			death: event('DEAT', 'd.'),
+			id: person.id,
+		};
+
+		const lines = fields.filter(field => parts[field]).map(field => ({ text: parts[field], bold: field === 'name' }));
+		return lines.length > 0 ? lines : [{ text: person.id, bold: false }];
+	}
+
+	/**
+	 * Shortens text with an ellipsis to about `width` units.
+	 */
+	private static fit(text: string, width: number, fontSize: number): string {
+		const characters = Math.floor(width / (fontSize * CHAR_WIDTH_RATIO));
+		if (text.length <= characters) return text;
+		return characters > 1 ? `${text.slice(0, characters - 1).trimEnd()}…` : '';
+	}
+
+	private static boxHeight(fields: ChartBoxField[]): number {
+		return 2 * BOX_PADDING + Math.max(fields.length, 1) * LINE_HEIGHT;
+	}
+
+	private static colors(person: ParsedPerson, generation: number, branch: number | undefined, options: ChartOptions): BoxColors {
+		switch (options.colorBy) {
+			case 'sex':
+				return SEX_COLORS[person.sex || 'U'] || SEX_COLORS.U;
+			case 'branch':
+				return branch === undefined ? SEX_COLORS.U : PALETTE[branch % PALETTE.length];
+			case 'generation':
+				return PALETTE[generation % PALETTE.length];
+			default:
+				return NEUTRAL_COLORS;
+		}
+	}
+
+	/**
+	 * Person in each ancestor slot. A person reached through several lines fills several slots.
+	 */
+	private static sosaSlots(result: AncestryResult): Map<number, string> {
+		const slots = new Map<number, string>();
+		for (const node of result.nodes) {
+			for (const sosa of node.sosa || []) {
+				slots.set(sosa, node.id);
+			}
+		}
+		return slots;
+	}
+
+	/**
+	 * The grandparent a slot descends from: 0 and 1 on the father's side, 2 and 3 on the mother's.
+	 * Parents take the colour of their father's branch.
+	 */
+	private static sosaBranch(sosa: number): number | undefined {
+		const generation = sosaGeneration(sosa);
+		if (generation === 0) return undefined;
+		if (generation === 1) return (sosa - 2) * 2;
+		return Math.floor(sosa / 2 ** (generation - 2)) - 4;
+	}
+
+	private static connectors(paths: string[]): string {
+		return paths.length > 0 ? `<path d="${paths.join('')}" fill="none" stroke="${LINE_COLOR}"/>` : '';
+	}
+
+	/**
+	 * Ring segment between two angles, in degrees clockwise from the positive x axis.
+	 */
+	private static sector(center: Point, inner: number, outer: number, from: number, to: number): string {
+		const largeArc = to - from > 180 ? 1 : 0;
+		const outerStart = polar(center, outer, from);
+		const outerEnd = polar(center, outer, to);
+		const innerStart = polar(center, inner, from);
+		const innerEnd = polar(center, inner, to);
+		return `M${format(outerStart.x)} ${format(outerStart.y)}`
+			+ `A${outer} ${outer} 0 ${largeArc} 1 ${format(outerEnd.x)} ${format(outerEnd.y)}`
+			+ `L${format(innerEnd.x)} ${format(innerEnd.y)}`
+			+ (inner > 0 ? `A${inner} ${inner} 0 ${largeArc} 0 ${format(innerStart.x)} ${format(innerStart.y)}` : '')
+			+ 'Z';
+	}
+}
@@ -0,0 +1,233 @@
+import { ParseResult, ParsedPerson, ParsedFamily, ParsedEvent, DiffChange, DiffRecord, DiffRecordSet, CompareResult } from './gedcom-types';
+import { GedcomDateParser } from './gedcom-date-parser';
+
+type ComparedRecord = ParsedPerson | ParsedFamily;
+
+export class GedcomCompare {
+	/**
+	 * Reports the persons and families added, removed and modified between two versions of a tree.
+	 * Records are matched by ID and, with `matchByUid`, records left unmatched by their `_UID`.
+	 * Pointers of the new tree are translated to the old IDs first, so renumbered records do not
+	 * show up as changed links.
+	 */
+	static compare(oldData: ParseResult, newData: ParseResult, matchByUid: boolean): CompareResult {
+		const personMatches = GedcomCompare.match(oldData.persons, newData.persons, matchByUid);
+		const familyMatches = GedcomCompare.match(oldData.families, newData.families, matchByUid);
+		const toOldId = new Map<string, string>();
+		for (const [oldId, newId] of [...personMatches, ...familyMatches]) {
+			toOldId.set(newId, oldId);
+		}
+		const translate = (id: string | undefined) => (id ? toOldId.get(id) || id : id);
+
+		const oldNames = new Map(oldData.persons.map(person => [person.id, person.name]));
+		const newNames = new Map(newData.persons.map(person => [translate(person.id) as string, person.name]));
+		const describe = (id: string) => {
+			const name = newNames.get(id) || oldNames.get(id);
+			return name ? `${id} (${name})` : id;
+		};
+		const familyName = (family: ParsedFamily, names: Map<string, string>) => [family.husband, family.wife]
+			.map(id => (id ? names.get(translate(id) as string) || '' : ''))
+			.filter(name => name)
+			.join(' & ');
+
+		const persons = GedcomCompare.diffRecords(oldData.persons, newData.persons, personMatches, person => person.name, (oldPerson, newPerson) => {
+			const changes: DiffChange[] = [];
+			GedcomCompare.compareValue(changes, 'name', 'Name', oldPerson.name, newPerson.name);
+			GedcomCompare.compareValue(changes, 'sex', 'Sex', oldPerson.sex, newPerson.sex);
+			GedcomCompare.compareEvents(changes, oldPerson.events, newPerson.events);
+			GedcomCompare.compareLinks(changes, 'famc', 'Parent family', oldPerson.famc, newPerson.famc.map(id => translate(id) as string), id => id);
+			GedcomCompare.compareLinks(changes, 'fams', 'Family', oldPerson.fams, newPerson.fams.map(id => translate(id) as string), id => id);
+			GedcomCompare.compareCommon(changes, oldPerson, newPerson);
+			return changes;
+		});
+
+		const families = GedcomCompare.diffRecords(oldData.families, newData.families, familyMatches, family => familyName(family, oldNames) || familyName(family, newNames), (oldFamily, newFamily) => {
+			const changes: DiffChange[] = [];
+			const oldHusband = oldFamily.husband ? describe(oldFamily.husband) : undefined;
+			const oldWife = oldFamily.wife ? describe(oldFamily.wife) : undefined;
+			const newHusband = newFamily.husband ? describe(translate(newFamily.husband) as string) : undefined;
+			const newWife = newFamily.wife ? describe(translate(newFamily.wife) as string) : undefined;
+			GedcomCompare.compareValue(changes, 'husband', 'Husband', oldHusband, newHusband);
+			GedcomCompare.compareValue(changes, 'wife', 'Wife', oldWife, newWife);
+			GedcomCompare.compareEvents(changes, oldFamily.events, newFamily.events);
+			GedcomCompare.compareLinks(changes, 'children', 'Child', oldFamily.children, newFamily.children.map(id => translate(id) as string), describe);
+			GedcomCompare.compareCommon(changes, oldFamily, newFamily);
+			return changes;
+		});
+
+		const summary = {
+			personsAdded: persons.added.length,
+			personsRemoved: persons.removed.length,
+			personsModified: persons.modified.length,
+			familiesAdded: families.added.length,
+			familiesRemoved: families.removed.length,
+			familiesModified: families.modified.length,
+		};
+
+		return {
+			hasChanges: Object.values(summary).some(count => count > 0),
+			summary,
+			persons,
+			families,
+		};
+	}
+
+	/**
+	 * Pairs of old and new IDs: same ID first, then the same _UID among the records left.
+	 */
+	private static match(oldRecords: ComparedRecord[], newRecords: ComparedRecord[], matchByUid: boolean): Array<[string, string]> {
+		const newIds = new Set(newRecords.map(record => record.id));
+		const matches: Array<[string, string]> = oldRecords
+			.filter(record => newIds.has(record.id))
+			.map(record => [record.id, record.id]);
+		if (!matchByUid) return matches;
+
+		const matched = new Set(matches.map(([id]) => id));
+		const newByUid = new Map<string, string>();
+		for (const record of newRecords) {
+			if (matched.has(record.id)) continue;
+			for (const uid of GedcomCompare.uids(record)) {
+				if (!newByUid.has(uid)) newByUid.set(uid, record.id);
+			}
+		}
+
+		const taken = new Set<string>();
+		for (const record of oldRecords) {
+			if (matched.has(record.id)) continue;
+			const newId = GedcomCompare.uids(record).map(uid => newByUid.get(uid)).find(id => id && !taken.has(id));
+			if (newId) {
+				taken.add(newId);
+				matches.push([record.id, newId]);
+			}
+		}
+		return matches;
+	}
+
+	private static uids(record: ComparedRecord): string[] {
+		return (record.extensions || [])
+			.filter(node => node.tag === '_UID' && node.value)
+			.map(node => (node.value as string).trim().toUpperCase());
+	}
+
+	private static diffRecords<T extends ComparedRecord>(
+		oldRecords: T[],
+		newRecords: T[],
+		matches: Array<[string, string]>,
+		name: (record: T) => string,
+		compareRecords: (oldRecord: T, newRecord: T) => DiffChange[],
+	): DiffRecordSet {
+		const oldById = new Map(oldRecords.map(record => [record.id, record]));
+		const newById = new Map(newRecords.map(record => [record.id, record]));
+		const matchedOld = new Set(matches.map(([oldId]) => oldId));
+		const matchedNew = new Set(matches.map(([, newId]) => newId));
+		const result: DiffRecordSet = { added: [], removed: [], modified: [] };
+
+		for (const [oldId, newId] of matches) {
+			const oldRecord = oldById.get(oldId) as T;
+			const changes = compareRecords(oldRecord, newById.get(newId) as T);
+			if (changes.length === 0) continue;
+
+			const modified: DiffRecord = {
+				id: oldId,
+				name: name(oldRecord),
+				matchedBy: oldId === newId ? 'id' : 'uid',
+				changes,
+			};
+			if (oldId !== newId) modified.newId = newId;
+			result.modified.push(modified);
+		}
+
+		result.added = newRecords.filter(record => !matchedNew.has(record.id)).map(record => ({ id: record.id, name: name(record) }));
+		result.removed = oldRecords.filter(record => !matchedOld.has(record.id)).map(record => ({ id: record.id, name: name(record) }));
+		return result;
+	}
+
+	/**
+	 * A date narrowed down within the old one (`1850` → `12 MAR 1850`, `ABT 1850` → `1850`) is `refined`.
+	 */
+	private static compareValue(changes: DiffChange[], field: string, label: string, oldValue: string | undefined, newValue: string | undefined, isDate = false): void {
+		const before = (oldValue || '').trim();
+		const after = (newValue || '').trim();
+		if (before === after) return;
+
+		if (!before) {
+			changes.push({ field, change: 'added', new: after, message: `${label} added: ${after}` });
+		} else if (!after) {
+			changes.push({ field, change: 'removed', old: before, message: `${label} removed: ${before}` });
+		} else {
+			const change = isDate && GedcomCompare.refines(before, after) ? 'refined' : 'changed';
+			changes.push({ field, change, old: before, new: after, message: `${label} ${change}: ${before} → ${after}` });
+		}
+	}
+
+	private static refines(oldDate: string, newDate: string): boolean {
+		const oldRange = GedcomDateParser.toRange(GedcomDateParser.parse(oldDate), 5);
+		const newRange = GedcomDateParser.toRange(GedcomDateParser.parse(newDate), 5);
+		if (!oldRange || !newRange) return false;
+		return newRange.min >= oldRange.min && newRange.max <= oldRange.max
+			&& newRange.max - newRange.min < oldRange.max - oldRange.min;
+	}
+
+	/**
+	 * Events are paired by type and order of appearance; the second RESI is `RESI[2]`.
+	 */
+	private static compareEvents(changes: DiffChange[], oldEvents: ParsedEvent[], newEvents: ParsedEvent[]): void {
+		const byType = (events: ParsedEvent[]) => {
+			const groups = new Map<string, ParsedEvent[]>();
+			for (const event of events) {
+				groups.set(event.type, [...(groups.get(event.type) || []), event]);
+			}
+			return groups;
+		};
+		const oldGroups = byType(oldEvents);
+		const newGroups = byType(newEvents);
+		const describe = (event: ParsedEvent) => [event.value, event.date, event.place].filter(part => part).join(', ');
+
+		for (const type of new Set([...oldGroups.keys(), ...newGroups.keys()])) {
+			const before = oldGroups.get(type) || [];
+			const after = newGroups.get(type) || [];
+
+			for (let index = 0; index < Math.max(before.length, after.length); index++) {
+				const field = index === 0 ? type : `${type}[${index + 1}]`;
+				const oldEvent = before[index];
+				const newEvent = after[index];
+
+				if (!oldEvent) {
+					changes.push({ field, change: 'added', new: describe(newEvent), message: `${field} added${describe(newEvent) ? `: ${describe(newEvent)}` : ''}` });
+				} else if (!newEvent) {
+					changes.push({ field, change: 'removed', old: describe(oldEvent), message: `${field} removed${describe(oldEvent) ? `: ${describe(oldEvent)}` : ''}` });
+				} else {
+					GedcomCompare.compareValue(changes, `${field}.date`, `${field} date`, oldEvent.date, newEvent.date, true);
+					GedcomCompare.compareValue(changes, `${field}.place`, `${field} place`, oldEvent.place, newEvent.place);
+					GedcomCompare.compareValue(changes, `${field}.value`, `${field} value`, oldEvent.value, newEvent.value);
+				}
+			}
+		}
+	}
+
+	private static compareLinks(changes: DiffChange[], field: string, label: string, oldIds: string[], newIds: string[], describe: (id: string) => string): void {
+		for (const id of newIds.filter(candidate => !oldIds.includes(candidate))) {
+			changes.push({ field, change: 'added', new: id, message: `${label} ${describe(id)} added` });
+		}
+		for (const id of oldIds.filter(candidate => !newIds.includes(candidate))) {
+			changes.push({ field, change: 'removed', old: id, message: `${label} ${describe(id)} removed` });
+		}
+	}
+
+	/**
+	 * Notes, media links and source citations, compared as sets.
+	 */
+	private static compareCommon(changes: DiffChange[], oldRecord: ComparedRecord, newRecord: ComparedRecord): void {
+		const citations = (record: ComparedRecord) => (record.citations || [])
+			.map(citation => [citation.source, citation.page].filter(part => part).join(', '));
+		const lists: Array<[string, string, string[], string[]]> = [
+			['notes', 'Note', oldRecord.notes || [], newRecord.notes || []],
+			['media', 'Media', oldRecord.media || [], newRecord.media || []],
+			['citations', 'Citation', citations(oldRecord), citations(newRecord)],
+		];
+
+		for (const [field, label, oldValues, newValues] of lists) {
+			GedcomCompare.compareLinks(changes, field, label, oldValues, newValues, value => value);
+		}
+	}
+}
@@ -0,0 +1,515 @@
+import { ParsedDate, DatePoint, DateCalendar, DateQualifier, DatePrecision } from './gedcom-types';
+
+const GREGORIAN_MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const FRENCH_MONTHS = ['VEND', 'BRUM', 'FRIM', 'NIVO', 'PLUV', 'VENT', 'GERM', 'FLOR', 'PRAI', 'MESS', 'THER', 'FRUC', 'COMP'];
+// GEDCOM order starts at Tishri; values are the month numbers used by the conversion (Nisan = 1)
+const HEBREW_MONTHS: Record<string, number> = {
+	TSH: 7, CSH: 8, KSL: 9, TVT: 10, SHV: 11, ADR: 12, ADS: 13,
+	NSN: 1, IYR: 2, SVN: 3, TMZ: 4, AAV: 5, ELL: 6,
+};
+
+const CALENDAR_ESCAPES: Record<string, DateCalendar> = {
+	'@#DGREGORIAN@': 'gregorian',
+	'@#DJULIAN@': 'julian',
+	'@#DHEBREW@': 'hebrew',
+	'@#DFRENCH R@': 'french',
+	'@#DROMAN@': 'roman',
+	'@#DUNKNOWN@': 'unknown',
+};
+
+// GEDCOM 7.0 writes calendars as plain keywords instead of escapes
+const CALENDAR_KEYWORDS: Record<string, DateCalendar> = {
+	GREGORIAN: 'gregorian',
+	JULIAN: 'julian',
+	HEBREW: 'hebrew',
+	FRENCH_R: 'french',
+};
+
+// Gregorian first day (vendémiaire 1) of years I to XIV of the French Republican calendar
+const FRENCH_NEW_YEARS: Array<[number, number, number]> = [
+	[1792, 9, 22], [1793, 9, 22], [1794, 9, 22], [1795, 9, 23], [1796, 9, 22], [1797, 9, 22], [1798, 9, 22],
+	[1799, 9, 23], [1800, 9, 23], [1801, 9, 23], [1802, 9, 23], [1803, 9, 24], [1804, 9, 23], [1805, 9, 23],
+];
+
+const HEBREW_EPOCH_RD = -1373427;
+const RD_TO_JDN = 1721425;
+
+const PRECISION_RANK: Record<DatePrecision, number> = { day: 3, month: 2, year: 1, unknown: 0 };
+
+export class GedcomDateParser {
+	/**
+	 * Parses a GEDCOM DATE value into its qualifier, range, calendar and Gregorian equivalents.
+	 * Values that cannot be understood are returned with `valid: false` and the raw text intact.
+	 */
+	static parse(value: string): ParsedDate {
+		const raw = value || '';
+		const text = raw.trim().replace(/\s+/g, ' ');
+		const upper = text.toUpperCase();
+
+		const result: ParsedDate = {
+			raw,
+			qualifier: 'exact',
+			calendar: 'gregorian',
+			precision: 'unknown',
+			valid: false,
+		};
+
+		if (!text) {
+			return result;
+		}
+
+		const phraseMatch = text.match(/^\((.*)\)$/);
+		if (phraseMatch) {
+			result.qualifier = 'phrase';
+			result.phrase = phraseMatch[1].trim();
+			return result;
+		}
+
+		let match: RegExpMatchArray | null;
+		let start: DatePoint | undefined;
+		let end: DatePoint | undefined;
+		let qualifier: DateQualifier = 'exact';
+
+		if ((match = upper.match(/^INT (.*?)\s*\((.*)\)$/))) {
+			qualifier = 'interpreted';
+			start = end = GedcomDateParser.parsePoint(match[1]);
+			result.phrase = text.slice(text.indexOf('(') + 1, text.lastIndexOf(')')).trim();
+		} else if ((match = upper.match(/^BET (.+) AND (.+)$/))) {
+			qualifier = 'between';
+			start = GedcomDateParser.parsePoint(match[1]);
+			end = GedcomDateParser.parsePoint(match[2]);
+		} else if ((match = upper.match(/^FROM (.+) TO (.+)$/))) {
+			qualifier = 'period';
+			start = GedcomDateParser.parsePoint(match[1]);
+			end = GedcomDateParser.parsePoint(match[2]);
+		} else if ((match = upper.match(/^FROM (.+)$/))) {
+			qualifier = 'from';
+			start = GedcomDateParser.parsePoint(match[1]);
+		} else if ((match = upper.match(/^TO (.+)$/))) {
+			qualifier = 'to';
+			end = GedcomDateParser.parsePoint(match[1]);
+		} else if ((match = upper.match(/^BEF (.+)$/))) {
+			qualifier = 'before';
+			end = GedcomDateParser.parsePoint(match[1]);
+		} else if ((match = upper.match(/^AFT (.+)$/))) {
+			qualifier = 'after';
+			start = GedcomDateParser.parsePoint(match[1]);
+		} else if ((match = upper.match(/^(ABT|CAL|EST) (.+)$/))) {
+			qualifier = match[1] === 'ABT' ? 'about' : match[1] === 'CAL' ? 'calculated' : 'estimated';
+			start = end = GedcomDateParser.parsePoint(match[2]);
+		} else {
+			start = end = GedcomDateParser.parsePoint(upper);
+		}
+
+		const hasStart = qualifier !== 'to' && qualifier !== 'before';
+		const hasEnd = qualifier !== 'from' && qualifier !== 'after';
+		if ((hasStart && !start) || (hasEnd && !end)) {
+			result.qualifier = qualifier;
+			return result;
+		}
+
+		result.qualifier = qualifier;
+		result.valid = true;
+		if (start) result.start = start;
+		if (end) result.end = end;
+
+		const points = [start, end].filter((point): point is DatePoint => point !== undefined);
+		result.calendar = points[0].calendar;
+		result.precision = points
+			.map(point => GedcomDateParser.pointPrecision(point))
+			.reduce((coarsest, precision) => PRECISION_RANK[precision] < PRECISION_RANK[coarsest] ? precision : coarsest);
+
+		const iso = GedcomDateParser.formatIso(result);
+		if (iso) result.iso = iso;
+
+		const sortKey = (start || end)!.sortKey;
+		if (sortKey !== undefined) result.sortKey = sortKey;
+
+		return result;
+	}
+
+	/**
+	 * Orders two parsed dates by sort key, placing dates without one last.
+	 */
+	static compare(a: ParsedDate | undefined, b: ParsedDate | undefined): number {
+		const keyA = a && a.sortKey !== undefined ? a.sortKey : Number.POSITIVE_INFINITY;
+		const keyB = b && b.sortKey !== undefined ? b.sortKey : Number.POSITIVE_INFINITY;
+		if (keyA === keyB) return 0;
+		return keyA < keyB ? -1 : 1;
+	}
+
+	/**
+	 * Returns the earliest and latest sort keys covered by a date, or undefined when the date has no Gregorian equivalent.
+	 * Open-ended dates (BEF, AFT, FROM, TO) have an infinite bound on their open side, and
+	 * approximate dates (ABT, CAL, EST) are widened by `approximateYears` on both sides.
+	 */
+	static toRange(date: ParsedDate, approximateYears = 0): { min: number; max: number } | undefined {
+		if (!date.valid || date.sortKey === undefined) return undefined;
+
+		const min = date.start ? GedcomDateParser.pointBounds(date.start) : undefined;
+		const max = date.end ? GedcomDateParser.pointBounds(date.end) : undefined;
+		if ((date.start && !min) || (date.end && !max)) return undefined;
+
+		const approximate = date.qualifier === 'about' || date.qualifier === 'calculated' || date.qualifier === 'estimated';
+		const margin = approximate ? approximateYears * 10000 : 0;
+
+		// BEF and AFT exclude the stated date itself
+		const lower = min ? (date.qualifier === 'after' ? min.max + 1 : min.min - margin) : Number.NEGATIVE_INFINITY;
+		const upper = max ? (date.qualifier === 'before' ? max.min - 1 : max.max + margin) : Number.POSITIVE_INFINITY;
+
+		return { min: lower, max: upper };
+	}
+
+	/**
+	 * Converts a YYYYMMDD sort key, such as a `toRange` bound, to a Julian day number so two keys
+	 * can be subtracted. Days past the end of the month (the bound of a month-precision date) run into the next one.
+	 */
+	static sortKeyToJdn(key: number): number {
+		const year = Math.floor(key / 10000);
+		const month = Math.floor((key - year * 10000) / 100);
+		return GedcomDateParser.gregorianToJdn(year, month, key - year * 10000 - month * 100);
+	}
+
+	/**
+	 * Tests whether a raw GEDCOM date could fall within the date expressed by a filter such as "1950" or "MAR 1850".
+	 * Falls back to a whole-word comparison when either value has no Gregorian equivalent.
+	 */
+	static matches(value: string, filter: string): boolean {
+		const dateRange = GedcomDateParser.toRange(GedcomDateParser.parse(value));
+		const filterRange = GedcomDateParser.toRange(GedcomDateParser.parse(filter));
+
+		if (dateRange && filterRange) {
+			return dateRange.min <= filterRange.max && filterRange.min <= dateRange.max;
+		}
+
+		const words = value.toUpperCase().split(/[\s/]+/);
+		const filterWords = filter.toUpperCase().trim().split(/\s+/).filter(word => word);
+		return filterWords.length > 0 && filterWords.every(word => words.includes(word));
+	}
+
+	/**
+	 * Rewrites a date value in GEDCOM 7.0 syntax. Parts that 7.0 cannot express in the date itself
+	 * (interpreted and phrase-only dates, dual years, Roman and unknown calendars) are moved to a phrase.
+	 */
+	static toGedcom7(value: string): { date: string; phrase?: string } {
+		const text = (value || '').trim().replace(/\s+/g, ' ');
+
+		const phraseMatch = text.match(/^\((.*)\)$/);
+		if (phraseMatch) {
+			return { date: '', phrase: phraseMatch[1].trim() };
+		}
+
+		let date = text;
+		let phrase: string | undefined;
+
+		const interpretedMatch = text.match(/^INT (.*?)\s*\((.*)\)$/i);
+		if (interpretedMatch) {
+			date = interpretedMatch[1];
+			phrase = interpretedMatch[2].trim();
+		}
+
+		if (/@#D(ROMAN|UNKNOWN)@/i.test(date)) {
+			return { date: '', phrase: phrase || text };
+		}
+
+		if (/\d\/\d{2}\b/.test(date)) {
+			phrase = phrase || text;
+			date = date.replace(/(\d)\/\d{2}\b/g, '$1');
+		}
+
+		date = date
+			.replace(/@#DGREGORIAN@\s*/gi, '')
+			.replace(/@#DJULIAN@\s*/gi, 'JULIAN ')
+			.replace(/@#DHEBREW@\s*/gi, 'HEBREW ')
+			.replace(/@#DFRENCH R@\s*/gi, 'FRENCH_R ')
+			.replace(/\s*\b(B\.C\.|BC)(?=$|\s)/gi, ' BCE');
+
+		return phrase ? { date, phrase } : { date };
+	}
+
+	/**
+	 * Rewrites a date value, and an optional GEDCOM 7.0 phrase, in GEDCOM 5.5.1 syntax.
+	 */
+	static toGedcom551(value: string, phrase?: string): string {
+		let date = (value || '').trim().replace(/\s+/g, ' ')
+			.replace(/\bGREGORIAN /g, '')
+			.replace(/\bJULIAN /g, '@#DJULIAN@ ')
+			.replace(/\bHEBREW /g, '@#DHEBREW@ ')
+			.replace(/\bFRENCH_R /g, '@#DFRENCH R@ ')
+			.replace(/\s*\bBCE$/g, ' B.C.')
+			.replace(/\s*\bBCE (AND|TO) /g, ' B.C. $1 ');
+
+		if (phrase && !date.includes('(')) {
+			if (!date) return `(${phrase})`;
+			if (/^(ABT|CAL|EST|BEF|AFT|BET|FROM|TO) /.test(date)) return date;
+			date = `INT ${date} (${phrase})`;
+		}
+
+		return date;
+	}
+
+	private static parsePoint(text: string): DatePoint | undefined {
+		let calendar: DateCalendar = 'gregorian';
+		let rest = text.trim();
+
+		const escapeMatch = rest.match(/^(@#D[^@]+@)\s*(.*)$/);
+		const keywordMatch = rest.match(/^(GREGORIAN|JULIAN|HEBREW|FRENCH_R) (.*)$/);
+		if (escapeMatch) {
+			const escaped = CALENDAR_ESCAPES[escapeMatch[1]];
+			if (!escaped) return undefined;
+			calendar = escaped;
+			rest = escapeMatch[2];
+		} else if (keywordMatch) {
+			calendar = CALENDAR_KEYWORDS[keywordMatch[1]];
+			rest = keywordMatch[2];
+		}
+
+		let bc = false;
+		const epochMatch = rest.match(/^(.*?)\s*(B\.C\.|BC|BCE)$/);
+		if (epochMatch) {
+			bc = true;
+			rest = epochMatch[1];
+		}
+
+		const tokens = rest.split(' ').filter(token => token);
+		if (tokens.length === 0 || tokens.length > 3) return undefined;
+
+		const yearMatch = tokens[tokens.length - 1].match(/^(\d{1,4})(?:\/(\d{2}))?$/);
+		if (!yearMatch) return undefined;
+
+		const point: DatePoint = {
+			calendar,
+			year: bc ? -parseInt(yearMatch[1], 10) : parseInt(yearMatch[1], 10),
+		};
+		if (yearMatch[2] !== undefined) {
+			point.dualYear = parseInt(yearMatch[2], 10);
+		}
+
+		if (tokens.length >= 2) {
+			const month = GedcomDateParser.monthNumber(tokens[tokens.length - 2], calendar);
+			if (!month) return undefined;
+			point.month = month;
+		}
+
+		if (tokens.length === 3) {
+			if (!/^\d{1,2}$/.test(tokens[0])) return undefined;
+			point.day = parseInt(tokens[0], 10);
+			if (point.day < 1 || point.day > GedcomDateParser.monthLength(point)) return undefined;
+		}
+
+		const gregorian = GedcomDateParser.toGregorian(point);
+		if (gregorian) {
+			point.iso = GedcomDateParser.isoFromParts(gregorian.year, gregorian.month, gregorian.day);
+			point.sortKey = gregorian.year * 10000 + (gregorian.month || 0) * 100 + (gregorian.day || 0);
+		}
+
+		return point;
+	}
+
+	private static monthNumber(token: string, calendar: DateCalendar): number | undefined {
+		let index = -1;
+		if (calendar === 'hebrew') {
+			return HEBREW_MONTHS[token];
+		} else if (calendar === 'french') {
+			index = FRENCH_MONTHS.indexOf(token);
+		} else {
+			index = GREGORIAN_MONTHS.indexOf(token);
+		}
+		return index >= 0 ? index + 1 : undefined;
+	}
+
+	/**
+	 * Number of days in the point's month, with the leap year rules of its calendar.
+	 */
+	private static monthLength(point: DatePoint): number {
+		const month = point.month as number;
+		// Same year as the conversion: dual years are Old Style
+		const year = point.dualYear !== undefined && month <= 3 ? point.year + 1 : point.year;
+
+		switch (point.calendar) {
+			case 'gregorian':
+			case 'julian': {
+				if (month !== 2) return [4, 6, 9, 11].includes(month) ? 30 : 31;
+				// 1 BC is leap: astronomical year 0
+				const astronomicalYear = year < 0 ? year + 1 : year;
+				const leap = point.calendar === 'julian'
+					? astronomicalYear % 4 === 0
+					: astronomicalYear % 4 === 0 && (astronomicalYear % 100 !== 0 || astronomicalYear % 400 === 0);
+				return leap ? 29 : 28;
+			}
+			case 'hebrew':
+				return GedcomDateParser.hebrewMonthLength(month, year);
+			case 'french':
+				// The complementary days fill the year up to the next vendémiaire 1
+				return month === 13
+					? GedcomDateParser.frenchNewYearJdn(year + 1) - GedcomDateParser.frenchNewYearJdn(year) - 360
+					: 30;
+			default:
+				return 31;
+		}
+	}
+
+	private static pointPrecision(point: DatePoint): DatePrecision {
+		if (point.day !== undefined) return 'day';
+		if (point.month !== undefined) return 'month';
+		return 'year';
+	}
+
+	private static pointBounds(point: DatePoint): { min: number; max: number } | undefined {
+		const gregorian = GedcomDateParser.toGregorian(point);
+		if (!gregorian) return undefined;
+
+		return {
+			min: gregorian.year * 10000 + (gregorian.month || 1) * 100 + (gregorian.day || 1),
+			max: gregorian.year * 10000 + (gregorian.month || 12) * 100 + (gregorian.day || 31),
+		};
+	}
+
+	/**
+	 * Converts a point to its Gregorian year, month and day, keeping the precision of the original.
+	 */
+	private static toGregorian(point: DatePoint): { year: number; month?: number; day?: number } | undefined {
+		// Dual years such as 1750/51 are Old Style years; the second one is the modern reckoning
+		const year = point.dualYear !== undefined && point.month !== undefined && point.month <= 3
+			? point.year + 1
+			: point.year;
+
+		switch (point.calendar) {
+			case 'gregorian':
+				return { year, month: point.month, day: point.day };
+			case 'julian': {
+				if (point.month === undefined) return { year };
+				const date = GedcomDateParser.fromJdn(GedcomDateParser.julianToJdn(year, point.month, point.day || 1));
+				return point.day === undefined ? { year: date.year, month: date.month } : date;
+			}
+			case 'hebrew': {
+				const month = point.month !== undefined ? point.month : 7;
+				const jdn = GedcomDateParser.hebrewToRd(point.year, month, point.day || 1) + RD_TO_JDN;
+				const date = GedcomDateParser.fromJdn(jdn);
+				if (point.month === undefined) return { year: date.year };
+				return point.day === undefined ? { year: date.year, month: date.month } : date;
+			}
+			case 'french': {
+				if (point.year < 1) return undefined;
+				const month = point.month !== undefined ? point.month : 1;
+				const jdn = GedcomDateParser.frenchNewYearJdn(point.year) + (month - 1) * 30 + (point.day || 1) - 1;
+				const date = GedcomDateParser.fromJdn(jdn);
+				if (point.month === undefined) return { year: date.year };
+				return point.day === undefined ? { year: date.year, month: date.month } : date;
+			}
+			default:
+				return undefined;
+		}
+	}
+
+	private static formatIso(date: ParsedDate): string | undefined {
+		const start = date.start ? date.start.iso : undefined;
+		const end = date.end ? date.end.iso : undefined;
+
+		switch (date.qualifier) {
+			case 'before':
+			case 'to':
+				return end ? `../${end}` : undefined;
+			case 'after':
+			case 'from':
+				return start ? `${start}/..` : undefined;
+			case 'between':
+			case 'period':
+				return start && end ? `${start}/${end}` : undefined;
+			default:
+				return start;
+		}
+	}
+
+	private static isoFromParts(year: number, month?: number, day?: number): string {
+		const sign = year < 0 ? '-' : '';
+		let iso = `${sign}${String(Math.abs(year)).padStart(4, '0')}`;
+		if (month !== undefined) iso += `-${String(month).padStart(2, '0')}`;
+		if (month !== undefined && day !== undefined) iso += `-${String(day).padStart(2, '0')}`;
+		return iso;
+	}
+
+	private static julianToJdn(year: number, month: number, day: number): number {
+		const astronomicalYear = year < 0 ? year + 1 : year;
+		const a = Math.floor((14 - month) / 12);
+		const y = astronomicalYear + 4800 - a;
+		const m = month + 12 * a - 3;
+		return day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4) - 32083;
+	}
+
+	private static gregorianToJdn(year: number, month: number, day: number): number {
+		const a = Math.floor((14 - month) / 12);
+		const y = year + 4800 - a;
+		const m = month + 12 * a - 3;
+		return day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4) - Math.floor(y / 100) + Math.floor(y / 400) - 32045;
+	}
+
+	private static fromJdn(jdn: number): { year: number; month: number; day: number } {
+		const a = jdn + 32044;
+		const b = Math.floor((4 * a + 3) / 146097);
+		const c = a - Math.floor(146097 * b / 4);
+		const d = Math.floor((4 * c + 3) / 1461);
+		const e = c - Math.floor(1461 * d / 4);
+		const m = Math.floor((5 * e + 2) / 153);
+		return {
+			day: e - Math.floor((153 * m + 2) / 5) + 1,
+			month: m + 3 - 12 * Math.floor(m / 10),
+			year: 100 * b + d - 4800 + Math.floor(m / 10),
+		};
+	}
+
+	private static frenchNewYearJdn(year: number): number {
+		const known = FRENCH_NEW_YEARS[year - 1];
+		if (known) {
+			return GedcomDateParser.gregorianToJdn(known[0], known[1], known[2]);
+		}
+		return GedcomDateParser.gregorianToJdn(1791 + year, 9, 22);
+	}
+
+	private static hebrewLeapYear(year: number): boolean {
+		return ((7 * year + 1) % 19) < 7;
+	}
+
+	private static hebrewElapsedDays(year: number): number {
+		const monthsElapsed = Math.floor((235 * year - 234) / 19);
+		const partsElapsed = 12084 + 13753 * monthsElapsed;
+		const days = 29 * monthsElapsed + Math.floor(partsElapsed / 25920);
+		return (3 * (days + 1)) % 7 < 3 ? days + 1 : days;
+	}
+
+	private static hebrewNewYear(year: number): number {
+		const previous = GedcomDateParser.hebrewElapsedDays(year - 1);
+		const current = GedcomDateParser.hebrewElapsedDays(year);
+		const next = GedcomDateParser.hebrewElapsedDays(year + 1);
+		let correction = 0;
+		if (next - current === 356) {
+			correction = 2;
+		} else if (current - previous === 382) {
+			correction = 1;
+		}
+		return HEBREW_EPOCH_RD + current + correction;
+	}
+
+	private static hebrewMonthLength(month: number, year: number): number {
+		const yearLength = GedcomDateParser.hebrewNewYear(year + 1) - GedcomDateParser.hebrewNewYear(year);
+		if ([2, 4, 6, 10, 13].includes(month)) return 29;
+		if (month === 12 && !GedcomDateParser.hebrewLeapYear(year)) return 29;
+		if (month === 8 && yearLength % 10 !== 5) return 29;
+		if (month === 9 && yearLength % 10 === 3) return 29;
+		return 30;
+	}
+
+	private static hebrewToRd(year: number, month: number, day: number): number {
+		const lastMonth = GedcomDateParser.hebrewLeapYear(year) ? 13 : 12;
+		let rd = GedcomDateParser.hebrewNewYear(year) + day - 1;
+
+		if (month < 7) {
+			for (let m = 7; m <= lastMonth; m++) rd += GedcomDateParser.hebrewMonthLength(m, year);
+			for (let m = 1; m < month; m++) rd += GedcomDateParser.hebrewMonthLength(m, year);
+		} else {
+			for (let m = 7; m < month; m++) rd += GedcomDateParser.hebrewMonthLength(m, year);
+		}
+
+		return rd;
+	}
+}
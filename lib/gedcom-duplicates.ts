@@ -0,0 +1,268 @@
+import { ParseResult, ParsedPerson, ParsedFamily, DuplicateOptions, DuplicateCandidate, DuplicateScoreBreakdown } from './gedcom-types';
+import { GedcomDateParser } from './gedcom-date-parser';
+import { GedcomFinder } from './gedcom-finder';
+
+// Points of each criterion; a pair matching on all of them scores 100
+const WEIGHTS: DuplicateScoreBreakdown = {
+	name: 30,
+	phonetic: 15,
+	birth: 20,
+	death: 10,
+	place: 10,
+	relatives: 15,
+};
+// A criterion that cannot be compared, because one side lacks it, scores this share of its points
+const UNKNOWN_SHARE = 0.5;
+// ABT, CAL and EST dates are treated as this many years either side of the stated date
+const APPROXIMATE_DATE_YEARS = 5;
+// Dates further apart than this many years score nothing
+const MAX_DATE_GAP_YEARS = 5;
+
+const SOUNDEX_CODES: Record<string, string> = {
+	b: '1', f: '1', p: '1', v: '1',
+	c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+	d: '3', t: '3',
+	l: '4',
+	m: '5', n: '5',
+	r: '6',
+};
+
+type DateRange = { min: number; max: number };
+
+interface PersonProfile {
+	person: ParsedPerson;
+	tokens: string[];
+	soundex: Set<string>;
+	birth?: DateRange;
+	death?: DateRange;
+	birthPlace: string;
+	deathPlace: string;
+	parents: Set<string>;
+	spouses: Set<string>;
+}
+
+export class GedcomDuplicates {
+	/**
+	 * Scores pairs of persons that may be the same individual and returns those reaching the
+	 * threshold, best first. Only persons sharing the sound (Soundex) of a given name or surname
+	 * are compared, and persons of different known sex never are.
+	 */
+	static findDuplicates(data: ParseResult, options: DuplicateOptions): DuplicateCandidate[] {
+		const familyMap = new Map<string, ParsedFamily>(data.families.map(family => [family.id, family]));
+		const profiles = data.persons.map(person => GedcomDuplicates.profile(person, familyMap));
+
+		// Blocking on name sounds keeps large trees from being compared pair by pair. Every name word
+		// is a key, so swapped given names and surnames, or a missing surname, still meet
+		const blocks = new Map<string, number[]>();
+		profiles.forEach((profile, index) => {
+			for (const key of profile.soundex) {
+				const block = blocks.get(key) || [];
+				block.push(index);
+				blocks.set(key, block);
+			}
+		});
+
+		const compared = new Set<string>();
+		const candidates: DuplicateCandidate[] = [];
+
+		for (const block of blocks.values()) {
+			for (let a = 0; a < block.length; a++) {
+				for (let b = a + 1; b < block.length; b++) {
+					const key = `${block[a]}:${block[b]}`;
+					if (compared.has(key)) continue;
+					compared.add(key);
+
+					const candidate = GedcomDuplicates.compare(profiles[block[a]], profiles[block[b]]);
+					if (candidate && candidate.score >= options.threshold) {
+						candidates.push(candidate);
+					}
+				}
+			}
+		}
+
+		candidates.sort((a, b) => b.score - a.score);
+		return options.limit ? candidates.slice(0, options.limit) : candidates;
+	}
+
+	/**
+	 * American Soundex code of a word: its first letter and three digits.
+	 */
+	static soundex(word: string): string {
+		const letters = GedcomFinder.normalizeText(word).replace(/[^a-z]/g, '');
+		if (!letters) return '';
+
+		let code = letters[0].toUpperCase();
+		let previous = SOUNDEX_CODES[letters[0]] || '';
+		for (const letter of letters.slice(1)) {
+			const digit = SOUNDEX_CODES[letter] || '';
+			if (digit && digit !== previous) code += digit;
+			// H and W do not separate letters with the same code; vowels do
+			if (letter !== 'h' && letter !== 'w') previous = digit;
+			if (code.length === 4) break;
+		}
+		return code.padEnd(4, '0');
+	}
+
+	private static compare(first: PersonProfile, second: PersonProfile): DuplicateCandidate | undefined {
+		const sexes = [first.person.sex, second.person.sex];
+		if (sexes.every(sex => sex === 'M' || sex === 'F') && sexes[0] !== sexes[1]) return undefined;
+
+		const shares: DuplicateScoreBreakdown = {
+			name: GedcomDuplicates.tokenSimilarity(first.tokens, second.tokens),
+			phonetic: GedcomDuplicates.phoneticSimilarity(first.soundex, second.soundex),
+			birth: GedcomDuplicates.dateSimilarity(first.birth, second.birth),
+			death: GedcomDuplicates.dateSimilarity(first.death, second.death),
+			place: GedcomDuplicates.placeSimilarity(first, second),
+			relatives: GedcomDuplicates.relativeSimilarity(first, second),
+		};
+
+		const breakdown = {} as DuplicateScoreBreakdown;
+		let score = 0;
+		for (const criterion of Object.keys(WEIGHTS) as Array<keyof DuplicateScoreBreakdown>) {
+			breakdown[criterion] = Math.round(shares[criterion] * WEIGHTS[criterion] * 10) / 10;
+			score += shares[criterion] * WEIGHTS[criterion];
+		}
+
+		return {
+			score: Math.round(score * 10) / 10,
+			first: GedcomDuplicates.summary(first.person),
+			second: GedcomDuplicates.summary(second.person),
+			breakdown,
+		};
+	}
+
+	private static profile(person: ParsedPerson, familyMap: Map<string, ParsedFamily>): PersonProfile {
+		const surnameTokens = GedcomDuplicates.tokenize(person.lastName || '');
+		const givenTokens = GedcomDuplicates.tokenize(person.firstName || (person.lastName ? '' : person.name));
+		const tokens = [...givenTokens, ...surnameTokens];
+		const event = (type: string) => person.events.find(candidate => candidate.type === type);
+
+		const parents = new Set<string>();
+		for (const familyId of person.famc) {
+			const family = familyMap.get(familyId);
+			if (family && family.husband) parents.add(family.husband);
+			if (family && family.wife) parents.add(family.wife);
+		}
+
+		const spouses = new Set<string>();
+		for (const familyId of person.fams) {
+			const family = familyMap.get(familyId);
+			const spouse = family && (family.husband === person.id ? family.wife : family.husband);
+			if (spouse) spouses.add(spouse);
+		}
+
+		return {
+			person,
+			tokens,
+			soundex: new Set(tokens.map(GedcomDuplicates.soundex)),
+			birth: GedcomDuplicates.dateRange(person.birthDate),
+			death: GedcomDuplicates.dateRange(person.deathDate),
+			birthPlace: (event('BIRT') || { place: '' }).place || '',
+			deathPlace: (event('DEAT') || { place: '' }).place || '',
+			parents,
+			spouses,
+		};
+	}
+
+	/**
+	 * Splits a name or place into lowercase words without accents, hyphens or punctuation,
+	 * so "Jean-François" and "JEAN FRANCOIS" give the same words.
+	 */
+	private static tokenize(text: string): string[] {
+		return GedcomFinder.normalizeText(text)
+			.replace(/[^a-z0-9]+/g, ' ')
+			.split(' ')
+			.filter(token => token);
+	}
+
+	/**
+	 * Average, over the words of both names, of the closest word of the other name; word order does not matter.
+	 */
+	private static tokenSimilarity(first: string[], second: string[]): number {
+		if (first.length === 0 || second.length === 0) return UNKNOWN_SHARE;
+
+		const best = (token: string, others: string[]) => Math.max(...others.map(other => GedcomDuplicates.wordSimilarity(token, other)));
+		const total = first.reduce((sum, token) => sum + best(token, second), 0)
+			+ second.reduce((sum, token) => sum + best(token, first), 0);
+		return total / (first.length + second.length);
+	}
+
+	private static wordSimilarity(first: string, second: string): number {
+		if (first === second) return 1;
+
+		// Levenshtein distance, one row at a time
+		let previous = Array.from({ length: second.length + 1 }, (_, index) => index);
+		for (let i = 1; i <= first.length; i++) {
+			const current = [i];
+			for (let j = 1; j <= second.length; j++) {
+				const cost = first[i - 1] === second[j - 1] ? 0 : 1;
+				current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+			}
+			previous = current;
+		}
+		return 1 - previous[second.length] / Math.max(first.length, second.length);
+	}
+
+	private static phoneticSimilarity(first: Set<string>, second: Set<string>): number {
+		if (first.size === 0 || second.size === 0) return UNKNOWN_SHARE;
+		const shared = Array.from(first).filter(code => second.has(code)).length;
+		return 2 * shared / (first.size + second.size);
+	}
+
+	/**
+	 * Overlapping dates score in full; apart, the score falls to nothing at MAX_DATE_GAP_YEARS.
+	 */
+	private static dateSimilarity(first: DateRange | undefined, second: DateRange | undefined): number {
+		if (!first || !second) return UNKNOWN_SHARE;
+		if (first.min <= second.max && second.min <= first.max) return 1;
+
+		const gapDays = GedcomDateParser.sortKeyToJdn(Math.max(first.min, second.min)) - GedcomDateParser.sortKeyToJdn(Math.min(first.max, second.max));
+		const gapYears = gapDays / 365.25;
+		return Math.max(0, 1 - gapYears / MAX_DATE_GAP_YEARS);
+	}
+
+	private static placeSimilarity(first: PersonProfile, second: PersonProfile): number {
+		const shares: number[] = [];
+		if (first.birthPlace && second.birthPlace) {
+			shares.push(GedcomDuplicates.placeShare(first.birthPlace, second.birthPlace));
+		}
+		if (first.deathPlace && second.deathPlace) {
+			shares.push(GedcomDuplicates.placeShare(first.deathPlace, second.deathPlace));
+		}
+		if (shares.length === 0) return UNKNOWN_SHARE;
+		return shares.reduce((sum, share) => sum + share, 0) / shares.length;
+	}
+
+	/**
+	 * Places naming the same town score in full, whatever follows the first comma.
+	 */
+	private static placeShare(first: string, second: string): number {
+		const town = (place: string) => GedcomDuplicates.tokenize(place.split(',')[0]).join(' ');
+		if (town(first) && town(first) === town(second)) return 1;
+		return GedcomDuplicates.tokenSimilarity(GedcomDuplicates.tokenize(first), GedcomDuplicates.tokenize(second));
+	}
+
+	/**
+	 * A shared parent or spouse scores in full; parents or spouses known on both sides but all different score nothing.
+	 */
+	private static relativeSimilarity(first: PersonProfile, second: PersonProfile): number {
+		const shares = (a: Set<string>, b: Set<string>) => Array.from(a).some(id => b.has(id));
+		if (shares(first.parents, second.parents) || shares(first.spouses, second.spouses)) return 1;
+		if ((first.parents.size > 0 && second.parents.size > 0) || (first.spouses.size > 0 && second.spouses.size > 0)) return 0;
+		return UNKNOWN_SHARE;
+	}
+
+	private static dateRange(value: string): DateRange | undefined {
+		if (!value) return undefined;
+		return GedcomDateParser.toRange(GedcomDateParser.parse(value), APPROXIMATE_DATE_YEARS);
+	}
+
+	private static summary(person: ParsedPerson): DuplicateCandidate['first'] {
+		return {
+			id: person.id,
+			name: person.name,
+			birthDate: person.birthDate,
+			deathDate: person.deathDate,
+		};
+	}
+}
@@ -0,0 +1,272 @@
+import { GedcomCharset } from './gedcom-types';
+
+// Upper halves (0x80-0xFF) of the IBM PC code pages
+const CP437_HIGH = 'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00A0';
+const CP850_HIGH = 'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒáíóúñÑªº¿®¬½¼¡«»░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈıÍÎÏ┘┌█▄¦Ì▀ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00AD±‗¾¶§÷¸°¨·¹³²■\u00A0';
+
+// ANSEL (ANSI Z39.47) spacing characters, including the GEDCOM 5.5 additions
+const ANSEL_SPACING: Record<number, string> = {
+	0xA1: 'Ł', 0xA2: 'Ø', 0xA3: 'Đ', 0xA4: 'Þ', 0xA5: 'Æ', 0xA6: 'Œ',
+	0xA7: 'ʹ', 0xA8: '·', 0xA9: '♭', 0xAA: '®', 0xAB: '±', 0xAC: 'Ơ',
+	0xAD: 'Ư', 0xAE: 'ʼ', 0xB0: 'ʻ', 0xB1: 'ł', 0xB2: 'ø', 0xB3: 'đ',
+	0xB4: 'þ', 0xB5: 'æ', 0xB6: 'œ', 0xB7: 'ʺ', 0xB8: 'ı', 0xB9: '£',
+	0xBA: 'ð', 0xBC: 'ơ', 0xBD: 'ư', 0xBE: '□', 0xBF: '■', 0xC0: '°',
+	0xC1: 'ℓ', 0xC2: '℗', 0xC3: '©', 0xC4: '♯', 0xC5: '¿', 0xC6: '¡',
+	0xC7: 'ß', 0xC8: '€', 0xCD: 'e', 0xCE: 'o', 0xCF: 'ß',
+};
+
+// ANSEL combining diacritics, which precede their base character
+const ANSEL_COMBINING: Record<number, string> = {
+	0xE0: '\u0309', 0xE1: '\u0300', 0xE2: '\u0301', 0xE3: '\u0302', 0xE4: '\u0303', 0xE5: '\u0304',
+	0xE6: '\u0306', 0xE7: '\u0307', 0xE8: '\u0308', 0xE9: '\u030C', 0xEA: '\u030A', 0xEB: '\uFE20',
+	0xEC: '\uFE21', 0xED: '\u0315', 0xEE: '\u030B', 0xEF: '\u0310', 0xF0: '\u0327', 0xF1: '\u0328',
+	0xF2: '\u0323', 0xF3: '\u0324', 0xF4: '\u0325', 0xF5: '\u0333', 0xF6: '\u0332', 0xF7: '\u0326',
+	0xF8: '\u031C', 0xF9: '\u032E', 0xFA: '\uFE22', 0xFB: '\uFE23', 0xFE: '\u0313',
+};
+
+// HEAD.CHAR values as written by common genealogy programs
+const CHAR_TAG_ENCODINGS: Record<string, GedcomCharset> = {
+	'ANSEL': 'ANSEL',
+	'ANSI': 'CP1252',
+	'WINDOWS-1252': 'CP1252',
+	'CP1252': 'CP1252',
+	'IBM WINDOWS': 'CP1252',
+	'IBMPC': 'CP437',
+	'IBM PC': 'CP437',
+	'CP437': 'CP437',
+	'CP850': 'CP850',
+	'IBM850': 'CP850',
+	'MACINTOSH': 'MACINTOSH',
+	'ASCII': 'ASCII',
+	'UTF-8': 'UTF-8',
+	'UTF8': 'UTF-8',
+	'UNICODE': 'UTF-16LE',
+	'UTF-16': 'UTF-16LE',
+};
+
+// Closest ASCII spelling of letters that have no decomposition
+const ASCII_TRANSLITERATIONS: Record<string, string> = {
+	'ß': 'ss', 'æ': 'ae', 'Æ': 'AE', 'œ': 'oe', 'Œ': 'OE', 'ø': 'o', 'Ø': 'O',
+	'ł': 'l', 'Ł': 'L', 'đ': 'd', 'Đ': 'D', 'ð': 'd', 'Ð': 'D', 'þ': 'th', 'Þ': 'TH', 'ı': 'i',
+};
+
+const ANSEL_SPACING_BYTES = reverseTable(ANSEL_SPACING, [0xC7, 0xCD, 0xCE]);
+const ANSEL_COMBINING_BYTES = reverseTable(ANSEL_COMBINING, []);
+
+function reverseTable(table: Record<number, string>, skip: number[]): Map<string, number> {
+	const reverse = new Map<string, number>();
+	for (const [byte, char] of Object.entries(table)) {
+		if (!skip.includes(Number(byte))) reverse.set(char, Number(byte));
+	}
+	return reverse;
+}
+
+export interface DecodedGedcom {
+	text: string;
+	encoding: GedcomCharset;
+}
+
+export class GedcomEncoding {
+	/**
+	 * Decodes a GEDCOM file using its byte order mark, its HEAD `1 CHAR` line, or UTF-8 when neither is present.
+	 * Files declaring a legacy character set that are in fact valid UTF-8 are read as UTF-8.
+	 */
+	static decode(buffer: Buffer): DecodedGedcom {
+		if (buffer.length >= 3 && buffer[0] === 0xEF && buffer[1] === 0xBB && buffer[2] === 0xBF) {
+			return { text: buffer.subarray(3).toString('utf8'), encoding: 'UTF-8' };
+		}
+
+		if (buffer.length >= 2) {
+			if (buffer[0] === 0xFF && buffer[1] === 0xFE) {
+				return { text: buffer.subarray(2).toString('utf16le'), encoding: 'UTF-16LE' };
+			}
+			if (buffer[0] === 0xFE && buffer[1] === 0xFF) {
+				return { text: GedcomEncoding.decodeUtf16be(buffer.subarray(2)), encoding: 'UTF-16BE' };
+			}
+			// No BOM, but the leading "0" of "0 HEAD" is followed or preceded by a NUL byte
+			if (buffer[0] !== 0x00 && buffer[1] === 0x00) {
+				return { text: buffer.toString('utf16le'), encoding: 'UTF-16LE' };
+			}
+			if (buffer[0] === 0x00 && buffer[1] !== 0x00) {
+				return { text: GedcomEncoding.decodeUtf16be(buffer), encoding: 'UTF-16BE' };
+			}
+		}
+
+		const declared = GedcomEncoding.sniffCharTag(buffer);
+		const encoding = declared ? CHAR_TAG_ENCODINGS[declared] : undefined;
+
+		if (!encoding || encoding === 'UTF-8' || encoding === 'UTF-16LE') {
+			return GedcomEncoding.decodeUtf8OrLegacy(buffer);
+		}
+
+		if (GedcomEncoding.isAscii(buffer)) {
+			return { text: buffer.toString('latin1'), encoding: encoding === 'ASCII' ? 'ASCII' : encoding };
+		}
+
+		if (GedcomEncoding.isUtf8(buffer)) {
+			return { text: buffer.toString('utf8'), encoding: 'UTF-8' };
+		}
+
+		switch (encoding) {
+			case 'ANSEL':
+				return { text: GedcomEncoding.decodeAnsel(buffer), encoding };
+			case 'CP437':
+				return { text: GedcomEncoding.decodeCodePage(buffer, CP437_HIGH), encoding };
+			case 'CP850':
+				return { text: GedcomEncoding.decodeCodePage(buffer, CP850_HIGH), encoding };
+			case 'MACINTOSH':
+				return { text: new TextDecoder('macintosh').decode(buffer), encoding };
+			default:
+				// ASCII files with 8-bit characters are almost always Windows ANSI
+				return { text: new TextDecoder('windows-1252').decode(buffer), encoding: 'CP1252' };
+		}
+	}
+
+	/**
+	 * Encodes GEDCOM text for writing. UTF-16 output always starts with a byte order mark; UTF-8 only when `bom` is set.
+	 * Characters that ANSEL or ASCII cannot represent are transliterated or replaced with `?`.
+	 */
+	static encode(text: string, encoding: GedcomCharset, bom = false): Buffer {
+		switch (encoding) {
+			case 'UTF-16LE':
+				return Buffer.concat([Buffer.from([0xFF, 0xFE]), Buffer.from(text, 'utf16le')]);
+			case 'UTF-16BE':
+				return Buffer.concat([Buffer.from([0xFE, 0xFF]), Buffer.from(text, 'utf16le').swap16()]);
+			case 'ANSEL':
+				return GedcomEncoding.encodeAnsel(text);
+			case 'ASCII':
+				return Buffer.from(GedcomEncoding.toAscii(text), 'latin1');
+			default: {
+				const body = Buffer.from(text, 'utf8');
+				return bom ? Buffer.concat([Buffer.from([0xEF, 0xBB, 0xBF]), body]) : body;
+			}
+		}
+	}
+
+	/**
+	 * Returns the upper-cased value of the `1 CHAR` line in the header, if any.
+	 */
+	private static sniffCharTag(buffer: Buffer): string | undefined {
+		const head = buffer.subarray(0, 4096).toString('latin1');
+		const headEnd = head.search(/[\r\n]+\s*0\s+(?!HEAD)/);
+		const header = headEnd >= 0 ? head.slice(0, headEnd) : head;
+		const match = header.match(/^\s*1\s+CHAR\s+([^\r\n]+)$/m);
+		return match ? match[1].trim().toUpperCase() : undefined;
+	}
+
+	private static decodeUtf8OrLegacy(buffer: Buffer): DecodedGedcom {
+		if (GedcomEncoding.isUtf8(buffer)) {
+			return { text: buffer.toString('utf8'), encoding: 'UTF-8' };
+		}
+		return { text: new TextDecoder('windows-1252').decode(buffer), encoding: 'CP1252' };
+	}
+
+	private static decodeUtf16be(buffer: Buffer): string {
+		const swapped = Buffer.from(buffer.subarray(0, buffer.length - (buffer.length % 2)));
+		swapped.swap16();
+		return swapped.toString('utf16le');
+	}
+
+	private static decodeAnsel(buffer: Buffer): string {
+		let text = '';
+		let pendingMarks = '';
+
+		for (const byte of buffer) {
+			if (ANSEL_COMBINING[byte]) {
+				pendingMarks += ANSEL_COMBINING[byte];
+				continue;
+			}
+
+			let char: string;
+			if (byte < 0x80) {
+				char = String.fromCharCode(byte);
+			} else if (ANSEL_SPACING[byte]) {
+				char = ANSEL_SPACING[byte];
+			} else {
+				char = '\uFFFD';
+			}
+
+			// Unicode combining marks follow their base character; line breaks never take marks
+			if (pendingMarks && (char === '\r' || char === '\n')) {
+				text += pendingMarks + char;
+			} else {
+				text += char + pendingMarks;
+			}
+			pendingMarks = '';
+		}
+
+		return (text + pendingMarks).normalize('NFC');
+	}
+
+	private static encodeAnsel(text: string): Buffer {
+		const bytes: number[] = [];
+		let marks: number[] = [];
+		let base: number[] = [];
+
+		const flush = () => {
+			bytes.push(...marks, ...base);
+			marks = [];
+			base = [];
+		};
+
+		for (const char of text.normalize('NFD')) {
+			const mark = ANSEL_COMBINING_BYTES.get(char);
+			if (mark !== undefined && base.length > 0) {
+				// ANSEL writes diacritics before the letter they modify
+				marks.push(mark);
+				continue;
+			}
+
+			flush();
+			const code = char.charCodeAt(0);
+			if (code < 0x80) {
+				base = [code];
+			} else if (ANSEL_SPACING_BYTES.has(char)) {
+				base = [ANSEL_SPACING_BYTES.get(char)!];
+			} else {
+				base = [0x3F];
+			}
+		}
+		flush();
+
+		return Buffer.from(bytes);
+	}
+
+	private static toAscii(text: string): string {
+		let ascii = '';
+		for (const char of text.normalize('NFD')) {
+			if (char.charCodeAt(0) < 0x80) {
+				ascii += char;
+			} else if (/\p{M}/u.test(char)) {
+				continue;
+			} else {
+				ascii += ASCII_TRANSLITERATIONS[char] || '?';
+			}
+		}
+		return ascii;
+	}
+
+	private static decodeCodePage(buffer: Buffer, highTable: string): string {
+		let text = '';
+		for (const byte of buffer) {
+			text += byte < 0x80 ? String.fromCharCode(byte) : highTable[byte - 0x80];
+		}
+		return text;
+	}
+
+	private static isAscii(buffer: Buffer): boolean {
+		for (const byte of buffer) {
+			if (byte >= 0x80) return false;
+		}
+		return true;
+	}
+
+	private static isUtf8(buffer: Buffer): boolean {
+		try {
+			new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+			return true;
+		} catch {
+			return false;
+		}
+	}
+}
@@ -1,18 +1,114 @@
-import { ParseResult, ParsedPerson, ParsedFamily, PersonFilter, FamilyFilter } from './gedcom-types';
+import { ParseResult, ParsedPerson, ParsedFamily, ParsedEvent, ParsedSource, ParsedCitation, PersonFilter, FamilyFilter, SourceFilter, CitingFact, NoteFilter, NoteMatch } from './gedcom-types';
+import { GedcomDateParser } from './gedcom-date-parser';
+
+// ABT, CAL and EST dates are treated as this many years either side of the stated date
+const APPROXIMATE_DATE_YEARS = 5;
+// Longest lifespan assumed when a person has only one of their birth and death dates
+const MAX_LIFESPAN_YEARS = 110;
+
+type DateRange = { min: number; max: number };
 
 export class GedcomFinder {
+	/**
+	 * Returns the names of date filters whose value is not a readable GEDCOM date.
+	 */
+	static invalidDateFilters(filter: PersonFilter): string[] {
+		const dateFilters: Array<keyof PersonFilter> = ['bornFrom', 'bornTo', 'diedBefore', 'diedAfter'];
+		return dateFilters.filter(key => {
+			const value = filter[key];
+			return typeof value === 'string' && value.trim() !== '' && !GedcomFinder.dateRange(value);
+		});
+	}
+
 	static findIndividuals(data: ParseResult, filter: PersonFilter): ParsedPerson[] {
 		return data.persons.filter(person => {
 			if (filter.id && !person.id.includes(filter.id)) return false;
 			if (filter.name && !person.name.toLowerCase().includes(filter.name.toLowerCase())) return false;
-			if (filter.birthDate && !person.birthDate.includes(filter.birthDate)) return false;
-			if (filter.deathDate && !person.deathDate.includes(filter.deathDate)) return false;
+			if (filter.birthDate && !GedcomDateParser.matches(person.birthDate, filter.birthDate)) return false;
+			if (filter.deathDate && !GedcomDateParser.matches(person.deathDate, filter.deathDate)) return false;
 			if (filter.fams && !person.fams.some(id => id.includes(filter.fams!))) return false;
 			if (filter.famc && !person.famc.some(id => id.includes(filter.famc!))) return false;
+			if (!GedcomFinder.matchesLifeFilters(person, filter)) return false;
 			return true;
 		});
 	}
 
+	/**
+	 * Applies the range, age and alive-in-year filters. In `possible` mode a person matches when their
+	 * dates could satisfy the filter; in `certain` mode every reading of their dates must satisfy it.
+	 */
+	private static matchesLifeFilters(person: ParsedPerson, filter: PersonFilter): boolean {
+		const certain = filter.dateMatching === 'certain';
+		const birth = GedcomFinder.dateRange(person.birthDate);
+		const death = GedcomFinder.dateRange(person.deathDate);
+
+		if (filter.deathRecord && filter.deathRecord !== 'any') {
+			const hasDeath = !!person.deathDate || (person.events || []).some(event => event.type === 'DEAT');
+			if (hasDeath !== (filter.deathRecord === 'present')) return false;
+		}
+
+		if (filter.bornFrom || filter.bornTo) {
+			const from = filter.bornFrom ? GedcomFinder.dateRange(filter.bornFrom) : undefined;
+			const to = filter.bornTo ? GedcomFinder.dateRange(filter.bornTo) : undefined;
+			const lower = from ? from.min : Number.NEGATIVE_INFINITY;
+			const upper = to ? to.max : Number.POSITIVE_INFINITY;
+
+			if (!birth) return false;
+			if (certain ? birth.min < lower || birth.max > upper : birth.max < lower || birth.min > upper) return false;
+		}
+
+		if (filter.diedBefore) {
+			const limit = GedcomFinder.dateRange(filter.diedBefore);
+			if (!death || !limit) return false;
+			if ((certain ? death.max : death.min) >= limit.min) return false;
+		}
+
+		if (filter.diedAfter) {
+			const limit = GedcomFinder.dateRange(filter.diedAfter);
+			if (!death || !limit) return false;
+			if ((certain ? death.min : death.max) <= limit.max) return false;
+		}
+
+		if (GedcomFinder.isSet(filter.minAgeAtDeath) || GedcomFinder.isSet(filter.maxAgeAtDeath)) {
+			if (!birth || !death) return false;
+
+			const youngest = GedcomFinder.yearsBetween(birth.max, death.min);
+			const oldest = GedcomFinder.yearsBetween(birth.min, death.max);
+			const minAge = GedcomFinder.isSet(filter.minAgeAtDeath) ? Number(filter.minAgeAtDeath) : Number.NEGATIVE_INFINITY;
+			const maxAge = GedcomFinder.isSet(filter.maxAgeAtDeath) ? Number(filter.maxAgeAtDeath) : Number.POSITIVE_INFINITY;
+
+			if (certain ? youngest < minAge || oldest > maxAge : oldest < minAge || youngest > maxAge) return false;
+		}
+
+		if (GedcomFinder.isSet(filter.aliveInYear)) {
+			if (!birth && !death) return false;
+
+			const year = Number(filter.aliveInYear);
+			const yearStart = year * 10000 + 101;
+			const yearEnd = year * 10000 + 1231;
+			const lifespan = MAX_LIFESPAN_YEARS * 10000;
+			const lifeStart = birth || { min: death!.min - lifespan, max: death!.max };
+			const lifeEnd = death || { min: birth!.min, max: birth!.max + lifespan };
+
+			if (certain ? lifeStart.max > yearStart || lifeEnd.min < yearEnd : lifeStart.min > yearEnd || lifeEnd.max < yearStart) return false;
+		}
+
+		return true;
+	}
+
+	private static dateRange(value: string): DateRange | undefined {
+		if (!value) return undefined;
+		return GedcomDateParser.toRange(GedcomDateParser.parse(value), APPROXIMATE_DATE_YEARS);
+	}
+
+	private static yearsBetween(from: number, to: number): number {
+		return Math.floor((to - from) / 10000);
+	}
+
+	private static isSet(value: number | undefined): boolean {
+		return value !== undefined && value !== null && !Number.isNaN(Number(value));
+	}
+
 	static findFamilies(data: ParseResult, filter: FamilyFilter): ParsedFamily[] {
 		return data.families.filter(family => {
 			if (filter.id && !family.id.includes(filter.id)) return false;
@@ -23,6 +119,125 @@ export class GedcomFinder {
 		});
 	}
 
+	/**
+	 * Finds the sources matching the filter and every person, family and event that cites one of them.
+	 * Citations of sources missing from the data can still be found by ID.
+	 */
+	static findSources(data: ParseResult, filter: SourceFilter): { sources: ParsedSource[]; facts: CitingFact[] } {
+		const sourcesById = new Map((data.sources || []).map(source => [source.id, source]));
+		const matches = (sourceId: string) => GedcomFinder.matchesSource(sourceId, sourcesById.get(sourceId), filter);
+		const facts: CitingFact[] = [];
+
+		const collect = (recordType: CitingFact['recordType'], recordId: string, citations: ParsedCitation[] | undefined, event?: ParsedEvent) => {
+			for (const citation of citations || []) {
+				if (!matches(citation.source)) continue;
+				const fact: CitingFact = { source: citation.source, recordType, recordId, citation };
+				if (event) {
+					fact.eventType = event.type;
+					if (event.date) fact.date = event.date;
+					if (event.place) fact.place = event.place;
+				}
+				facts.push(fact);
+			}
+		};
+
+		for (const person of data.persons) {
+			collect('person', person.id, person.citations);
+			for (const event of person.events || []) {
+				collect('person', person.id, GedcomFinder.eventCitations(event), event);
+			}
+		}
+
+		for (const family of data.families) {
+			collect('family', family.id, family.citations);
+			for (const event of family.events || []) {
+				collect('family', family.id, GedcomFinder.eventCitations(event), event);
+			}
+		}
+
+		return {
+			sources: (data.sources || []).filter(source => matches(source.id)),
+			facts,
+		};
+	}
+
+	private static matchesSource(sourceId: string, source: ParsedSource | undefined, filter: SourceFilter): boolean {
+		const contains = (value: string | undefined, search: string) => !!value && value.toLowerCase().includes(search.toLowerCase());
+
+		if (filter.id && !sourceId.includes(filter.id)) return false;
+		if (filter.title && !(source && (contains(source.title, filter.title) || contains(source.abbreviation, filter.title)))) return false;
+		if (filter.author && !(source && contains(source.author, filter.author))) return false;
+		if (filter.repository && !(source && source.repositories.some(repository => repository.repository.includes(filter.repository!)))) return false;
+		return true;
+	}
+
+	/**
+	 * Events written before citations were parsed only list their sources.
+	 */
+	private static eventCitations(event: ParsedEvent): ParsedCitation[] {
+		return event.citations || (event.sources || []).map(source => ({ source }));
+	}
+
+	/**
+	 * Full-text search over inline and shared notes. Every word of the search text must appear in the
+	 * note, ignoring case and accents; shared note translations are searched too.
+	 */
+	static findNotes(data: ParseResult, filter: NoteFilter): NoteMatch[] {
+		const words = GedcomFinder.normalizeText(filter.text || '').split(/\s+/).filter(word => word);
+		const sharedNotes = new Map((data.notes || []).map(note => [note.id, note]));
+		const referencedNotes = new Set<string>();
+		const results: NoteMatch[] = [];
+
+		const matchesText = (text: string) => {
+			const normalized = GedcomFinder.normalizeText(text);
+			return words.every(word => normalized.includes(word));
+		};
+
+		const collect = (recordType: NoteMatch['recordType'], recordId: string, notes: string[] | undefined, eventType?: NoteMatch['eventType']) => {
+			for (const note of notes || []) {
+				const shared = sharedNotes.get(note);
+				const texts = shared ? [shared.text, ...(shared.translations || []).map(translation => translation.value)] : [note];
+				if (shared) referencedNotes.add(note);
+				if (!texts.some(matchesText)) continue;
+
+				const match: NoteMatch = { text: shared ? shared.text : note, recordType, recordId };
+				if (shared) match.noteId = shared.id;
+				if (eventType) match.eventType = eventType;
+				results.push(match);
+			}
+		};
+
+		for (const person of data.persons) {
+			collect('person', person.id, person.notes);
+			for (const event of person.events || []) {
+				collect('person', person.id, event.notes, event.type);
+			}
+		}
+
+		for (const family of data.families) {
+			collect('family', family.id, family.notes);
+			for (const event of family.events || []) {
+				collect('family', family.id, event.notes, event.type);
+			}
+		}
+
+		for (const note of sharedNotes.values()) {
+			const texts = [note.text, ...(note.translations || []).map(translation => translation.value)];
+			if (!referencedNotes.has(note.id) && texts.some(matchesText)) {
+				results.push({ text: note.text, noteId: note.id });
+			}
+		}
+
+		return results;
+	}
+
+	/**
+	 * Lowercases text and strips its accents.
+	 */
+	static normalizeText(text: string): string {
+		return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+	}
+
 	static findAll(data: ParseResult, personFilter?: PersonFilter, familyFilter?: FamilyFilter) {
 		const individuals = personFilter ? GedcomFinder.findIndividuals(data, personFilter) : data.persons;
 		const families = familyFilter ? GedcomFinder.findFamilies(data, familyFilter) : data.families;
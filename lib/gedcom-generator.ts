@@ -1,78 +1,578 @@
-import { ParseResult, ParsedPerson, ParsedFamily } from './gedcom-types';
+import { ParseResult, ParsedPerson, ParsedFamily, ParsedEvent, ParsedNote, ParsedTranslation, ParsedCitation, ParsedSource, ParsedRepository, ParsedMedia, GenerateOptions, GedcomCharset, GedcomVersion, GedcomNode } from './gedcom-types';
+import { GedcomNameParser } from './gedcom-name-parser';
+import { GedcomMedia } from './gedcom-media';
+import { GedcomEncoding } from './gedcom-encoding';
+import { GedcomDateParser } from './gedcom-date-parser';
+
+// HEAD.CHAR value for each output encoding
+const CHAR_TAGS: Record<GedcomCharset, string> = {
+	'UTF-8': 'UTF-8',
+	'UTF-16LE': 'UNICODE',
+	'UTF-16BE': 'UNICODE',
+	'ANSEL': 'ANSEL',
+	'ASCII': 'ASCII',
+	'CP1252': 'ANSI',
+	'CP437': 'IBMPC',
+	'CP850': 'IBMPC',
+	'MACINTOSH': 'MACINTOSH',
+};
+
+const DEFAULT_MAX_LINE_LENGTH = 255;
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+interface GenerationContext {
+	version: GedcomVersion;
+	recordIds: Set<string>;
+	noteIds: Set<string>;
+	inlineMedia: Map<string, ParsedMedia>;
+}
 
 export class GedcomGenerator {
-	static generateGedcom(data: ParseResult): string {
+	static generateGedcom(data: ParseResult, options: GenerateOptions = {}): string {
 		const lines: string[] = [];
-		
-		lines.push('0 HEAD');
-		lines.push('1 SOUR n8n-gedcom');
-		lines.push('1 VERS 1.0');
-		lines.push('1 GEDC');
-		lines.push('2 VERS 5.5.1');
-		lines.push('2 FORM LINEAGE-LINKED');
-		lines.push(`1 CHAR ${data.meta.encodingTag}`);
-		lines.push('1 DATE ' + new Date().toISOString().split('T')[0].replace(/-/g, ' '));
+		const version = options.version || '5.5.1';
+		const encoding = options.encoding || 'UTF-8';
+		const notes = data.notes || [];
+		const sources = data.sources || [];
+		const repositories = data.repositories || [];
+		const media = data.media || [];
+		const mediaRecords = media.filter(item => !item.inline);
+		const context: GenerationContext = {
+			version,
+			recordIds: new Set([
+				...data.persons.map(person => person.id),
+				...data.families.map(family => family.id),
+				...sources.map(source => source.id),
+				...repositories.map(repository => repository.id),
+				...mediaRecords.map(item => item.id),
+			]),
+			noteIds: new Set(notes.map(note => note.id)),
+			inlineMedia: new Map(media.filter(item => item.inline).map(item => [item.id, item])),
+		};
+
+		lines.push(...GedcomGenerator.generateHeader(data, version, encoding));
 		
 		for (const person of data.persons) {
-			lines.push(...GedcomGenerator.generateIndividual(person));
+			lines.push(...GedcomGenerator.generateIndividual(person, context));
 		}
 		
 		for (const family of data.families) {
-			lines.push(...GedcomGenerator.generateFamily(family));
+			lines.push(...GedcomGenerator.generateFamily(family, context));
+		}
+
+		for (const note of notes) {
+			lines.push(...GedcomGenerator.generateSharedNote(note, context));
+		}
+
+		for (const source of sources) {
+			lines.push(...GedcomGenerator.generateSource(source, context));
+		}
+
+		for (const repository of repositories) {
+			lines.push(...GedcomGenerator.generateRepository(repository));
+		}
+
+		for (const item of mediaRecords) {
+			lines.push(...GedcomGenerator.generateMedia(item, 0, context));
 		}
+
+		lines.push(...GedcomGenerator.generateNodes(data.records, 0));
 		
 		lines.push('0 TRLR');
-		
-		return lines.join('\n');
+
+		// GEDCOM 7.0 has no line length limit and no CONC
+		const maxLineLength = version === '7.0'
+			? 0
+			: options.maxLineLength === undefined ? DEFAULT_MAX_LINE_LENGTH : options.maxLineLength;
+		const wrappedLines = maxLineLength > 0
+			? lines.flatMap(line => GedcomGenerator.wrapLine(line, maxLineLength))
+			: lines;
+
+		return wrappedLines.join(options.lineEnding === 'CRLF' ? '\r\n' : '\n');
+	}
+
+	/**
+	 * Generates the GEDCOM file as bytes in the requested encoding.
+	 */
+	static generateGedcomBuffer(data: ParseResult, options: GenerateOptions = {}): Buffer {
+		const content = GedcomGenerator.generateGedcom(data, options);
+		return GedcomEncoding.encode(content, options.encoding || 'UTF-8', options.bom);
+	}
+
+	/**
+	 * Splits a line longer than `maxLength` characters into CONC continuation lines.
+	 * Splits never happen next to a space, since many readers trim line values.
+	 */
+	private static wrapLine(line: string, maxLength: number): string[] {
+		const chars = Array.from(line);
+		if (chars.length <= maxLength) {
+			return [line];
+		}
+
+		const match = line.match(/^(\d+) ((?:@[^@]+@ )?\S+)( (.*))?$/);
+		if (!match || match[4] === undefined || match[4].startsWith('@')) {
+			return [line];
+		}
+
+		// Continuations of a CONT or CONC line stay at that line's level
+		const level = parseInt(match[1], 10);
+		const continuationLevel = match[2] === 'CONT' || match[2] === 'CONC' ? level : level + 1;
+		const continuationPrefix = `${continuationLevel} CONC `;
+		const lines: string[] = [];
+		let prefix = `${match[1]} ${match[2]} `;
+		let remaining = Array.from(match[4]);
+
+		while (remaining.length > 0) {
+			const room = Math.max(maxLength - Array.from(prefix).length, 1);
+			let cut = Math.min(room, remaining.length);
+
+			if (cut < remaining.length) {
+				while (cut > 1 && (remaining[cut - 1] === ' ' || remaining[cut] === ' ')) {
+					cut--;
+				}
+			}
+
+			lines.push(prefix + remaining.slice(0, cut).join(''));
+			remaining = remaining.slice(cut);
+			prefix = continuationPrefix;
+		}
+
+		return lines;
 	}
 
-	private static generateIndividual(person: ParsedPerson): string[] {
+	private static generateHeader(data: ParseResult, version: GedcomVersion, encoding: GedcomCharset): string[] {
+		const lines: string[] = ['0 HEAD'];
+		const today = new Date();
+		const date = `${today.getUTCDate()} ${MONTHS[today.getUTCMonth()]} ${today.getUTCFullYear()}`;
+
+		if (version === '7.0') {
+			lines.push('1 GEDC');
+			lines.push('2 VERS 7.0');
+
+			const schema = data.meta.schema || {};
+			if (Object.keys(schema).length > 0) {
+				lines.push('1 SCHMA');
+				for (const [tag, uri] of Object.entries(schema)) {
+					lines.push(`2 TAG ${tag} ${uri}`);
+				}
+			}
+
+			lines.push('1 SOUR n8n-gedcom');
+			lines.push('2 VERS 1.0');
+			lines.push(`1 DATE ${date}`);
+		} else {
+			lines.push('1 SOUR n8n-gedcom');
+			lines.push('2 VERS 1.0');
+			lines.push('1 GEDC');
+			lines.push('2 VERS 5.5.1');
+			lines.push('2 FORM LINEAGE-LINKED');
+			lines.push(`1 CHAR ${CHAR_TAGS[encoding]}`);
+			lines.push(`1 DATE ${date}`);
+		}
+
+		lines.push(...GedcomGenerator.generateNodes(data.meta.headerExtensions, 1));
+
+		return lines;
+	}
+
+	private static generateIndividual(person: ParsedPerson, context: GenerationContext): string[] {
 		const lines: string[] = [];
 		
 		lines.push(`0 ${person.id} INDI`);
 		
 		if (person.name) {
-			lines.push(`1 NAME ${person.name}`);
+			lines.push(`1 NAME ${GedcomGenerator.nameValue(person)}`);
+			lines.push(...GedcomGenerator.generateNodes(person.nameDetails, 2));
+			lines.push(...GedcomGenerator.generateTranslations(person.nameTranslations, 2, context));
+		}
+
+		if (person.sex) {
+			lines.push(`1 SEX ${person.sex}`);
 		}
 		
-		if (person.birthDate) {
+		const events = person.events || [];
+
+		if (person.birthDate && !events.some(event => event.type === 'BIRT')) {
 			lines.push('1 BIRT');
-			lines.push(`2 DATE ${person.birthDate}`);
+			lines.push(...GedcomGenerator.generateDate(person.birthDate, undefined, 2, context));
 		}
-		
-		if (person.deathDate) {
+
+		if (person.deathDate && !events.some(event => event.type === 'DEAT')) {
 			lines.push('1 DEAT');
-			lines.push(`2 DATE ${person.deathDate}`);
+			lines.push(...GedcomGenerator.generateDate(person.deathDate, undefined, 2, context));
+		}
+
+		for (const event of events) {
+			lines.push(...GedcomGenerator.generateEvent(event, 1, context));
 		}
 		
 		for (const famcId of person.famc) {
-			lines.push(`1 FAMC ${famcId}`);
+			lines.push(`1 FAMC ${GedcomGenerator.recordPointer(famcId, context)}`);
+			if (person.famcDetails) {
+				lines.push(...GedcomGenerator.generateNodes(person.famcDetails[famcId], 2));
+			}
 		}
 		
 		for (const famsId of person.fams) {
-			lines.push(`1 FAMS ${famsId}`);
+			lines.push(`1 FAMS ${GedcomGenerator.recordPointer(famsId, context)}`);
+			if (person.famsDetails) {
+				lines.push(...GedcomGenerator.generateNodes(person.famsDetails[famsId], 2));
+			}
 		}
+
+		lines.push(...GedcomGenerator.generateMediaLinks(person.media, person.mediaDetails, context));
+
+		lines.push(...GedcomGenerator.generateNotes(person, 1, context));
+
+		for (const citation of person.citations || []) {
+			lines.push(...GedcomGenerator.generateCitation(citation, 1, context));
+		}
+
+		lines.push(...GedcomGenerator.generateNodes(person.extensions, 1));
 		
 		return lines;
 	}
 
-	private static generateFamily(family: ParsedFamily): string[] {
+	private static generateFamily(family: ParsedFamily, context: GenerationContext): string[] {
 		const lines: string[] = [];
 		
 		lines.push(`0 ${family.id} FAM`);
 		
+		const spouseDetails = family.spouseDetails || {};
 		if (family.husband) {
-			lines.push(`1 HUSB ${family.husband}`);
+			lines.push(`1 HUSB ${GedcomGenerator.recordPointer(family.husband, context)}`);
+			lines.push(...GedcomGenerator.generateNodes(spouseDetails[family.husband], 2));
 		}
 		
 		if (family.wife) {
-			lines.push(`1 WIFE ${family.wife}`);
+			lines.push(`1 WIFE ${GedcomGenerator.recordPointer(family.wife, context)}`);
+			lines.push(...GedcomGenerator.generateNodes(spouseDetails[family.wife], 2));
 		}
 		
 		for (const childId of family.children) {
-			lines.push(`1 CHIL ${childId}`);
+			lines.push(`1 CHIL ${GedcomGenerator.recordPointer(childId, context)}`);
+			if (family.childDetails) {
+				lines.push(...GedcomGenerator.generateNodes(family.childDetails[childId], 2));
+			}
+		}
+
+		for (const event of family.events || []) {
+			lines.push(...GedcomGenerator.generateEvent(event, 1, context));
+		}
+
+		lines.push(...GedcomGenerator.generateMediaLinks(family.media, family.mediaDetails, context));
+
+		lines.push(...GedcomGenerator.generateNotes(family, 1, context));
+
+		for (const citation of family.citations || []) {
+			lines.push(...GedcomGenerator.generateCitation(citation, 1, context));
 		}
+
+		lines.push(...GedcomGenerator.generateNodes(family.extensions, 1));
 		
 		return lines;
 	}
+
+	private static generateSharedNote(note: ParsedNote, context: GenerationContext): string[] {
+		const tag = context.version === '7.0' ? 'SNOTE' : 'NOTE';
+		return [
+			...GedcomGenerator.generateLine(0, `${note.id} ${tag}`, GedcomGenerator.escapeNoteText(note.text, context)),
+			...GedcomGenerator.generateTranslations(note.translations, 1, context),
+			...GedcomGenerator.generateNodes(note.extensions, 1),
+		];
+	}
+
+	private static generateSource(source: ParsedSource, context: GenerationContext): string[] {
+		const lines: string[] = [`0 ${source.id} SOUR`];
+
+		if (source.title !== undefined) lines.push(...GedcomGenerator.generateLine(1, 'TITL', source.title));
+		if (source.author !== undefined) lines.push(...GedcomGenerator.generateLine(1, 'AUTH', source.author));
+		if (source.publication !== undefined) lines.push(...GedcomGenerator.generateLine(1, 'PUBL', source.publication));
+		if (source.abbreviation !== undefined) lines.push(...GedcomGenerator.generateLine(1, 'ABBR', source.abbreviation));
+		if (source.text !== undefined) lines.push(...GedcomGenerator.generateLine(1, 'TEXT', source.text));
+
+		for (const repository of source.repositories || []) {
+			const isPointer = /^@[^@]+@$/.test(repository.repository);
+			lines.push(isPointer
+				? `1 REPO ${GedcomGenerator.recordPointer(repository.repository, context)}`
+				: `1 REPO ${context.version === '7.0' ? '@VOID@' : repository.repository}`);
+			for (const callNumber of repository.callNumbers || []) {
+				lines.push(`2 CALN ${callNumber}`);
+			}
+			lines.push(...GedcomGenerator.generateNodes(repository.extensions, 2));
+		}
+
+		lines.push(...GedcomGenerator.generateNodes(source.extensions, 1));
+
+		return lines;
+	}
+
+	private static generateRepository(repository: ParsedRepository): string[] {
+		const lines: string[] = [`0 ${repository.id} REPO`];
+
+		if (repository.name) lines.push(`1 NAME ${repository.name}`);
+		if (repository.address !== undefined) {
+			lines.push(...GedcomGenerator.generateLine(1, 'ADDR', repository.address));
+			lines.push(...GedcomGenerator.generateNodes(repository.addressDetails, 2));
+		}
+
+		lines.push(...GedcomGenerator.generateNodes(repository.extensions, 1));
+
+		return lines;
+	}
+
+	/**
+	 * Writes OBJE links, embedding inline media where they were found.
+	 */
+	private static generateMediaLinks(mediaIds: string[] | undefined, details: Record<string, GedcomNode[]> | undefined, context: GenerationContext): string[] {
+		const lines: string[] = [];
+
+		for (const mediaId of mediaIds || []) {
+			const inline = context.inlineMedia.get(mediaId);
+			lines.push(...(inline
+				? GedcomGenerator.generateMedia(inline, 1, context)
+				: [`1 OBJE ${GedcomGenerator.recordPointer(mediaId, context)}`]));
+			if (details) lines.push(...GedcomGenerator.generateNodes(details[mediaId], 2));
+		}
+
+		return lines;
+	}
+
+	/**
+	 * Writes an OBJE record at level 0, or an embedded OBJE structure at a deeper level.
+	 * FORM values are converted between 5.5.1 file extensions and 7.0 media types.
+	 */
+	private static generateMedia(media: ParsedMedia, level: number, context: GenerationContext): string[] {
+		const lines: string[] = [level === 0 ? `0 ${media.id} OBJE` : `${level} OBJE`];
+
+		for (const file of media.files || []) {
+			lines.push(`${level + 1} FILE ${file.path}`);
+			if (file.format) {
+				lines.push(`${level + 2} FORM ${GedcomMedia.formForVersion(file.format, context.version)}`);
+				if (file.mediaType) {
+					lines.push(context.version === '7.0'
+						? `${level + 3} MEDI ${file.mediaType.toUpperCase()}`
+						: `${level + 3} TYPE ${file.mediaType}`);
+				}
+			}
+			if (file.title !== undefined) lines.push(...GedcomGenerator.generateLine(level + 2, 'TITL', file.title));
+			lines.push(...GedcomGenerator.generateNodes(file.extensions, level + 2));
+		}
+
+		if (media.title !== undefined) lines.push(...GedcomGenerator.generateLine(level + 1, 'TITL', media.title));
+
+		lines.push(...GedcomGenerator.generateNotes(media, level + 1, context));
+
+		for (const citation of media.citations || []) {
+			lines.push(...GedcomGenerator.generateCitation(citation, level + 1, context));
+		}
+
+		lines.push(...GedcomGenerator.generateNodes(media.extensions, level + 1));
+
+		return lines;
+	}
+
+	/**
+	 * GEDCOM 7.0 only allows pointer citations, so 5.5.1 source text moves to DATA.TEXT under `@VOID@`.
+	 */
+	private static generateCitation(citation: ParsedCitation, level: number, context: GenerationContext): string[] {
+		const lines: string[] = [];
+		const isPointer = /^@[^@]+@$/.test(citation.source);
+		const text = citation.text ? [...citation.text] : [];
+
+		if (isPointer) {
+			lines.push(`${level} SOUR ${GedcomGenerator.recordPointer(citation.source, context)}`);
+		} else if (context.version === '7.0') {
+			lines.push(`${level} SOUR @VOID@`);
+			if (citation.source) text.unshift(citation.source);
+		} else {
+			lines.push(...GedcomGenerator.generateLine(level, 'SOUR', citation.source));
+		}
+
+		if (citation.page !== undefined) {
+			lines.push(...GedcomGenerator.generateLine(level + 1, 'PAGE', citation.page));
+		}
+
+		if (citation.date !== undefined || text.length > 0) {
+			lines.push(`${level + 1} DATA`);
+			if (citation.date !== undefined) {
+				lines.push(...GedcomGenerator.generateDate(citation.date, undefined, level + 2, context));
+			}
+			for (const value of text) {
+				lines.push(...GedcomGenerator.generateLine(level + 2, 'TEXT', value));
+			}
+		}
+
+		if (citation.quality !== undefined) {
+			lines.push(`${level + 1} QUAY ${citation.quality}`);
+		}
+
+		lines.push(...GedcomGenerator.generateNotes(citation, level + 1, context));
+
+		lines.push(...GedcomGenerator.generateNodes(citation.extensions, level + 1));
+
+		return lines;
+	}
+
+	/**
+	 * Keeps the original NAME value (with its /surname/ delimiters) unless the name was edited.
+	 */
+	private static nameValue(person: ParsedPerson): string {
+		if (person.rawName && GedcomNameParser.parseName(person.rawName).fullName === person.name) {
+			return person.rawName;
+		}
+
+		if (person.lastName && [person.firstName, person.lastName].filter(part => part).join(' ') === person.name) {
+			return person.firstName ? `${person.firstName} /${person.lastName}/` : `/${person.lastName}/`;
+		}
+
+		return person.name;
+	}
+
+	/**
+	 * Writes raw tag trees back in their original order.
+	 */
+	private static generateNodes(nodes: GedcomNode[] | undefined, level: number): string[] {
+		const lines: string[] = [];
+
+		for (const node of nodes || []) {
+			const tag = node.xref ? `${node.xref} ${node.tag}` : node.tag;
+			if (node.pointer) {
+				lines.push(`${level} ${tag} ${node.pointer}`);
+			} else {
+				lines.push(...GedcomGenerator.generateLine(level, tag, node.value));
+			}
+			lines.push(...GedcomGenerator.generateNodes(node.children, level + 1));
+		}
+
+		return lines;
+	}
+
+	/**
+	 * Writes TRAN substructures, which only exist in GEDCOM 7.0.
+	 */
+	private static generateTranslations(translations: ParsedTranslation[] | undefined, level: number, context: GenerationContext): string[] {
+		if (context.version !== '7.0' || !translations) return [];
+
+		const lines: string[] = [];
+		for (const translation of translations) {
+			lines.push(...GedcomGenerator.generateLine(level, 'TRAN', translation.value));
+			if (translation.lang) lines.push(`${level + 1} LANG ${translation.lang}`);
+			if (translation.mime) lines.push(`${level + 1} MIME ${translation.mime}`);
+		}
+		return lines;
+	}
+
+	private static generateDate(date: string, phrase: string | undefined, level: number, context: GenerationContext): string[] {
+		if (context.version === '7.0') {
+			const converted = GedcomDateParser.toGedcom7(date);
+			const datePhrase = converted.phrase || phrase;
+			const lines = [converted.date ? `${level} DATE ${converted.date}` : `${level} DATE`];
+			if (datePhrase) lines.push(`${level + 1} PHRASE ${datePhrase}`);
+			return lines;
+		}
+
+		const converted = GedcomDateParser.toGedcom551(date, phrase);
+		return converted ? [`${level} DATE ${converted}`] : [];
+	}
+
+	/**
+	 * GEDCOM 7.0 requires pointers to resolve, so links to missing records become `@VOID@`.
+	 */
+	private static recordPointer(id: string, context: GenerationContext): string {
+		if (context.version === '7.0' && !context.recordIds.has(id)) return '@VOID@';
+		return id;
+	}
+
+	/**
+	 * Writes the notes of a record, each followed by its substructures from `noteDetails`.
+	 */
+	private static generateNotes(target: { notes?: string[]; noteDetails?: GedcomNode[][] }, level: number, context: GenerationContext): string[] {
+		return (target.notes || []).flatMap((note, index) => GedcomGenerator.generateNote(note, target.noteDetails ? target.noteDetails[index] : undefined, level, context));
+	}
+
+	private static generateNote(note: string, details: GedcomNode[] | undefined, level: number, context: GenerationContext): string[] {
+		const isPointer = /^@[^@]+@$/.test(note);
+		const substructures = GedcomGenerator.generateNodes(details, level + 1);
+
+		if (context.version === '7.0' && isPointer) {
+			return [`${level} SNOTE ${context.noteIds.has(note) ? note : '@VOID@'}`, ...substructures];
+		}
+
+		if (isPointer) {
+			return [`${level} NOTE ${note}`, ...substructures];
+		}
+
+		return [...GedcomGenerator.generateLine(level, 'NOTE', GedcomGenerator.escapeNoteText(note, context)), ...substructures];
+	}
+
+	/**
+	 * GEDCOM 5.5.1 doubles every `@` in text; 7.0 only one starting a line.
+	 */
+	private static escapeNoteText(text: string, context: GenerationContext): string {
+		return context.version === '7.0' ? text.replace(/^@/gm, '@@') : text.replace(/@/g, '@@');
+	}
+
+	private static generateEvent(event: ParsedEvent, level: number, context: GenerationContext): string[] {
+		const lines: string[] = [];
+
+		lines.push(...GedcomGenerator.generateLine(level, event.type, event.value));
+
+		if (event.eventType) {
+			lines.push(`${level + 1} TYPE ${event.eventType}`);
+		}
+
+		const phrase = event.parsedDate ? event.parsedDate.phrase : undefined;
+		if (event.date || phrase) {
+			lines.push(...GedcomGenerator.generateDate(event.date, phrase, level + 1, context));
+		}
+
+		if (event.place) {
+			lines.push(`${level + 1} PLAC ${event.place}`);
+			lines.push(...GedcomGenerator.generateNodes(event.placeDetails, level + 2));
+		}
+
+		if (event.age) {
+			lines.push(`${level + 1} AGE ${event.age}`);
+		}
+
+		if (event.cause) {
+			lines.push(`${level + 1} CAUS ${event.cause}`);
+		}
+
+		lines.push(...GedcomGenerator.generateNotes(event, level + 1, context));
+
+		// Full citations take precedence over the plain list of cited sources
+		if (event.citations) {
+			for (const citation of event.citations) {
+				lines.push(...GedcomGenerator.generateCitation(citation, level + 1, context));
+			}
+		} else {
+			for (const source of event.sources || []) {
+				lines.push(...GedcomGenerator.generateCitation({ source }, level + 1, context));
+			}
+		}
+
+		lines.push(...GedcomGenerator.generateNodes(event.extensions, level + 1));
+
+		return lines;
+	}
+
+	/**
+	 * Writes a tag and its value, moving embedded line breaks to CONT lines.
+	 */
+	private static generateLine(level: number, tag: string, value?: string): string[] {
+		if (!value) {
+			return [`${level} ${tag}`];
+		}
+
+		const [first, ...rest] = value.split(/\r\n|\r|\n/);
+		const lines = [first ? `${level} ${tag} ${first}` : `${level} ${tag}`];
+		for (const continuation of rest) {
+			lines.push(continuation ? `${level + 1} CONT ${continuation}` : `${level + 1} CONT`);
+		}
+
+		return lines;
+	}
 }
\ No newline at end of file
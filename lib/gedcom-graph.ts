@@ -0,0 +1,316 @@
+import { ParseResult, AncestryResult, GraphModel, GraphPerson, GraphUnion, GraphLabelField } from './gedcom-types';
+import { GedcomDateParser } from './gedcom-date-parser';
+
+export const SEX_COLORS: Record<string, { fill: string; stroke: string }> = {
+	M: { fill: '#dbe9f6', stroke: '#4a7ab0' },
+	F: { fill: '#f9dde6', stroke: '#b0486a' },
+	U: { fill: '#f2f2f2', stroke: '#888888' },
+};
+const UNION_COLORS = { fill: '#eeeeee', stroke: '#999999' };
+const MARRIAGE_SYMBOL = '⚭';
+
+type GraphElement = { data: Record<string, string | number> };
+
+export class GedcomGraph {
+	/**
+	 * Graph of a Get Ancestors or Get Descendants result: a union joins the parents each child
+	 * has in `edges`, and persons take the generation of the `generations` they are listed in.
+	 */
+	static fromAncestry(result: AncestryResult): GraphModel {
+		const generationOf = new Map<string, number>();
+		result.generations.forEach((ids, index) => {
+			for (const id of ids) {
+				if (!generationOf.has(id)) generationOf.set(id, index + 1);
+			}
+		});
+
+		const parentsOf = new Map<string, { father?: string; mother?: string }>();
+		for (const edge of result.edges) {
+			const parents = parentsOf.get(edge.child) || {};
+			parents[edge.relation] = edge.parent;
+			parentsOf.set(edge.child, parents);
+		}
+
+		const unions = new Map<string, GraphUnion>();
+		for (const [childId, parents] of parentsOf) {
+			const key = `${parents.father || ''}|${parents.mother || ''}`;
+			if (!unions.has(key)) {
+				unions.set(key, {
+					id: `U${unions.size + 1}`,
+					partners: [parents.father, parents.mother].filter((id): id is string => !!id),
+					children: [],
+				});
+			}
+			(unions.get(key) as GraphUnion).children.push(childId);
+		}
+
+		return {
+			persons: result.nodes.map(node => GedcomGraph.graphPerson(node, generationOf.get(node.id))),
+			unions: Array.from(unions.values()),
+		};
+	}
+
+	/**
+	 * Graph of a whole tree, a union per family. Generations count down from persons without
+	 * parents, and persons who married into the tree join the generation of their spouse.
+	 */
+	static fromParseResult(data: ParseResult): GraphModel {
+		const unions: GraphUnion[] = data.families
+			.map(family => {
+				const union: GraphUnion = {
+					id: family.id,
+					partners: [family.husband, family.wife].filter((id): id is string => !!id),
+					children: [...family.children],
+				};
+				const marriage = family.events.find(event => event.type === 'MARR');
+				if (marriage && marriage.date) union.marriageDate = marriage.date;
+				return union;
+			})
+			.filter(union => union.partners.length + union.children.length > 0);
+
+		const personIds = new Set(data.persons.map(person => person.id));
+		const generation = new Map<string, number>(data.persons.map(person => [person.id, 1]));
+		const hasParents = new Set(unions.filter(union => union.partners.length > 0).flatMap(union => union.children));
+
+		// Each pass moves a generation one link further; ancestor loops stop after one pass per person
+		for (let pass = 0; pass < data.persons.length; pass++) {
+			let changed = false;
+			const raise = (id: string, value: number) => {
+				if (!personIds.has(id) || (generation.get(id) as number) >= value) return;
+				generation.set(id, value);
+				changed = true;
+			};
+
+			for (const union of unions) {
+				const partnerGeneration = Math.max(0, ...union.partners.filter(id => personIds.has(id)).map(id => generation.get(id) as number));
+				for (const childId of union.children) raise(childId, partnerGeneration + 1);
+				for (const partnerId of union.partners.filter(id => !hasParents.has(id))) raise(partnerId, partnerGeneration);
+			}
+
+			if (!changed) break;
+		}
+
+		return {
+			persons: data.persons.map(person => GedcomGraph.graphPerson(person, generation.get(person.id))),
+			unions: unions.map(union => ({
+				...union,
+				partners: union.partners.filter(id => personIds.has(id)),
+				children: union.children.filter(id => personIds.has(id)),
+			})),
+		};
+	}
+
+	static toDot(model: GraphModel, labels: GraphLabelField[], clusterGenerations: boolean): string {
+		const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+		const personLine = (person: GraphPerson) => {
+			const colors = SEX_COLORS[person.sex || 'U'] || SEX_COLORS.U;
+			return `${quote(person.id)} [label=${quote(GedcomGraph.label(person, labels))}, shape=box, style="rounded,filled", fillcolor="${colors.fill}", color="${colors.stroke}"];`;
+		};
+
+		const lines = [
+			'digraph Family {',
+			'\trankdir=TB;',
+			'\tnode [fontname="Helvetica", fontsize=10];',
+			'\tedge [color="#666666"];',
+		];
+
+		const { clusters, others } = GedcomGraph.byGeneration(model.persons, clusterGenerations);
+		for (const [generation, persons] of clusters) {
+			lines.push(`\tsubgraph cluster_generation_${generation} {`);
+			lines.push(`\t\tlabel=${quote(`Generation ${generation}`)};`);
+			lines.push('\t\tstyle=dashed;');
+			lines.push('\t\tcolor="#bbbbbb";');
+			lines.push(...persons.map(person => `\t\t${personLine(person)}`));
+			lines.push('\t}');
+		}
+		lines.push(...others.map(person => `\t${personLine(person)}`));
+
+		for (const union of model.unions) {
+			const label = GedcomGraph.unionLabel(union, labels);
+			lines.push(label
+				? `\t${quote(union.id)} [label=${quote(label)}, shape=ellipse, style=filled, fillcolor="${UNION_COLORS.fill}", color="${UNION_COLORS.stroke}", fontsize=8];`
+				: `\t${quote(union.id)} [label="", shape=point, width=0.12, color="${UNION_COLORS.stroke}"];`);
+			lines.push(...union.partners.map(id => `\t${quote(id)} -> ${quote(union.id)} [dir=none];`));
+			lines.push(...union.children.map(id => `\t${quote(union.id)} -> ${quote(id)};`));
+		}
+
+		lines.push('}');
+		return `${lines.join('\n')}\n`;
+	}
+
+	static toMermaid(model: GraphModel, labels: GraphLabelField[], clusterGenerations: boolean): string {
+		const ids = GedcomGraph.mermaidIds(model);
+		const text = (value: string) => `"${value.replace(/"/g, '#quot;').replace(/\n/g, '<br/>')}"`;
+		const personLine = (person: GraphPerson) => {
+			const sex = person.sex === 'M' ? 'male' : person.sex === 'F' ? 'female' : 'unknown';
+			return `${ids.get(person.id)}[${text(GedcomGraph.label(person, labels))}]:::${sex}`;
+		};
+
+		const lines = ['flowchart TD'];
+		const { clusters, others } = GedcomGraph.byGeneration(model.persons, clusterGenerations);
+		for (const [generation, persons] of clusters) {
+			lines.push(`\tsubgraph generation_${generation} ["Generation ${generation}"]`);
+			lines.push(...persons.map(person => `\t\t${personLine(person)}`));
+			lines.push('\tend');
+		}
+		lines.push(...others.map(person => `\t${personLine(person)}`));
+
+		for (const union of model.unions) {
+			lines.push(`\t${ids.get(union.id)}((${text(GedcomGraph.unionLabel(union, labels) || MARRIAGE_SYMBOL)})):::union`);
+			lines.push(...union.partners.map(id => `\t${ids.get(id)} --- ${ids.get(union.id)}`));
+			lines.push(...union.children.map(id => `\t${ids.get(union.id)} --> ${ids.get(id)}`));
+		}
+
+		lines.push(`\tclassDef male fill:${SEX_COLORS.M.fill},stroke:${SEX_COLORS.M.stroke}`);
+		lines.push(`\tclassDef female fill:${SEX_COLORS.F.fill},stroke:${SEX_COLORS.F.stroke}`);
+		lines.push(`\tclassDef unknown fill:${SEX_COLORS.U.fill},stroke:${SEX_COLORS.U.stroke}`);
+		lines.push(`\tclassDef union fill:${UNION_COLORS.fill},stroke:${UNION_COLORS.stroke}`);
+		return `${lines.join('\n')}\n`;
+	}
+
+	/**
+	 * Cytoscape.js elements. Generations are compound nodes holding their persons.
+	 */
+	static toCytoscape(model: GraphModel, labels: GraphLabelField[], clusterGenerations: boolean): { nodes: GraphElement[]; edges: GraphElement[] } {
+		const { clusters } = GedcomGraph.byGeneration(model.persons, clusterGenerations);
+		const nodes: GraphElement[] = clusters.map(([generation]) => ({
+			data: { id: `generation-${generation}`, label: `Generation ${generation}`, type: 'generation' },
+		}));
+
+		for (const person of model.persons) {
+			const data: Record<string, string | number> = { ...GedcomGraph.personData(person, labels) };
+			if (clusterGenerations && person.generation !== undefined) data.parent = `generation-${person.generation}`;
+			nodes.push({ data });
+		}
+		nodes.push(...model.unions.map(union => ({ data: GedcomGraph.unionData(union, labels) })));
+
+		return {
+			nodes,
+			edges: GedcomGraph.links(model).map(link => ({
+				data: { id: `${link.source}->${link.target}`, ...link },
+			})),
+		};
+	}
+
+	/**
+	 * Nodes and links as D3 force layouts take them.
+	 */
+	static toD3(model: GraphModel, labels: GraphLabelField[]): { nodes: Array<Record<string, string | number>>; links: Array<Record<string, string>> } {
+		return {
+			nodes: [
+				...model.persons.map(person => GedcomGraph.personData(person, labels)),
+				...model.unions.map(union => GedcomGraph.unionData(union, labels)),
+			],
+			links: GedcomGraph.links(model),
+		};
+	}
+
+	/**
+	 * Birth and death years, `c.` for approximate dates: `1850–1920`, `c. 1790–`.
+	 */
+	static lifespan(birthDate: string, deathDate: string): string {
+		const birth = GedcomGraph.year(birthDate);
+		const death = GedcomGraph.year(deathDate);
+		return birth || death ? `${birth}–${death}` : '';
+	}
+
+	private static graphPerson(person: { id: string; name: string; sex?: string; birthDate: string; deathDate: string }, generation: number | undefined): GraphPerson {
+		const graphPerson: GraphPerson = {
+			id: person.id,
+			name: person.name,
+			birthDate: person.birthDate,
+			deathDate: person.deathDate,
+		};
+		if (person.sex) graphPerson.sex = person.sex;
+		if (generation !== undefined) graphPerson.generation = generation;
+		return graphPerson;
+	}
+
+	private static label(person: GraphPerson, labels: GraphLabelField[]): string {
+		const parts: Record<GraphLabelField, string> = {
+			name: person.name,
+			lifespan: GedcomGraph.lifespan(person.birthDate, person.deathDate),
+			id: person.id,
+		};
+		return labels.map(field => parts[field]).filter(part => part).join('\n') || person.id;
+	}
+
+	private static unionLabel(union: GraphUnion, labels: GraphLabelField[]): string {
+		const year = labels.includes('lifespan') && union.marriageDate ? GedcomGraph.year(union.marriageDate) : '';
+		return year ? `${MARRIAGE_SYMBOL} ${year}` : '';
+	}
+
+	private static year(value: string): string {
+		if (!value) return '';
+		const date = GedcomDateParser.parse(value);
+		if (!date.valid || date.sortKey === undefined) return '';
+
+		const year = Math.floor(date.sortKey / 10000);
+		if (date.qualifier === 'about' || date.qualifier === 'calculated' || date.qualifier === 'estimated') return `c. ${year}`;
+		if (date.qualifier === 'before') return `bef. ${year}`;
+		if (date.qualifier === 'after') return `aft. ${year}`;
+		return String(year);
+	}
+
+	private static byGeneration(persons: GraphPerson[], clusterGenerations: boolean): { clusters: Array<[number, GraphPerson[]]>; others: GraphPerson[] } {
+		if (!clusterGenerations) return { clusters: [], others: persons };
+
+		const clusters = new Map<number, GraphPerson[]>();
+		for (const person of persons.filter(candidate => candidate.generation !== undefined)) {
+			clusters.set(person.generation as number, [...(clusters.get(person.generation as number) || []), person]);
+		}
+		return {
+			clusters: Array.from(clusters.entries()).sort(([a], [b]) => a - b),
+			others: persons.filter(person => person.generation === undefined),
+		};
+	}
+
+	/**
+	 * Mermaid node IDs only allow letters, digits and underscores; `end` and friends are avoided by the prefix.
+	 */
+	private static mermaidIds(model: GraphModel): Map<string, string> {
+		const ids = new Map<string, string>();
+		const used = new Set<string>();
+		const add = (id: string, prefix: string) => {
+			const base = `${prefix}_${id.replace(/[^A-Za-z0-9_]/g, '')}`;
+			let candidate = base;
+			for (let suffix = 2; used.has(candidate); suffix++) candidate = `${base}_${suffix}`;
+			used.add(candidate);
+			ids.set(id, candidate);
+		};
+
+		model.persons.forEach(person => add(person.id, 'p'));
+		model.unions.forEach(union => add(union.id, 'u'));
+		return ids;
+	}
+
+	private static personData(person: GraphPerson, labels: GraphLabelField[]): Record<string, string | number> {
+		const data: Record<string, string | number> = {
+			id: person.id,
+			type: 'person',
+			label: GedcomGraph.label(person, labels),
+			name: person.name,
+			sex: person.sex || 'U',
+			lifespan: GedcomGraph.lifespan(person.birthDate, person.deathDate),
+		};
+		if (person.generation !== undefined) data.generation = person.generation;
+		return data;
+	}
+
+	private static unionData(union: GraphUnion, labels: GraphLabelField[]): Record<string, string | number> {
+		const data: Record<string, string | number> = {
+			id: union.id,
+			type: 'union',
+			label: GedcomGraph.unionLabel(union, labels),
+		};
+		if (union.marriageDate) data.marriageDate = union.marriageDate;
+		return data;
+	}
+
+	private static links(model: GraphModel): Array<{ source: string; target: string; type: string }> {
+		return model.unions.flatMap(union => [
+			...union.partners.map(id => ({ source: id, target: union.id, type: 'partner' })),
+			...union.children.map(id => ({ source: union.id, target: id, type: 'child' })),
+		]);
+	}
+}
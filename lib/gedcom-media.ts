@@ -0,0 +1,122 @@
+import { ParseResult, GedcomVersion } from './gedcom-types';
+import { GedcomZip, ZipEntry } from './gedcom-zip';
+
+// Media types for the file extensions used as GEDCOM 5.5.1 FORM values
+const MEDIA_TYPES: Record<string, string> = {
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	png: 'image/png',
+	gif: 'image/gif',
+	bmp: 'image/bmp',
+	tif: 'image/tiff',
+	tiff: 'image/tiff',
+	webp: 'image/webp',
+	pdf: 'application/pdf',
+	mp3: 'audio/mpeg',
+	wav: 'audio/wav',
+	mp4: 'video/mp4',
+	avi: 'video/x-msvideo',
+	txt: 'text/plain',
+	htm: 'text/html',
+	html: 'text/html',
+	ged: 'text/plain',
+};
+
+// GEDCOM 7.0 requires the dataset to be named gedcom.ged at the root of a GEDZIP archive
+const GEDZIP_GEDCOM_NAME = 'gedcom.ged';
+
+export interface GedzipArchive {
+	gedcom: Buffer;
+	files: ZipEntry[];
+}
+
+export class GedcomMedia {
+	/**
+	 * Media type of a file name, extension or FORM value.
+	 */
+	static mimeType(nameOrFormat: string): string {
+		const value = nameOrFormat.toLowerCase();
+		if (value.includes('/') && !value.includes('.')) return value;
+		const extension = value.split('.').pop() || '';
+		return MEDIA_TYPES[extension] || 'application/octet-stream';
+	}
+
+	/**
+	 * Converts a FORM value between 5.5.1 file extensions and 7.0 media types.
+	 */
+	static formForVersion(format: string, version: GedcomVersion): string {
+		const value = format.toLowerCase();
+		if (version === '7.0') {
+			return MEDIA_TYPES[value] || format;
+		}
+		const extension = Object.keys(MEDIA_TYPES).find(key => MEDIA_TYPES[key] === value);
+		return extension || format;
+	}
+
+	static isGedzip(buffer: Buffer): boolean {
+		return GedcomZip.isZip(buffer);
+	}
+
+	/**
+	 * Splits a GEDZIP archive into its GEDCOM file and the other files.
+	 * Plain ZIP files holding a single `.ged` file anywhere are accepted too.
+	 */
+	static readGedzip(buffer: Buffer): GedzipArchive {
+		const entries = GedcomZip.read(buffer);
+		const gedcomFiles = entries.filter(entry => entry.name.toLowerCase().endsWith('.ged'));
+		const gedcom = entries.find(entry => entry.name === GEDZIP_GEDCOM_NAME)
+			|| (gedcomFiles.length === 1 ? gedcomFiles[0] : undefined);
+
+		if (!gedcom) {
+			throw new Error(gedcomFiles.length > 1
+				? `Archive holds several GEDCOM files and no ${GEDZIP_GEDCOM_NAME}`
+				: 'Archive holds no GEDCOM file');
+		}
+
+		return {
+			gedcom: gedcom.data,
+			files: entries.filter(entry => entry !== gedcom),
+		};
+	}
+
+	static writeGedzip(gedcom: Buffer, files: ZipEntry[]): Buffer {
+		return GedcomZip.write([{ name: GEDZIP_GEDCOM_NAME, data: gedcom }, ...files]);
+	}
+
+	/**
+	 * Names a binary property for every archive file and records it on the media files that
+	 * reference it. Files nothing references are returned as well.
+	 */
+	static attachFiles(result: ParseResult, files: ZipEntry[]): Record<string, ZipEntry> {
+		const properties: Record<string, ZipEntry> = {};
+		const propertyByPath = new Map<string, string>();
+
+		files.forEach((file, index) => {
+			const property = `media_${index}`;
+			properties[property] = file;
+			propertyByPath.set(GedcomMedia.normalizePath(file.name), property);
+		});
+
+		for (const media of result.media || []) {
+			for (const file of media.files) {
+				const property = propertyByPath.get(GedcomMedia.normalizePath(file.path));
+				if (property) file.binaryProperty = property;
+			}
+		}
+
+		return properties;
+	}
+
+	/**
+	 * Archive path of a FILE value: relative, with `/` separators and percent-escapes decoded.
+	 */
+	static normalizePath(path: string): string {
+		let normalized = path.trim().replace(/\\/g, '/').replace(/^(\.\/)+/, '').replace(/^\/+/, '');
+		try {
+			normalized = decodeURIComponent(normalized);
+		} catch {
+			// Not percent-encoded
+		}
+		return normalized;
+	}
+}
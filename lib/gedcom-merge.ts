@@ -0,0 +1,400 @@
+import { IExecuteFunctions, NodeOperationError } from 'n8n-workflow';
+import { ParseResult, ParsedPerson, ParsedFamily, ParsedEvent, GedcomNode, MergeRecordType, MergePolicy, MergeResult, TreeMatchKey, MergeTreesResult } from './gedcom-types';
+import { GedcomParser } from './gedcom-parser';
+import { GedcomFinder } from './gedcom-finder';
+
+// Events a person or family normally has once; two that disagree are a conflict for the merge policy
+const SINGLE_EVENTS = new Set(['BIRT', 'CHR', 'BAPM', 'DEAT', 'BURI', 'CREM', 'MARR', 'DIV', 'ENGA']);
+
+export class GedcomMerge {
+	/**
+	 * Merges the second record into the first, which keeps its ID, and rewrites every pointer to the
+	 * second: FAMC, FAMS, HUSB, WIFE, CHIL, and those in extensions and link substructures such as ASSO.
+	 * Families left with the same husband and wife after a person merge are merged in turn.
+	 */
+	static merge(
+		data: ParseResult,
+		type: MergeRecordType,
+		firstId: string,
+		secondId: string,
+		policy: MergePolicy,
+		context: IExecuteFunctions,
+	): MergeResult {
+		const merged = JSON.parse(JSON.stringify(data)) as ParseResult;
+		const keptId = GedcomParser.canonicalizeId(firstId);
+		const removedId = GedcomParser.canonicalizeId(secondId);
+		const records: Array<{ id: string }> = type === 'person' ? merged.persons : merged.families;
+		const label = type === 'person' ? 'Person' : 'Family';
+
+		for (const [id, original] of [[keptId, firstId], [removedId, secondId]]) {
+			if (!records.some(record => record.id === id)) {
+				throw new NodeOperationError(context.getNode(), `${label} with ID '${original}' not found in GEDCOM data`);
+			}
+		}
+		if (keptId === removedId) {
+			throw new NodeOperationError(context.getNode(), `Cannot merge ${type} '${keptId}' with itself`);
+		}
+
+		const result: MergeResult = { data: merged, merges: [] };
+		if (type === 'person') {
+			GedcomMerge.mergePersons(result, keptId, removedId, policy);
+		} else {
+			GedcomMerge.mergeFamilies(result, keptId, removedId, policy);
+		}
+
+		merged.meta.individuals = merged.persons.length;
+		merged.meta.families = merged.families.length;
+		return result;
+	}
+
+	/**
+	 * Combines several trees into the first one. IDs a later tree shares with the trees before it
+	 * get the next free number of their prefix (`@I1@` → `@I58@`), and every pointer is rewritten.
+	 * With a match key, persons found in both trees are then merged, the earlier record kept.
+	 */
+	static mergeTrees(trees: ParseResult[], matchBy: TreeMatchKey): MergeTreesResult {
+		const merged = JSON.parse(JSON.stringify(trees[0])) as ParseResult;
+		const result: MergeTreesResult = { data: merged, merges: [], remappedIds: [] };
+
+		trees.slice(1).forEach((tree, index) => {
+			const usedIds = new Set([...GedcomMerge.recordIds(merged), ...GedcomMerge.recordIds(tree)]);
+			const existingIds = new Set(GedcomMerge.recordIds(merged));
+			const remap = new Map<string, string>();
+
+			for (const id of GedcomMerge.recordIds(tree)) {
+				if (!existingIds.has(id) || remap.has(id)) continue;
+				const newId = GedcomMerge.nextId(id, usedIds);
+				usedIds.add(newId);
+				remap.set(id, newId);
+				result.remappedIds.push({ tree: index + 1, from: id, to: newId });
+			}
+
+			const added = GedcomMerge.remapIds(tree, remap) as ParseResult;
+			const matches = GedcomMerge.matchPersons(merged.persons, added.persons, matchBy);
+
+			merged.persons.push(...added.persons);
+			merged.families.push(...added.families);
+			merged.notes = [...(merged.notes || []), ...(added.notes || [])];
+			merged.sources = [...(merged.sources || []), ...(added.sources || [])];
+			merged.repositories = [...(merged.repositories || []), ...(added.repositories || [])];
+			merged.media = [...(merged.media || []), ...(added.media || [])];
+			merged.records = [...(merged.records || []), ...(added.records || [])];
+
+			for (const [keptId, removedId] of matches) {
+				GedcomMerge.mergePersons(result, keptId, removedId, 'first');
+			}
+		});
+
+		merged.meta.individuals = merged.persons.length;
+		merged.meta.families = merged.families.length;
+		return result;
+	}
+
+	private static recordIds(data: ParseResult): string[] {
+		return [
+			...data.persons.map(person => person.id),
+			...data.families.map(family => family.id),
+			...(data.notes || []).map(note => note.id),
+			...(data.sources || []).map(source => source.id),
+			...(data.repositories || []).map(repository => repository.id),
+			...(data.media || []).map(media => media.id),
+			...(data.records || []).map(record => record.xref).filter((id): id is string => !!id),
+		];
+	}
+
+	/**
+	 * The ID after the highest one with the same prefix, e.g. `@I58@` when `@I57@` is the highest `@I…@`.
+	 */
+	private static nextId(id: string, usedIds: Set<string>): string {
+		const prefix = id.slice(1, -1).replace(/\d+$/, '');
+		let highest = 0;
+		for (const usedId of usedIds) {
+			const match = usedId.slice(1, -1).match(/^(.*?)(\d+)$/);
+			if (match && match[1] === prefix) highest = Math.max(highest, Number(match[2]));
+		}
+		return `@${prefix}${highest + 1}@`;
+	}
+
+	/**
+	 * Copies a value, replacing the remapped IDs wherever they appear as a whole string or object key.
+	 */
+	private static remapIds(value: unknown, remap: Map<string, string>): unknown {
+		if (typeof value === 'string') return remap.get(value) || value;
+		if (Array.isArray(value)) return value.map(item => GedcomMerge.remapIds(item, remap));
+		if (value && typeof value === 'object') {
+			const copy: Record<string, unknown> = {};
+			for (const [key, item] of Object.entries(value)) {
+				copy[remap.get(key) || key] = GedcomMerge.remapIds(item, remap);
+			}
+			return copy;
+		}
+		return value;
+	}
+
+	/**
+	 * Pairs each person of the added tree with the first unpaired person of the earlier trees having the same key.
+	 */
+	private static matchPersons(existing: ParsedPerson[], added: ParsedPerson[], matchBy: TreeMatchKey): Array<[string, string]> {
+		if (matchBy === 'none') return [];
+
+		const byKey = new Map<string, string>();
+		for (const person of existing) {
+			for (const key of GedcomMerge.matchKeys(person, matchBy)) {
+				if (!byKey.has(key)) byKey.set(key, person.id);
+			}
+		}
+
+		const paired = new Set<string>();
+		const matches: Array<[string, string]> = [];
+		for (const person of added) {
+			const keptId = GedcomMerge.matchKeys(person, matchBy).map(key => byKey.get(key)).find(id => id && !paired.has(id));
+			if (keptId) {
+				paired.add(keptId);
+				matches.push([keptId, person.id]);
+			}
+		}
+		return matches;
+	}
+
+	/**
+	 * `_UID` and `REFN` values, or the name without case, accents or word order and the birth date.
+	 */
+	private static matchKeys(person: ParsedPerson, matchBy: TreeMatchKey): string[] {
+		if (matchBy === 'uid') {
+			return (person.extensions || [])
+				.filter(node => (node.tag === '_UID' || node.tag === 'REFN') && node.value)
+				.map(node => `${node.tag === 'REFN' ? 'REFN' : 'UID'}:${(node.value as string).trim().toUpperCase()}`);
+		}
+
+		const name = GedcomFinder.normalizeText(person.name).split(/[^a-z0-9]+/).filter(word => word).sort().join(' ');
+		const birth = person.birthDate.replace(/\s+/g, ' ').trim().toUpperCase();
+		return name && birth ? [`${name}|${birth}`] : [];
+	}
+
+	private static mergePersons(result: MergeResult, keptId: string, removedId: string, policy: MergePolicy): void {
+		const data = result.data;
+		const kept = data.persons.find(person => person.id === keptId) as ParsedPerson;
+		const removed = data.persons.find(person => person.id === removedId) as ParsedPerson;
+
+		if (!kept.name) {
+			GedcomMerge.copyName(removed, kept);
+		} else if (removed.name && GedcomMerge.differs(kept.name, removed.name)) {
+			if (policy === 'second') GedcomMerge.copyName(removed, kept);
+			if (policy === 'both') kept.extensions = [...(kept.extensions || []), GedcomMerge.nameNode(removed)];
+		}
+
+		if (removed.sex && removed.sex !== 'U' && (!kept.sex || kept.sex === 'U' || policy === 'second')) {
+			kept.sex = removed.sex;
+		}
+
+		kept.events = GedcomMerge.mergeEvents(kept.events, removed.events, policy);
+		kept.birthDate = (kept.events.find(event => event.type === 'BIRT') || { date: '' }).date;
+		kept.deathDate = (kept.events.find(event => event.type === 'DEAT') || { date: '' }).date;
+		kept.famc = GedcomMerge.union(kept.famc, removed.famc);
+		kept.fams = GedcomMerge.union(kept.fams, removed.fams);
+		if (removed.famcDetails) kept.famcDetails = { ...removed.famcDetails, ...kept.famcDetails };
+		if (removed.famsDetails) kept.famsDetails = { ...removed.famsDetails, ...kept.famsDetails };
+		GedcomMerge.mergeLists(kept, removed);
+		if (removed.nameTranslations) kept.nameTranslations = GedcomMerge.union(kept.nameTranslations || [], removed.nameTranslations);
+
+		data.persons = data.persons.filter(person => person !== removed);
+		result.merges.push({ type: 'person', kept: keptId, removed: removedId });
+
+		for (const family of data.families) {
+			if (family.husband === removedId) family.husband = keptId;
+			if (family.wife === removedId) family.wife = keptId;
+			family.children = GedcomMerge.union(family.children.map(id => (id === removedId ? keptId : id)), []);
+			GedcomMerge.renameDetails(family.spouseDetails, removedId, keptId);
+			GedcomMerge.renameDetails(family.childDetails, removedId, keptId);
+		}
+		GedcomMerge.replacePointers(data, removedId, keptId);
+
+		// Duplicate persons usually come with duplicate families: merge those now sharing both spouses
+		for (const familyId of kept.fams) {
+			const family = data.families.find(candidate => candidate.id === familyId);
+			if (!family) continue;
+			const twin = data.families.find(candidate => candidate !== family
+				&& kept.fams.includes(candidate.id)
+				&& candidate.husband === family.husband
+				&& candidate.wife === family.wife);
+			if (twin) GedcomMerge.mergeFamilies(result, family.id, twin.id, policy);
+		}
+	}
+
+	/**
+	 * Spouses are scalar fields: with different husbands or wives, the first is kept unless the
+	 * policy is `second`, and the spouse left out loses their link to the family.
+	 */
+	private static mergeFamilies(result: MergeResult, keptId: string, removedId: string, policy: MergePolicy): void {
+		const data = result.data;
+		const kept = data.families.find(family => family.id === keptId) as ParsedFamily;
+		const removed = data.families.find(family => family.id === removedId) as ParsedFamily;
+
+		for (const role of ['husband', 'wife'] as const) {
+			if (removed[role] && (!kept[role] || policy === 'second')) {
+				kept[role] = removed[role];
+			}
+		}
+
+		kept.children = GedcomMerge.union(kept.children, removed.children);
+		if (removed.spouseDetails) kept.spouseDetails = { ...removed.spouseDetails, ...kept.spouseDetails };
+		if (removed.childDetails) kept.childDetails = { ...removed.childDetails, ...kept.childDetails };
+		kept.events = GedcomMerge.mergeEvents(kept.events, removed.events, policy);
+		GedcomMerge.mergeLists(kept, removed);
+
+		data.families = data.families.filter(family => family !== removed);
+		result.merges.push({ type: 'family', kept: keptId, removed: removedId });
+
+		for (const person of data.persons) {
+			const rewrite = (ids: string[]) => GedcomMerge.union(ids.map(id => (id === removedId ? keptId : id)), []);
+			person.famc = rewrite(person.famc);
+			person.fams = rewrite(person.fams).filter(id => id !== keptId || kept.husband === person.id || kept.wife === person.id);
+			GedcomMerge.renameDetails(person.famcDetails, removedId, keptId);
+			GedcomMerge.renameDetails(person.famsDetails, removedId, keptId);
+		}
+		GedcomMerge.replacePointers(data, removedId, keptId);
+	}
+
+	/**
+	 * Rewrites in place the pointers to a merged record left anywhere else, such as an ASSO in
+	 * `extensions` or a pointer within `childDetails`.
+	 */
+	private static replacePointers(value: unknown, removedId: string, keptId: string): void {
+		if (!value || typeof value !== 'object') return;
+		const container = value as Record<string, unknown>;
+		for (const key of Object.keys(container)) {
+			if (container[key] === removedId) {
+				container[key] = keptId;
+			} else {
+				GedcomMerge.replacePointers(container[key], removedId, keptId);
+			}
+		}
+	}
+
+	/**
+	 * Moves the substructures of a link to the merged record, unless it has its own.
+	 */
+	private static renameDetails(details: Record<string, GedcomNode[]> | undefined, removedId: string, keptId: string): void {
+		if (!details || !details[removedId]) return;
+		details[keptId] = details[keptId] || details[removedId];
+		delete details[removedId];
+	}
+
+	/**
+	 * Events of the same type that do not contradict each other (each date and place equal or
+	 * missing on one side) become one. Conflicting once-only events follow the policy; other
+	 * events are all kept.
+	 */
+	private static mergeEvents(first: ParsedEvent[], second: ParsedEvent[], policy: MergePolicy): ParsedEvent[] {
+		const events = [...first];
+
+		for (const event of second) {
+			const match = events.find(candidate => candidate.type === event.type && GedcomMerge.compatible(candidate, event));
+			if (match) {
+				GedcomMerge.combineEvents(match, event);
+				continue;
+			}
+
+			const conflict = SINGLE_EVENTS.has(event.type) ? events.find(candidate => candidate.type === event.type) : undefined;
+			if (conflict && policy === 'first') continue;
+			if (conflict && policy === 'second') {
+				events[events.indexOf(conflict)] = event;
+				continue;
+			}
+			events.push(event);
+		}
+
+		return events;
+	}
+
+	private static compatible(first: ParsedEvent, second: ParsedEvent): boolean {
+		const same = (a: string | undefined, b: string | undefined) => !a || !b || !GedcomMerge.differs(a, b);
+		return same(first.date, second.date) && same(first.place, second.place) && same(first.value, second.value);
+	}
+
+	private static combineEvents(target: ParsedEvent, event: ParsedEvent): void {
+		if (!target.date && event.date) {
+			target.date = event.date;
+			if (event.parsedDate) target.parsedDate = event.parsedDate;
+		}
+		if (!target.place && event.place) {
+			target.place = event.place;
+			if (event.placeDetails) target.placeDetails = event.placeDetails;
+		}
+		for (const field of ['value', 'eventType', 'age', 'cause'] as const) {
+			if (!target[field] && event[field]) target[field] = event[field];
+		}
+		GedcomMerge.mergeNotes(target, event);
+		target.sources = GedcomMerge.union(target.sources || [], event.sources || []);
+		if (event.citations) target.citations = GedcomMerge.union(target.citations || [], event.citations);
+		if (event.extensions) target.extensions = GedcomMerge.union(target.extensions || [], event.extensions);
+	}
+
+	private static mergeLists(
+		kept: { media?: string[]; mediaDetails?: Record<string, GedcomNode[]>; notes?: string[]; noteDetails?: GedcomNode[][]; citations?: ParsedPerson['citations']; extensions?: GedcomNode[] },
+		removed: { media?: string[]; mediaDetails?: Record<string, GedcomNode[]>; notes?: string[]; noteDetails?: GedcomNode[][]; citations?: ParsedPerson['citations']; extensions?: GedcomNode[] },
+	): void {
+		if (removed.media) kept.media = GedcomMerge.union(kept.media || [], removed.media);
+		if (removed.mediaDetails) kept.mediaDetails = { ...removed.mediaDetails, ...kept.mediaDetails };
+		GedcomMerge.mergeNotes(kept, removed);
+		if (removed.citations) kept.citations = GedcomMerge.union(kept.citations || [], removed.citations);
+		if (removed.extensions) kept.extensions = GedcomMerge.union(kept.extensions || [], removed.extensions);
+	}
+
+	/**
+	 * Adds the notes the kept record lacks, keeping `noteDetails` aligned with `notes`.
+	 */
+	private static mergeNotes(kept: { notes?: string[]; noteDetails?: GedcomNode[][] }, removed: { notes?: string[]; noteDetails?: GedcomNode[][] }): void {
+		(removed.notes || []).forEach((note, index) => {
+			const notes = kept.notes || [];
+			const details = removed.noteDetails ? removed.noteDetails[index] : [];
+			if (notes.includes(note)) return;
+
+			if (details.length > 0 || kept.noteDetails) {
+				kept.noteDetails = kept.noteDetails || notes.map(() => []);
+				kept.noteDetails.push(details);
+			}
+			kept.notes = [...notes, note];
+		});
+	}
+
+	private static copyName(from: ParsedPerson, to: ParsedPerson): void {
+		to.name = from.name;
+		to.rawName = from.rawName;
+		to.firstName = from.firstName;
+		to.lastName = from.lastName;
+		to.nameDetails = from.nameDetails;
+		if (!to.rawName) delete to.rawName;
+		if (!to.nameDetails) delete to.nameDetails;
+	}
+
+	/**
+	 * An alternate NAME structure, written back after the primary name.
+	 */
+	private static nameNode(person: ParsedPerson): GedcomNode {
+		const value = person.rawName
+			|| (person.lastName ? `${person.firstName || ''} /${person.lastName}/`.trim() : person.name);
+		return { tag: 'NAME', value, children: person.nameDetails || [] };
+	}
+
+	/**
+	 * Values are compared without case, spacing or accents.
+	 */
+	private static differs(first: string, second: string): boolean {
+		const normalize = (value: string) => GedcomFinder.normalizeText(value).replace(/\s+/g, ' ').trim();
+		return normalize(first) !== normalize(second);
+	}
+
+	/**
+	 * Concatenates two lists without repeating equal items, compared by value.
+	 */
+	private static union<T>(first: T[], second: T[]): T[] {
+		const seen = new Set<string>();
+		return [...first, ...second].filter(item => {
+			const key = JSON.stringify(item);
+			if (seen.has(key)) return false;
+			seen.add(key);
+			return true;
+		});
+	}
+}
@@ -1,53 +1,63 @@
 import { IExecuteFunctions, NodeOperationError } from 'n8n-workflow';
 import { parse as parseGedcom } from 'parse-gedcom';
-import { readGedcom } from 'read-gedcom';
-import { ParseResult, ParsedPerson, ParsedFamily } from './gedcom-types';
+import { readGedcom, TreeNode } from 'read-gedcom';
+import { ParseResult, ParsedPerson, ParsedFamily, ParsedEvent, ParsedNote, ParsedTranslation, ParsedCitation, ParsedSource, ParsedRepository, ParsedRepositoryCitation, ParsedMedia, ParsedMediaFile, GedcomNode } from './gedcom-types';
 import { GedcomNameParser } from './gedcom-name-parser';
+import { GedcomDateParser } from './gedcom-date-parser';
+import { GedcomEncoding, DecodedGedcom } from './gedcom-encoding';
+
+const INDIVIDUAL_EVENT_TAGS = new Set<string>(['BIRT', 'CHR', 'BAPM', 'DEAT', 'BURI', 'CREM', 'RESI', 'OCCU', 'EDUC', 'EMIG', 'IMMI', 'EVEN']);
+const FAMILY_EVENT_TAGS = new Set<string>(['MARR', 'DIV', 'ENGA', 'RESI', 'EVEN']);
+
+// HEAD substructures that the generator always writes itself
+const GENERATED_HEADER_TAGS = new Set<string>(['SOUR', 'GEDC', 'CHAR', 'DATE', 'SCHMA']);
 
 export class GedcomParser {
 	static parseGedcomWithFallback(buffer: Buffer, context: IExecuteFunctions): ParseResult {
-		let gedcomText: string;
+		let decoded: DecodedGedcom;
 		let encodingTag = 'UTF-8';
 
 		try {
-			gedcomText = GedcomParser.detectAndDecodeGedcom(buffer);
+			decoded = GedcomParser.detectAndDecodeGedcom(buffer);
 		} catch (error) {
 			throw new NodeOperationError(context.getNode(), `Failed to decode GEDCOM file: ${(error as Error).message}`);
 		}
 
 		try {
-			const tree = parseGedcom(gedcomText);
-			return GedcomParser.normalizeParseGedcomResult(tree, encodingTag, context);
+			const tree = parseGedcom(decoded.text);
+			const parseResult = GedcomParser.normalizeParseGedcomResult(tree, encodingTag, context);
+			parseResult.meta.detectedEncoding = decoded.encoding;
+			return parseResult;
 		} catch (error) {
 			try {
 				const result = readGedcom(buffer);
-				return GedcomParser.normalizeReadGedcomResult(result);
+				const parseResult = GedcomParser.normalizeParseGedcomResult({
+					type: 'root',
+					children: result[0].children.map(GedcomParser.fromReadGedcomNode),
+				}, encodingTag, context);
+				parseResult.meta.detectedEncoding = decoded.encoding;
+				return parseResult;
 			} catch (fallbackError) {
 				throw new NodeOperationError(context.getNode(), `Failed to parse GEDCOM file with both parsers. Primary error: ${(error as Error).message}. Fallback error: ${(fallbackError as Error).message}`);
 			}
 		}
 	}
 
-	private static detectAndDecodeGedcom(buffer: Buffer): string {
-		if (buffer.length >= 3 && buffer[0] === 0xEF && buffer[1] === 0xBB && buffer[2] === 0xBF) {
-			return buffer.slice(3).toString('utf8');
-		}
-
-		if (buffer.length >= 2) {
-			if (buffer[0] === 0xFF && buffer[1] === 0xFE) {
-				return buffer.slice(2).toString('utf16le');
-			}
-			if (buffer[0] === 0xFE && buffer[1] === 0xFF) {
-				return buffer.slice(2).toString('utf16le');
-			}
-		}
-
-		return buffer.toString('utf8');
+	private static detectAndDecodeGedcom(buffer: Buffer): DecodedGedcom {
+		return GedcomEncoding.decode(buffer);
 	}
 
 	private static normalizeParseGedcomResult(tree: any, encodingTag: string, context: IExecuteFunctions): ParseResult {
 		const persons: ParsedPerson[] = [];
 		const families: ParsedFamily[] = [];
+		const notes: ParsedNote[] = [];
+		const sources: ParsedSource[] = [];
+		const repositories: ParsedRepository[] = [];
+		const media: ParsedMedia[] = [];
+		const records: GedcomNode[] = [];
+		const headerExtensions: GedcomNode[] = [];
+		let gedcomVersion: string | undefined;
+		let schema: Record<string, string> | undefined;
 
 		if (!tree || !tree.children || !Array.isArray(tree.children)) {
 			throw new NodeOperationError(context.getNode(), 'Invalid GEDCOM structure');
@@ -59,67 +69,98 @@ export class GedcomParser {
 			if (charRecord && charRecord.value) {
 				encodingTag = charRecord.value;
 			}
+
+			const gedcRecord = headRecord.children.find((child: any) => child.type === 'GEDC');
+			const versionRecord = gedcRecord && gedcRecord.children
+				? gedcRecord.children.find((child: any) => child.type === 'VERS')
+				: undefined;
+			if (versionRecord && versionRecord.value) {
+				gedcomVersion = versionRecord.value;
+			}
+
+			// GEDCOM 7.0 maps extension tags to URIs in HEAD.SCHMA
+			const schemaRecord = headRecord.children.find((child: any) => child.type === 'SCHMA');
+			if (schemaRecord && schemaRecord.children) {
+				schema = {};
+				for (const tagRecord of schemaRecord.children) {
+					const [tag, uri] = (tagRecord.value || '').split(/\s+/);
+					if (tagRecord.type === 'TAG' && tag && uri) {
+						schema[tag] = uri;
+					}
+				}
+			}
+
+			for (const child of headRecord.children) {
+				if (!GENERATED_HEADER_TAGS.has(child.type)) {
+					headerExtensions.push(GedcomParser.toNode(child));
+				}
+			}
 		}
 
 		for (const record of tree.children) {
 			if (record.type === 'INDI' && record.data && record.data.xref_id) {
-				const person = GedcomParser.parseIndividual(record);
+				const person = GedcomParser.parseIndividual(record, media);
 				persons.push(person);
 			} else if (record.type === 'FAM' && record.data && record.data.xref_id) {
-				const family = GedcomParser.parseFamily(record);
+				const family = GedcomParser.parseFamily(record, media);
 				families.push(family);
+			} else if ((record.type === 'SNOTE' || record.type === 'NOTE') && record.data && record.data.xref_id) {
+				notes.push(GedcomParser.parseSharedNote(record));
+			} else if (record.type === 'SOUR' && record.data && record.data.xref_id) {
+				sources.push(GedcomParser.parseSource(record));
+			} else if (record.type === 'REPO' && record.data && record.data.xref_id) {
+				repositories.push(GedcomParser.parseRepository(record));
+			} else if (record.type === 'OBJE' && record.data && record.data.xref_id) {
+				media.push(GedcomParser.parseMedia(record, record.data.xref_id));
+			} else if (record.type !== 'HEAD' && record.type !== 'TRLR') {
+				records.push(GedcomParser.toNode(record));
 			}
 		}
 
+		const meta: ParseResult['meta'] = {
+			individuals: persons.length,
+			families: families.length,
+			encodingTag,
+		};
+		if (gedcomVersion) meta.gedcomVersion = gedcomVersion;
+		if (schema) meta.schema = schema;
+		if (headerExtensions.length > 0) meta.headerExtensions = headerExtensions;
+
 		return {
-			meta: {
-				individuals: persons.length,
-				families: families.length,
-				encodingTag,
-			},
+			meta,
 			persons,
 			families,
+			notes,
+			sources,
+			repositories,
+			media,
+			records,
 		};
 	}
 
-	private static normalizeReadGedcomResult(result: any): ParseResult {
-		const persons: ParsedPerson[] = [];
-		const families: ParsedFamily[] = [];
-		let encodingTag = 'UTF-8';
-
-		if (result.head && result.head.characterSet) {
-			encodingTag = result.head.characterSet.value || 'UTF-8';
-		}
-
-		if (result.individuals) {
-			for (const [id, individual] of Object.entries(result.individuals as any)) {
-				persons.push(GedcomParser.parseReadGedcomIndividual(id, individual));
-			}
-		}
-
-		if (result.families) {
-			for (const [id, family] of Object.entries(result.families as any)) {
-				families.push(GedcomParser.parseReadGedcomFamily(id, family));
-			}
+	/**
+	 * Converts a read-gedcom node into the parse-gedcom shape. read-gedcom keeps record xrefs in
+	 * `pointer` and pointers to other records in `value`.
+	 */
+	private static fromReadGedcomNode(node: TreeNode): any {
+		const data: Record<string, string> = {};
+		const record: any = { type: node.tag, data, children: node.children.map(GedcomParser.fromReadGedcomNode) };
+		if (node.pointer) data.xref_id = node.pointer;
+		if (node.value !== null && /^@[^@#][^@]*@$/.test(node.value)) {
+			data.pointer = node.value;
+		} else if (node.value !== null) {
+			record.value = node.value;
 		}
-
-		return {
-			meta: {
-				individuals: persons.length,
-				families: families.length,
-				encodingTag,
-			},
-			persons,
-			families,
-		};
+		return record;
 	}
 
-	private static parseIndividual(record: any): ParsedPerson {
+	private static parseIndividual(record: any, media: ParsedMedia[]): ParsedPerson {
 		const person: ParsedPerson = {
 			id: record.data.xref_id,
 			name: '',
 			birthDate: '',
 			deathDate: '',
+			events: [],
 			famc: [],
 			fams: [],
 		};
@@ -127,66 +168,142 @@ export class GedcomParser {
 		if (record.children) {
 			for (const child of record.children) {
 				switch (child.type) {
-					case 'NAME':
+					case 'NAME': {
+						// Only the first NAME is interpreted; alternate names are kept as extensions
+						if (person.rawName !== undefined) {
+							GedcomParser.addExtension(person, child);
+							break;
+						}
 						const nameValue = child.value || '';
 						const parsedName = GedcomNameParser.parseName(nameValue);
 						person.name = parsedName.fullName;
+						person.rawName = nameValue;
 						person.firstName = parsedName.firstName;
 						person.lastName = parsedName.lastName;
-						break;
-					case 'BIRT':
-						if (child.children) {
-							const dateRecord = child.children.find((grandchild: any) => grandchild.type === 'DATE');
-							if (dateRecord) {
-								person.birthDate = dateRecord.value || '';
-							}
+						if (child.children && child.children.some((grandchild: any) => grandchild.type === 'TRAN')) {
+							person.nameTranslations = GedcomParser.parseTranslations(child);
+						}
+						const nameDetails = (child.children || []).filter((grandchild: any) => grandchild.type !== 'TRAN');
+						if (nameDetails.length > 0) {
+							person.nameDetails = nameDetails.map(GedcomParser.toNode);
 						}
 						break;
-					case 'DEAT':
-						if (child.children) {
-							const dateRecord = child.children.find((grandchild: any) => grandchild.type === 'DATE');
-							if (dateRecord) {
-								person.deathDate = dateRecord.value || '';
-							}
+					}
+					case 'SEX':
+						person.sex = child.value || '';
+						break;
+					case 'FAMC': {
+						const familyId = GedcomParser.pointer(child);
+						if (GedcomParser.isVoid(child)) {
+							GedcomParser.addExtension(person, child);
+							break;
+						}
+						if (!familyId) {
+							break;
+						}
+						person.famc.push(familyId);
+						if (child.children && child.children.length > 0) {
+							person.famcDetails = person.famcDetails || {};
+							person.famcDetails[familyId] = child.children.map(GedcomParser.toNode);
 						}
 						break;
-					case 'FAMC':
-						if (child.data && child.data.pointer) {
-							person.famc.push(child.data.pointer);
+					}
+					case 'FAMS': {
+						const familyId = GedcomParser.pointer(child);
+						if (GedcomParser.isVoid(child)) {
+							GedcomParser.addExtension(person, child);
+							break;
+						}
+						if (!familyId) {
+							break;
 						}
+						person.fams.push(familyId);
+						const details = GedcomParser.linkDetails(child);
+						if (details) person.famsDetails = { ...person.famsDetails, [familyId]: details };
+						break;
+					}
+					case 'NOTE':
+					case 'SNOTE':
+						GedcomParser.addNote(person, child);
+						break;
+					case 'OBJE':
+						GedcomParser.addMediaLink(person, child, media);
 						break;
-					case 'FAMS':
-						if (child.data && child.data.pointer) {
-							person.fams.push(child.data.pointer);
+					case 'SOUR':
+						person.citations = person.citations || [];
+						person.citations.push(GedcomParser.parseCitation(child));
+						break;
+					default:
+						if (INDIVIDUAL_EVENT_TAGS.has(child.type)) {
+							person.events.push(GedcomParser.parseEvent(child));
+						} else {
+							GedcomParser.addExtension(person, child);
 						}
 						break;
 				}
 			}
 		}
 
+		GedcomParser.applyVitalDates(person);
+
 		return person;
 	}
 
-	private static parseFamily(record: any): ParsedFamily {
+	private static parseFamily(record: any, media: ParsedMedia[]): ParsedFamily {
 		const family: ParsedFamily = {
 			id: record.data.xref_id,
 			children: [],
+			events: [],
 		};
 
 		if (record.children) {
 			for (const child of record.children) {
 				switch (child.type) {
 					case 'HUSB':
-						family.husband = child.data && child.data.pointer ? child.data.pointer : child.value;
+					case 'WIFE': {
+						const spouseId = child.data && child.data.pointer ? child.data.pointer : child.value;
+						if (GedcomParser.isVoid(child)) {
+							GedcomParser.addExtension(family, child);
+							break;
+						}
+						if (!spouseId) {
+							break;
+						}
+						family[child.type === 'HUSB' ? 'husband' : 'wife'] = spouseId;
+						const details = GedcomParser.linkDetails(child);
+						if (details) family.spouseDetails = { ...family.spouseDetails, [spouseId]: details };
+						break;
+					}
+					case 'CHIL': {
+						const childId = child.data && child.data.pointer ? child.data.pointer : child.value;
+						if (GedcomParser.isVoid(child)) {
+							GedcomParser.addExtension(family, child);
+							break;
+						}
+						if (!childId) {
+							break;
+						}
+						family.children.push(childId);
+						const details = GedcomParser.linkDetails(child);
+						if (details) family.childDetails = { ...family.childDetails, [childId]: details };
+						break;
+					}
+					case 'NOTE':
+					case 'SNOTE':
+						GedcomParser.addNote(family, child);
 						break;
-					case 'WIFE':
-						family.wife = child.data && child.data.pointer ? child.data.pointer : child.value;
+					case 'OBJE':
+						GedcomParser.addMediaLink(family, child, media);
 						break;
-					case 'CHIL':
-						if (child.data && child.data.pointer) {
-							family.children.push(child.data.pointer);
-						} else if (child.value) {
-							family.children.push(child.value);
+					case 'SOUR':
+						family.citations = family.citations || [];
+						family.citations.push(GedcomParser.parseCitation(child));
+						break;
+					default:
+						if (FAMILY_EVENT_TAGS.has(child.type)) {
+							family.events.push(GedcomParser.parseEvent(child));
+						} else {
+							GedcomParser.addExtension(family, child);
 						}
 						break;
 				}
@@ -196,63 +313,359 @@ export class GedcomParser {
 		return family;
 	}
 
-	private static parseReadGedcomIndividual(id: string, individual: any): ParsedPerson {
-		const person: ParsedPerson = {
-			id: GedcomParser.canonicalizeId(id),
-			name: '',
-			birthDate: '',
-			deathDate: '',
-			famc: [],
-			fams: [],
+	private static parseEvent(record: any): ParsedEvent {
+		const event: ParsedEvent = {
+			type: record.type,
+			date: '',
+			place: '',
+			notes: [],
+			sources: [],
 		};
 
-		if (individual.name && individual.name.length > 0) {
-			const nameRecord = individual.name[0];
-			const rawName = `${nameRecord.given || ''} /${nameRecord.surname || ''}/`.trim();
-			const parsedName = GedcomNameParser.parseName(rawName);
-			person.name = parsedName.fullName;
-			person.firstName = parsedName.firstName;
-			person.lastName = parsedName.lastName;
+		if (record.value) {
+			event.value = record.value;
 		}
 
-		if (individual.birth && individual.birth.date) {
-			person.birthDate = individual.birth.date.value || '';
+		if (record.children) {
+			for (const child of record.children) {
+				switch (child.type) {
+					case 'TYPE':
+						event.eventType = child.value || '';
+						break;
+					case 'DATE': {
+						event.date = child.value || '';
+						const phraseRecord = child.children
+							? child.children.find((grandchild: any) => grandchild.type === 'PHRASE')
+							: undefined;
+						if (event.date || phraseRecord) {
+							event.parsedDate = GedcomDateParser.parse(event.date);
+						}
+						if (event.parsedDate && phraseRecord && phraseRecord.value && !event.parsedDate.phrase) {
+							event.parsedDate.phrase = phraseRecord.value;
+						}
+						break;
+					}
+					case 'PLAC':
+						event.place = child.value || '';
+						if (child.children && child.children.length > 0) {
+							event.placeDetails = child.children.map(GedcomParser.toNode);
+						}
+						break;
+					case 'AGE':
+						event.age = child.value || '';
+						break;
+					case 'CAUS':
+						event.cause = child.value || '';
+						break;
+					case 'NOTE':
+					case 'SNOTE':
+						GedcomParser.addNote(event, child);
+						break;
+					case 'SOUR': {
+						const citation = GedcomParser.parseCitation(child);
+						event.citations = event.citations || [];
+						event.citations.push(citation);
+						if (citation.source) {
+							event.sources.push(citation.source);
+						}
+						break;
+					}
+					default:
+						GedcomParser.addExtension(event, child);
+						break;
+				}
+			}
 		}
 
-		if (individual.death && individual.death.date) {
-			person.deathDate = individual.death.date.value || '';
+		return event;
+	}
+
+	private static parseSharedNote(record: any): ParsedNote {
+		const note: ParsedNote = {
+			id: record.data.xref_id,
+			text: GedcomParser.noteText(record.value),
+		};
+
+		if (record.children && record.children.some((child: any) => child.type === 'TRAN')) {
+			note.translations = GedcomParser.parseTranslations(record);
 		}
 
-		if (individual.familyAsChild) {
-			person.famc = individual.familyAsChild.map((ref: any) => GedcomParser.canonicalizeId(ref.family));
+		for (const child of record.children || []) {
+			if (child.type !== 'TRAN') {
+				GedcomParser.addExtension(note, child);
+			}
 		}
 
-		if (individual.familyAsSpouse) {
-			person.fams = individual.familyAsSpouse.map((ref: any) => GedcomParser.canonicalizeId(ref.family));
+		return note;
+	}
+
+	/**
+	 * Parses a SOUR citation, keeping PAGE, QUAY and DATA (DATE, TEXT).
+	 */
+	private static parseCitation(record: any): ParsedCitation {
+		const citation: ParsedCitation = {
+			source: record.data && record.data.pointer ? record.data.pointer : record.value || '',
+		};
+
+		for (const child of record.children || []) {
+			switch (child.type) {
+				case 'PAGE':
+					citation.page = child.value || '';
+					break;
+				case 'QUAY':
+					citation.quality = child.value || '';
+					break;
+				case 'DATA':
+					for (const dataChild of child.children || []) {
+						if (dataChild.type === 'DATE') {
+							citation.date = dataChild.value || '';
+						} else if (dataChild.type === 'TEXT') {
+							citation.text = citation.text || [];
+							citation.text.push(dataChild.value || '');
+						}
+					}
+					break;
+				case 'NOTE':
+				case 'SNOTE':
+					GedcomParser.addNote(citation, child);
+					break;
+				default:
+					GedcomParser.addExtension(citation, child);
+					break;
+			}
 		}
 
-		return person;
+		return citation;
 	}
 
-	private static parseReadGedcomFamily(id: string, family: any): ParsedFamily {
-		const parsedFamily: ParsedFamily = {
-			id: GedcomParser.canonicalizeId(id),
-			children: [],
+	private static parseSource(record: any): ParsedSource {
+		const source: ParsedSource = {
+			id: record.data.xref_id,
+			repositories: [],
 		};
 
-		if (family.husband) {
-			parsedFamily.husband = GedcomParser.canonicalizeId(family.husband.pointer);
+		for (const child of record.children || []) {
+			switch (child.type) {
+				case 'TITL':
+					source.title = child.value || '';
+					break;
+				case 'AUTH':
+					source.author = child.value || '';
+					break;
+				case 'PUBL':
+					source.publication = child.value || '';
+					break;
+				case 'ABBR':
+					source.abbreviation = child.value || '';
+					break;
+				case 'TEXT':
+					source.text = child.value || '';
+					break;
+				case 'REPO': {
+					const repository: ParsedRepositoryCitation = {
+						repository: child.data && child.data.pointer ? child.data.pointer : child.value || '',
+						callNumbers: [],
+					};
+					for (const grandchild of child.children || []) {
+						if (grandchild.type === 'CALN' && (!grandchild.children || grandchild.children.length === 0)) {
+							repository.callNumbers.push(grandchild.value || '');
+						} else {
+							GedcomParser.addExtension(repository, grandchild);
+						}
+					}
+					source.repositories.push(repository);
+					break;
+				}
+				default:
+					GedcomParser.addExtension(source, child);
+					break;
+			}
 		}
 
-		if (family.wife) {
-			parsedFamily.wife = GedcomParser.canonicalizeId(family.wife.pointer);
+		return source;
+	}
+
+	/**
+	 * Links a person or family to an OBJE record. Embedded 5.5.1 OBJE structures become
+	 * inline media records; substructures of a pointer link (7.0 CROP, TITL) are kept in `mediaDetails`.
+	 */
+	private static addMediaLink(target: { id: string; media?: string[]; mediaDetails?: Record<string, GedcomNode[]>; extensions?: GedcomNode[] }, record: any, media: ParsedMedia[]): void {
+		let mediaId = GedcomParser.pointer(record);
+		const details = mediaId ? GedcomParser.linkDetails(record) : undefined;
+
+		if (!mediaId && !GedcomParser.isVoid(record)) {
+			const count = (target.media || []).filter(id => id.startsWith(`${target.id.replace(/@$/, '')}_OBJE`)).length;
+			mediaId = `${target.id.replace(/@$/, '')}_OBJE${count + 1}@`;
+			media.push({ ...GedcomParser.parseMedia(record, mediaId), inline: true });
 		}
 
-		if (family.children) {
-			parsedFamily.children = family.children.map((child: any) => GedcomParser.canonicalizeId(child.pointer));
+		if (mediaId) {
+			target.media = target.media || [];
+			target.media.push(mediaId);
 		}
+		if (mediaId && details) target.mediaDetails = { ...target.mediaDetails, [mediaId]: details };
+	}
+
+	private static parseMedia(record: any, id: string): ParsedMedia {
+		const media: ParsedMedia = { id, files: [] };
+
+		for (const child of record.children || []) {
+			switch (child.type) {
+				case 'FILE': {
+					const file: ParsedMediaFile = { path: child.value || '' };
+					for (const grandchild of child.children || []) {
+						if (grandchild.type === 'FORM') {
+							file.format = grandchild.value || '';
+							const typeRecord = (grandchild.children || []).find((node: any) => node.type === 'TYPE' || node.type === 'MEDI');
+							if (typeRecord && typeRecord.value) file.mediaType = typeRecord.value;
+						} else if (grandchild.type === 'TITL') {
+							file.title = grandchild.value || '';
+						} else {
+							GedcomParser.addExtension(file, grandchild);
+						}
+					}
+					media.files.push(file);
+					break;
+				}
+				case 'FORM':
+					// GEDCOM 5.5 puts FORM beside FILE
+					if (media.files.length > 0 && !media.files[media.files.length - 1].format) {
+						media.files[media.files.length - 1].format = child.value || '';
+					} else {
+						GedcomParser.addExtension(media, child);
+					}
+					break;
+				case 'TITL':
+					media.title = child.value || '';
+					break;
+				case 'NOTE':
+				case 'SNOTE':
+					GedcomParser.addNote(media, child);
+					break;
+				case 'SOUR':
+					media.citations = media.citations || [];
+					media.citations.push(GedcomParser.parseCitation(child));
+					break;
+				default:
+					GedcomParser.addExtension(media, child);
+					break;
+			}
+		}
+
+		return media;
+	}
+
+	private static parseRepository(record: any): ParsedRepository {
+		const repository: ParsedRepository = {
+			id: record.data.xref_id,
+			name: '',
+		};
+
+		for (const child of record.children || []) {
+			switch (child.type) {
+				case 'NAME':
+					repository.name = child.value || '';
+					break;
+				case 'ADDR':
+					repository.address = child.value || '';
+					if (child.children && child.children.length > 0) {
+						repository.addressDetails = child.children.map(GedcomParser.toNode);
+					}
+					break;
+				default:
+					GedcomParser.addExtension(repository, child);
+					break;
+			}
+		}
+
+		return repository;
+	}
+
+	private static parseTranslations(record: any): ParsedTranslation[] {
+		return record.children
+			.filter((child: any) => child.type === 'TRAN')
+			.map((child: any) => {
+				const translation: ParsedTranslation = { value: child.value || '' };
+				for (const grandchild of child.children || []) {
+					if (grandchild.type === 'LANG') translation.lang = grandchild.value;
+					if (grandchild.type === 'MIME') translation.mime = grandchild.value;
+				}
+				return translation;
+			});
+	}
+
+	/**
+	 * Converts a parse-gedcom node into a raw tag tree.
+	 */
+	private static toNode(record: any): GedcomNode {
+		const node: GedcomNode = { tag: record.type, children: [] };
+		if (record.data && record.data.xref_id) node.xref = record.data.xref_id;
+		if (record.data && record.data.pointer) node.pointer = record.data.pointer;
+		if (record.value !== undefined && record.value !== '') node.value = record.value;
+		node.children = (record.children || []).map(GedcomParser.toNode);
+		return node;
+	}
+
+	/**
+	 * Substructures of a FAMS, HUSB, WIFE, CHIL, NOTE or OBJE link, kept whole like FAMC's in `famcDetails`.
+	 */
+	private static linkDetails(record: any): GedcomNode[] | undefined {
+		return record.children && record.children.length > 0 ? record.children.map(GedcomParser.toNode) : undefined;
+	}
+
+	/**
+	 * Adds a NOTE or SNOTE as a shared note pointer or inline text. Substructures other than
+	 * CONC/CONT (already joined into the value) are kept in `noteDetails`, at the note's index.
+	 */
+	private static addNote(target: { notes?: string[]; noteDetails?: GedcomNode[][]; extensions?: GedcomNode[] }, record: any): void {
+		const note = GedcomParser.pointer(record) || GedcomParser.noteText(record.value);
+		const details = GedcomParser.linkDetails(record);
+
+		if (!note) {
+			if (details) GedcomParser.addExtension(target, record);
+			return;
+		}
+
+		target.notes = target.notes || [];
+		if (details || target.noteDetails) {
+			target.noteDetails = target.noteDetails || target.notes.map(() => []);
+			target.noteDetails.push(details || []);
+		}
+		target.notes.push(note);
+	}
+
+	/**
+	 * Note text with the `@@` escape for a literal `@` removed.
+	 */
+	private static noteText(value: string | undefined): string {
+		return (value || '').replace(/@@/g, '@');
+	}
+
+	private static addExtension(target: { extensions?: GedcomNode[] }, record: any): void {
+		target.extensions = target.extensions || [];
+		target.extensions.push(GedcomParser.toNode(record));
+	}
+
+	/**
+	 * Returns the record's pointer, ignoring the GEDCOM 7.0 `@VOID@` placeholder.
+	 */
+	private static pointer(record: any): string | undefined {
+		if (!record.data || !record.data.pointer || GedcomParser.isVoid(record)) return undefined;
+		return record.data.pointer;
+	}
+
+	private static isVoid(record: any): boolean {
+		return !!record.data && record.data.pointer === '@VOID@';
+	}
 
-		return parsedFamily;
+	/**
+	 * Keeps the flat birthDate/deathDate fields in sync with the first BIRT and DEAT events.
+	 */
+	private static applyVitalDates(person: ParsedPerson): void {
+		const birth = person.events.find(event => event.type === 'BIRT');
+		const death = person.events.find(event => event.type === 'DEAT');
+		person.birthDate = birth ? birth.date : '';
+		person.deathDate = death ? death.date : '';
 	}
 
 	static canonicalizeId(id: string): string {
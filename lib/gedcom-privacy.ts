@@ -0,0 +1,158 @@
+import { ParseResult, ParsedPerson, ParsedFamily, ParsedEvent, PrivacyAction, PrivacyResult } from './gedcom-types';
+import { GedcomDateParser } from './gedcom-date-parser';
+import { GedcomSubtree } from './gedcom-subtree';
+
+// ABT, CAL and EST dates are treated as this many years either side of the stated date
+const APPROXIMATE_DATE_YEARS = 5;
+// Also the youngest age at marriage
+const MIN_PARENT_AGE_YEARS = 12;
+const MAX_PARENT_AGE_YEARS = 60;
+const MAX_SPOUSE_AGE_GAP_YEARS = 30;
+const DEATH_EVENTS = new Set(['DEAT', 'BURI', 'CREM']);
+// Birth estimates flow one link per pass; ancestor loops would otherwise never settle
+const ESTIMATE_PASSES = 10;
+const LIVING_NAME = 'Living';
+
+export class GedcomPrivacy {
+	/**
+	 * Applies the action to every person presumed living: anyone without a death, burial or cremation
+	 * record who may have been born less than `ageThreshold` years ago. Persons whose own dates
+	 * and their relatives' dates cannot bound their birth year are presumed living.
+	 *
+	 * Families with a living spouse lose their events, notes, media, citations and link substructures, and records
+	 * no longer referenced are dropped, so nothing about living persons is left behind.
+	 */
+	static privatize(data: ParseResult, action: PrivacyAction, ageThreshold: number, currentYear: number = new Date().getFullYear()): PrivacyResult {
+		const copy = JSON.parse(JSON.stringify(data)) as ParseResult;
+		const latestBirths = GedcomPrivacy.latestBirthYears(copy);
+
+		const living = copy.persons
+			.filter(person => !GedcomPrivacy.hasDeathRecord(person))
+			.map(person => ({ id: person.id, latestBirthYear: latestBirths.get(person.id) }))
+			.filter(person => person.latestBirthYear === undefined || currentYear - person.latestBirthYear <= ageThreshold)
+			.map(person => (person.latestBirthYear === undefined ? { id: person.id } : person));
+		const livingIds = new Set(living.map(person => person.id));
+
+		for (const family of copy.families) {
+			if ((family.husband && livingIds.has(family.husband)) || (family.wife && livingIds.has(family.wife))) {
+				GedcomPrivacy.stripDetails(family);
+			}
+		}
+
+		if (action !== 'remove') {
+			for (const person of copy.persons.filter(candidate => livingIds.has(candidate.id))) {
+				GedcomPrivacy.stripDetails(person);
+				person.birthDate = '';
+				person.deathDate = '';
+
+				if (action === 'replaceName') {
+					person.name = LIVING_NAME;
+					person.firstName = LIVING_NAME;
+					delete person.lastName;
+					delete person.rawName;
+					delete person.nameDetails;
+					delete person.nameTranslations;
+				}
+			}
+		}
+
+		const kept = copy.persons.filter(person => action !== 'remove' || !livingIds.has(person.id));
+		return {
+			data: GedcomSubtree.subset(copy, new Set(kept.map(person => person.id)), 1),
+			living,
+		};
+	}
+
+	private static hasDeathRecord(person: ParsedPerson): boolean {
+		return !!person.deathDate || person.events.some(event => DEATH_EVENTS.has(event.type));
+	}
+
+	/**
+	 * Latest year each person can have been born in, from their own dated events, then refined
+	 * from their parents, children and spouses.
+	 */
+	private static latestBirthYears(data: ParseResult): Map<string, number> {
+		const personMap = new Map<string, ParsedPerson>(data.persons.map(person => [person.id, person]));
+		const familyMap = new Map<string, ParsedFamily>(data.families.map(family => [family.id, family]));
+		const latest = new Map<string, number>();
+
+		const bound = (id: string, year: number | undefined) => {
+			if (year === undefined) return false;
+			const current = latest.get(id);
+			if (current !== undefined && current <= year) return false;
+			latest.set(id, year);
+			return true;
+		};
+
+		// Any dated event of the person, or of their marriages, happened after their birth
+		for (const person of data.persons) {
+			for (const event of person.events) {
+				bound(person.id, GedcomPrivacy.latestYear(event));
+			}
+			for (const familyId of person.fams) {
+				for (const event of (familyMap.get(familyId) || { events: [] as ParsedEvent[] }).events) {
+					const year = GedcomPrivacy.latestYear(event);
+					bound(person.id, year === undefined ? undefined : year - MIN_PARENT_AGE_YEARS);
+				}
+			}
+		}
+
+		for (let pass = 0; pass < ESTIMATE_PASSES; pass++) {
+			let changed = false;
+			const offset = (id: string | undefined, years: number) => {
+				const year = id ? latest.get(id) : undefined;
+				return year === undefined ? undefined : year + years;
+			};
+
+			for (const family of data.families) {
+				const parents = [family.husband, family.wife].filter((id): id is string => !!id && personMap.has(id));
+
+				for (const childId of family.children.filter(id => personMap.has(id))) {
+					for (const parentId of parents) {
+						changed = bound(parentId, offset(childId, -MIN_PARENT_AGE_YEARS)) || changed;
+						changed = bound(childId, offset(parentId, MAX_PARENT_AGE_YEARS)) || changed;
+
+						const parentDeath = (personMap.get(parentId) as ParsedPerson).events.find(event => DEATH_EVENTS.has(event.type));
+						const deathYear = parentDeath ? GedcomPrivacy.latestYear(parentDeath) : undefined;
+						// Children can be born up to a year after their father's death
+						changed = bound(childId, deathYear === undefined ? undefined : deathYear + 1) || changed;
+					}
+				}
+
+				if (parents.length === 2) {
+					changed = bound(parents[0], offset(parents[1], MAX_SPOUSE_AGE_GAP_YEARS)) || changed;
+					changed = bound(parents[1], offset(parents[0], MAX_SPOUSE_AGE_GAP_YEARS)) || changed;
+				}
+			}
+
+			if (!changed) break;
+		}
+
+		return latest;
+	}
+
+	private static latestYear(event: ParsedEvent): number | undefined {
+		if (!event.date) return undefined;
+		const range = GedcomDateParser.toRange(GedcomDateParser.parse(event.date), APPROXIMATE_DATE_YEARS);
+		return range && Number.isFinite(range.max) ? Math.floor(range.max / 10000) : undefined;
+	}
+
+	private static stripDetails(record: ParsedPerson | ParsedFamily): void {
+		record.events = [];
+		if (record.notes) record.notes = [];
+		if (record.media) record.media = [];
+		// Link substructures can hold notes of their own, such as a NOTE under FAMS
+		delete record.noteDetails;
+		delete record.mediaDetails;
+		if ('fams' in record) {
+			delete record.famcDetails;
+			delete record.famsDetails;
+		} else {
+			delete record.spouseDetails;
+			delete record.childDetails;
+		}
+		if (record.citations) record.citations = [];
+		// The _UID is kept so the person can still be matched against other copies of the tree
+		if (record.extensions) record.extensions = record.extensions.filter(node => node.tag === '_UID');
+	}
+}
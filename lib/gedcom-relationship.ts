@@ -0,0 +1,420 @@
+import { IExecuteFunctions, NodeOperationError } from 'n8n-workflow';
+import { ParseResult, ParsedPerson, ParsedFamily, RelationshipLanguage, RelationshipResult, RelationshipStep, RelationshipType } from './gedcom-types';
+import { GedcomParser } from './gedcom-parser';
+
+type Sex = 'male' | 'female' | 'unknown';
+
+interface FamilyGraph {
+	persons: Map<string, ParsedPerson>;
+	families: Map<string, ParsedFamily>;
+}
+
+// Shortest link from a person up to one of their ancestors: the child one generation
+// below the ancestor on that path, and the family linking them
+interface AncestorLink {
+	distance: number;
+	child?: string;
+	family?: string;
+}
+
+interface BloodRelation {
+	up: number;
+	down: number;
+	half: boolean;
+	commonAncestors: string[];
+	path: RelationshipStep[];
+}
+
+interface RelationshipLabels {
+	self: string;
+	none: string;
+	ancestor(generations: number, sex: Sex): string;
+	descendant(generations: number, sex: Sex): string;
+	sibling(sex: Sex, half: boolean): string;
+	auntUncle(generations: number, sex: Sex, half: boolean): string;
+	nieceNephew(generations: number, sex: Sex, half: boolean): string;
+	cousin(degree: number, removed: number, olderGeneration: boolean, sex: Sex, half: boolean): string;
+	spouse(sex: Sex): string;
+	inLaw(kind: 'parent' | 'child' | 'sibling', sex: Sex): string;
+	step(kind: 'parent' | 'child', sex: Sex): string;
+	byMarriage(label: string): string;
+}
+
+const ENGLISH_ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+
+function gendered(sex: Sex, male: string, female: string, unknown: string): string {
+	if (sex === 'male') return male;
+	if (sex === 'female') return female;
+	return unknown;
+}
+
+function englishNumber(n: number): string {
+	const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+	return `${n}${suffix}`;
+}
+
+// "great-great-" up to three greats, then "4th great-"
+function englishGreats(count: number): string {
+	if (count <= 0) return '';
+	if (count <= 3) return 'great-'.repeat(count);
+	return `${englishNumber(count)} great-`;
+}
+
+function frenchArriere(count: number): string {
+	return 'arrière-'.repeat(count);
+}
+
+const LABELS: Record<RelationshipLanguage, RelationshipLabels> = {
+	en: {
+		self: 'same person',
+		none: 'not related',
+		ancestor: (generations, sex) => {
+			const base = gendered(sex, 'father', 'mother', 'parent');
+			return generations === 1 ? base : `${englishGreats(generations - 2)}grand${base}`;
+		},
+		descendant: (generations, sex) => {
+			if (generations === 1) return gendered(sex, 'son', 'daughter', 'child');
+			return `${englishGreats(generations - 2)}grand${gendered(sex, 'son', 'daughter', 'child')}`;
+		},
+		sibling: (sex, half) => `${half ? 'half-' : ''}${gendered(sex, 'brother', 'sister', 'sibling')}`,
+		auntUncle: (generations, sex, half) => {
+			const prefix = generations === 1 ? '' : `${englishGreats(generations - 2)}grand`;
+			return `${half ? 'half-' : ''}${prefix}${gendered(sex, 'uncle', 'aunt', 'uncle or aunt')}`;
+		},
+		nieceNephew: (generations, sex, half) => {
+			const prefix = generations === 1 ? '' : `${englishGreats(generations - 2)}grand`;
+			return `${half ? 'half-' : ''}${prefix}${gendered(sex, 'nephew', 'niece', 'nephew or niece')}`;
+		},
+		cousin: (degree, removed, _olderGeneration, _sex, half) => {
+			const ordinal = ENGLISH_ORDINALS[degree - 1] || englishNumber(degree);
+			const times = removed === 1 ? 'once' : removed === 2 ? 'twice' : `${removed} times`;
+			const label = `${half ? 'half ' : ''}${ordinal} cousin`;
+			return removed > 0 ? `${label} ${times} removed` : label;
+		},
+		spouse: sex => gendered(sex, 'husband', 'wife', 'spouse'),
+		inLaw: (kind, sex) => {
+			const words = {
+				parent: gendered(sex, 'father', 'mother', 'parent'),
+				child: gendered(sex, 'son', 'daughter', 'child'),
+				sibling: gendered(sex, 'brother', 'sister', 'sibling'),
+			};
+			return `${words[kind]}-in-law`;
+		},
+		step: (kind, sex) => kind === 'parent'
+			? gendered(sex, 'stepfather', 'stepmother', 'step-parent')
+			: gendered(sex, 'stepson', 'stepdaughter', 'stepchild'),
+		byMarriage: label => `${label} by marriage`,
+	},
+	fr: {
+		self: 'même personne',
+		none: 'aucun lien de parenté',
+		ancestor: (generations, sex) => {
+			if (generations === 1) return gendered(sex, 'père', 'mère', 'père ou mère');
+			if (generations > 5) return `ancêtre à la ${generations}e génération`;
+			const prefix = frenchArriere(generations - 2);
+			return gendered(sex, `${prefix}grand-père`, `${prefix}grand-mère`, `${prefix}grand-parent`);
+		},
+		descendant: (generations, sex) => {
+			if (generations === 1) return gendered(sex, 'fils', 'fille', 'enfant');
+			if (generations > 5) return `${gendered(sex, 'descendant', 'descendante', 'descendant')} à la ${generations}e génération`;
+			const prefix = frenchArriere(generations - 2);
+			return gendered(sex, `${prefix}petit-fils`, `${prefix}petite-fille`, `${prefix}petit-enfant`);
+		},
+		sibling: (sex, half) => half
+			? gendered(sex, 'demi-frère', 'demi-sœur', 'demi-frère ou demi-sœur')
+			: gendered(sex, 'frère', 'sœur', 'frère ou sœur'),
+		auntUncle: (generations, sex, half) => {
+			const prefix = `${half ? 'demi-' : ''}${generations === 1 ? '' : `${frenchArriere(generations - 2)}grand-`}`;
+			return gendered(sex, `${prefix}oncle`, `${prefix}tante`, `${prefix}oncle ou ${prefix}tante`);
+		},
+		nieceNephew: (generations, sex, half) => {
+			const demi = half ? 'demi-' : '';
+			if (generations === 1) return gendered(sex, `${demi}neveu`, `${demi}nièce`, `${demi}neveu ou ${demi}nièce`);
+			const prefix = `${demi}${frenchArriere(generations - 2)}`;
+			return gendered(sex, `${prefix}petit-neveu`, `${prefix}petite-nièce`, `${prefix}petit-neveu ou ${prefix}petite-nièce`);
+		},
+		cousin: (degree, removed, olderGeneration, sex, half) => {
+			const demi = half ? 'demi-' : '';
+			if (degree === 1 && removed === 1) {
+				// Cousins germains d'une génération d'écart
+				return olderGeneration
+					? `${gendered(sex, `${demi}oncle`, `${demi}tante`, `${demi}oncle ou ${demi}tante`)} à la mode de Bretagne`
+					: `${gendered(sex, `${demi}neveu`, `${demi}nièce`, `${demi}neveu ou ${demi}nièce`)} à la mode de Bretagne`;
+			}
+			const male = degree === 1 ? 'cousin germain'
+				: degree === 2 ? 'cousin issu de germain'
+				: degree === 3 ? 'cousin issu d\'issu de germain'
+				: `cousin au ${degree}e degré`;
+			const female = degree === 1 ? 'cousine germaine'
+				: degree === 2 ? 'cousine issue de germain'
+				: degree === 3 ? 'cousine issue d\'issue de germain'
+				: `cousine au ${degree}e degré`;
+			const label = gendered(sex, `${demi}${male}`, `${demi}${female}`, `${demi}${male} ou ${demi}${female}`);
+			if (removed === 0) return label;
+			return `${label} (${removed} génération${removed > 1 ? 's' : ''} d'écart)`;
+		},
+		spouse: sex => gendered(sex, 'époux', 'épouse', 'conjoint'),
+		inLaw: (kind, sex) => {
+			if (kind === 'parent') return gendered(sex, 'beau-père', 'belle-mère', 'beau-parent');
+			if (kind === 'child') return gendered(sex, 'gendre', 'belle-fille', 'gendre ou belle-fille');
+			return gendered(sex, 'beau-frère', 'belle-sœur', 'beau-frère ou belle-sœur');
+		},
+		step: (kind, sex) => kind === 'parent'
+			? gendered(sex, 'beau-père', 'belle-mère', 'beau-parent')
+			: gendered(sex, 'beau-fils', 'belle-fille', 'beau-fils ou belle-fille'),
+		byMarriage: label => `${label} par alliance`,
+	},
+};
+
+export class GedcomRelationship {
+	/**
+	 * Describes how the second person is related to the first: by blood through their most recent
+	 * common ancestors, otherwise through one marriage (in-laws, step-relatives, "by marriage").
+	 */
+	static computeRelationship(parseResult: ParseResult, firstId: string, secondId: string, language: RelationshipLanguage, context: IExecuteFunctions): RelationshipResult {
+		const graph = GedcomRelationship.buildGraph(parseResult);
+		const from = GedcomParser.canonicalizeId(firstId);
+		const to = GedcomParser.canonicalizeId(secondId);
+		const relationshipLanguage: RelationshipLanguage = language === 'fr' ? 'fr' : 'en';
+		const labels = LABELS[relationshipLanguage];
+
+		for (const [id, original] of [[from, firstId], [to, secondId]]) {
+			if (!graph.persons.has(id)) {
+				throw new NodeOperationError(context.getNode(), `Person with ID '${original}' not found in GEDCOM data`);
+			}
+		}
+
+		const result: RelationshipResult = {
+			from,
+			to,
+			relationship: labels.none,
+			type: 'none',
+			language: relationshipLanguage,
+			commonAncestors: [],
+			path: [],
+		};
+		const sex = GedcomRelationship.sex(graph.persons.get(to)!);
+
+		if (from === to) {
+			return { ...result, relationship: labels.self, type: 'self', path: [GedcomRelationship.step(graph, from, 'self')] };
+		}
+
+		const blood = GedcomRelationship.bloodRelation(graph, from, to);
+		if (blood) {
+			const described = GedcomRelationship.describe(blood, sex, labels);
+			return GedcomRelationship.withBlood(result, blood, described.label, described.type, graph);
+		}
+
+		if (GedcomRelationship.spouses(graph, from).includes(to)) {
+			return {
+				...result,
+				relationship: labels.spouse(sex),
+				type: 'spouse',
+				path: [GedcomRelationship.step(graph, from, 'self'), GedcomRelationship.step(graph, to, 'spouse')],
+			};
+		}
+
+		return GedcomRelationship.marriageRelation(graph, from, to, sex, labels, result) || result;
+	}
+
+	/**
+	 * Relationships through one marriage: the second person is the spouse of a blood relative,
+	 * or a blood relative of a spouse. The closest candidate wins.
+	 */
+	private static marriageRelation(graph: FamilyGraph, from: string, to: string, sex: Sex, labels: RelationshipLabels, result: RelationshipResult): RelationshipResult | undefined {
+		let best: { result: RelationshipResult; distance: number } | undefined;
+
+		const consider = (blood: BloodRelation, label: string, type: RelationshipType, path: RelationshipStep[]) => {
+			const distance = blood.up + blood.down;
+			if (best && best.distance <= distance) return;
+			best = { result: { ...GedcomRelationship.withBlood(result, blood, label, type, graph), path }, distance };
+		};
+
+		// The second person is married to one of the first person's blood relatives
+		for (const spouse of GedcomRelationship.spouses(graph, to)) {
+			const blood = GedcomRelationship.bloodRelation(graph, from, spouse);
+			if (!blood) continue;
+
+			const path = [...blood.path, GedcomRelationship.step(graph, to, 'spouse')];
+			if (blood.up === 1 && blood.down === 0) {
+				consider(blood, labels.step('parent', sex), 'step', path);
+			} else if (blood.up === 0 && blood.down === 1) {
+				consider(blood, labels.inLaw('child', sex), 'in-law', path);
+			} else if (blood.up === 1 && blood.down === 1) {
+				consider(blood, labels.inLaw('sibling', sex), 'in-law', path);
+			} else {
+				consider(blood, labels.byMarriage(GedcomRelationship.describe(blood, sex, labels).label), 'by-marriage', path);
+			}
+		}
+
+		// The second person is a blood relative of one of the first person's spouses
+		for (const spouse of GedcomRelationship.spouses(graph, from)) {
+			const blood = GedcomRelationship.bloodRelation(graph, spouse, to);
+			if (!blood) continue;
+
+			const path = [
+				GedcomRelationship.step(graph, from, 'self'),
+				{ ...blood.path[0], relation: 'spouse' as const },
+				...blood.path.slice(1),
+			];
+			if (blood.up === 1 && blood.down === 0) {
+				consider(blood, labels.inLaw('parent', sex), 'in-law', path);
+			} else if (blood.up === 0 && blood.down === 1) {
+				consider(blood, labels.step('child', sex), 'step', path);
+			} else if (blood.up === 1 && blood.down === 1) {
+				consider(blood, labels.inLaw('sibling', sex), 'in-law', path);
+			} else {
+				consider(blood, labels.byMarriage(GedcomRelationship.describe(blood, sex, labels).label), 'by-marriage', path);
+			}
+		}
+
+		return best ? best.result : undefined;
+	}
+
+	private static withBlood(result: RelationshipResult, blood: BloodRelation, label: string, type: RelationshipType, graph: FamilyGraph): RelationshipResult {
+		const described: RelationshipResult = {
+			...result,
+			relationship: label,
+			type,
+			generationsFromFirst: blood.up,
+			generationsFromSecond: blood.down,
+			commonAncestors: blood.commonAncestors.map(id => ({ id, name: GedcomRelationship.personName(graph, id) })),
+			path: blood.path,
+		};
+
+		if (blood.up >= 2 && blood.down >= 2) {
+			described.cousinDegree = Math.min(blood.up, blood.down) - 1;
+			described.removed = Math.abs(blood.up - blood.down);
+		}
+		if (blood.up > 0 && blood.down > 0) {
+			described.half = blood.half;
+		}
+
+		return described;
+	}
+
+	private static describe(blood: BloodRelation, sex: Sex, labels: RelationshipLabels): { label: string; type: RelationshipType } {
+		const { up, down, half } = blood;
+
+		if (up === 0) return { label: labels.descendant(down, sex), type: 'descendant' };
+		if (down === 0) return { label: labels.ancestor(up, sex), type: 'ancestor' };
+		if (up === 1 && down === 1) return { label: labels.sibling(sex, half), type: 'sibling' };
+		if (up === 1) return { label: labels.nieceNephew(down - 1, sex, half), type: 'niece-nephew' };
+		if (down === 1) return { label: labels.auntUncle(up - 1, sex, half), type: 'aunt-uncle' };
+
+		return { label: labels.cousin(Math.min(up, down) - 1, Math.abs(up - down), down < up, sex, half), type: 'cousin' };
+	}
+
+	/**
+	 * Finds the most recent common ancestors (smallest total number of generations), and whether
+	 * the two lines descend from them through different families (half relationship).
+	 */
+	private static bloodRelation(graph: FamilyGraph, from: string, to: string): BloodRelation | undefined {
+		const fromAncestors = GedcomRelationship.ancestorLinks(graph, from);
+		const toAncestors = GedcomRelationship.ancestorLinks(graph, to);
+		let best: { id: string; up: number; down: number } | undefined;
+
+		for (const [id, link] of fromAncestors) {
+			const other = toAncestors.get(id);
+			if (!other) continue;
+			if (!best || link.distance + other.distance < best.up + best.down) {
+				best = { id, up: link.distance, down: other.distance };
+			}
+		}
+
+		if (!best) return undefined;
+		const { up, down } = best;
+
+		const commonAncestors = [...fromAncestors.keys()].filter(id => {
+			const other = toAncestors.get(id);
+			return other && other.distance === down && fromAncestors.get(id)!.distance === up;
+		});
+
+		const half = up > 0 && down > 0 && fromAncestors.get(best.id)!.family !== toAncestors.get(best.id)!.family;
+
+		// Path: up from the first person to the ancestor, then down to the second person
+		const path: RelationshipStep[] = [GedcomRelationship.step(graph, from, 'self')];
+		const upward: string[] = [];
+		for (let id: string | undefined = best.id; id && id !== from; id = fromAncestors.get(id)!.child) {
+			upward.unshift(id);
+		}
+		for (const id of upward) {
+			const family = graph.families.get(fromAncestors.get(id)!.family!);
+			const relation = family && family.husband === id ? 'father' : family && family.wife === id ? 'mother' : 'parent';
+			path.push(GedcomRelationship.step(graph, id, relation));
+		}
+		for (let id = toAncestors.get(best.id)!.child; id; id = toAncestors.get(id)!.child) {
+			path.push(GedcomRelationship.step(graph, id, 'child'));
+		}
+
+		return { up, down, half, commonAncestors, path };
+	}
+
+	/**
+	 * Breadth-first walk up the FAMC links, keeping the shortest link to every ancestor.
+	 */
+	private static ancestorLinks(graph: FamilyGraph, personId: string): Map<string, AncestorLink> {
+		const links = new Map<string, AncestorLink>([[personId, { distance: 0 }]]);
+		let generation = [personId];
+
+		while (generation.length > 0) {
+			const next: string[] = [];
+			for (const id of generation) {
+				const person = graph.persons.get(id);
+				if (!person) continue;
+
+				for (const familyId of person.famc) {
+					const family = graph.families.get(familyId);
+					if (!family) continue;
+
+					for (const parent of [family.husband, family.wife]) {
+						if (parent && !links.has(parent)) {
+							links.set(parent, { distance: links.get(id)!.distance + 1, child: id, family: familyId });
+							next.push(parent);
+						}
+					}
+				}
+			}
+			generation = next;
+		}
+
+		return links;
+	}
+
+	private static spouses(graph: FamilyGraph, personId: string): string[] {
+		const person = graph.persons.get(personId);
+		if (!person) return [];
+
+		const spouses: string[] = [];
+		for (const familyId of person.fams) {
+			const family = graph.families.get(familyId);
+			if (!family) continue;
+			const spouse = family.husband === personId ? family.wife : family.husband;
+			if (spouse && spouse !== personId && graph.persons.has(spouse)) spouses.push(spouse);
+		}
+		return spouses;
+	}
+
+	private static buildGraph(parseResult: ParseResult): FamilyGraph {
+		return {
+			persons: new Map(parseResult.persons.map(person => [person.id, person])),
+			families: new Map(parseResult.families.map(family => [family.id, family])),
+		};
+	}
+
+	private static step(graph: FamilyGraph, id: string, relation: RelationshipStep['relation']): RelationshipStep {
+		return { id, name: GedcomRelationship.personName(graph, id), relation };
+	}
+
+	private static personName(graph: FamilyGraph, id: string): string {
+		const person = graph.persons.get(id);
+		return person ? person.name : '';
+	}
+
+	private static sex(person: ParsedPerson): Sex {
+		const sex = (person.sex || '').toUpperCase();
+		if (sex === 'M') return 'male';
+		if (sex === 'F') return 'female';
+		return 'unknown';
+	}
+}
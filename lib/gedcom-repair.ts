@@ -0,0 +1,237 @@
+import { ParseResult, ParsedPerson, ParsedFamily, ParsedEvent, GedcomNode, RepairFix, RepairChange, RepairResult } from './gedcom-types';
+
+export const REPAIR_FIXES: RepairFix[] = ['dedupe-pointers', 'remove-dangling', 'restore-links', 'remove-empty-families'];
+
+type LinkedRecord = { id: string; events: ParsedEvent[]; notes?: string[]; noteDetails?: GedcomNode[][]; media?: string[]; citations?: Array<{ source: string }> };
+
+export class GedcomRepair {
+	/**
+	 * Applies the requested fixes to a copy of the data, in a fixed order: duplicate pointers first,
+	 * then pointers to missing records, one-sided links and finally families left empty.
+	 */
+	static repair(data: ParseResult, fixes: RepairFix[] = REPAIR_FIXES): RepairResult {
+		const repaired = JSON.parse(JSON.stringify(data)) as ParseResult;
+		const changes: RepairChange[] = [];
+
+		if (fixes.includes('dedupe-pointers')) GedcomRepair.dedupePointers(repaired, changes);
+		if (fixes.includes('remove-dangling')) GedcomRepair.removeDanglingPointers(repaired, changes);
+		if (fixes.includes('restore-links')) GedcomRepair.restoreLinks(repaired, changes);
+		if (fixes.includes('remove-empty-families')) GedcomRepair.removeEmptyFamilies(repaired, changes);
+
+		repaired.meta.individuals = repaired.persons.length;
+		repaired.meta.families = repaired.families.length;
+
+		return { data: repaired, changes };
+	}
+
+	private static dedupePointers(data: ParseResult, changes: RepairChange[]): void {
+		const dedupe = (recordId: string, pointers: string[], tag: string): string[] => {
+			const unique = Array.from(new Set(pointers));
+			for (const pointer of unique) {
+				const count = pointers.filter(value => value === pointer).length;
+				if (count > 1) {
+					changes.push({
+						fix: 'dedupe-pointers',
+						records: [recordId, pointer],
+						message: `Removed ${count - 1} repeated ${tag} ${pointer} from ${recordId}`,
+					});
+				}
+			}
+			return unique;
+		};
+
+		for (const person of data.persons) {
+			person.famc = dedupe(person.id, person.famc, 'FAMC');
+			person.fams = dedupe(person.id, person.fams, 'FAMS');
+		}
+		for (const family of data.families) {
+			family.children = dedupe(family.id, family.children, 'CHIL');
+		}
+	}
+
+	private static removeDanglingPointers(data: ParseResult, changes: RepairChange[]): void {
+		const personIds = new Set(data.persons.map(person => person.id));
+		const familyIds = new Set(data.families.map(family => family.id));
+		const noteIds = new Set((data.notes || []).map(note => note.id));
+		const sourceIds = new Set((data.sources || []).map(source => source.id));
+		const mediaIds = new Set((data.media || []).map(media => media.id));
+
+		const keep = (recordId: string, pointer: string, known: Set<string>, tag: string): boolean => {
+			if (!GedcomRepair.isPointer(pointer) || known.has(pointer)) return true;
+			changes.push({
+				fix: 'remove-dangling',
+				records: [recordId, pointer],
+				message: `Removed ${tag} ${pointer} from ${recordId}: the record does not exist`,
+			});
+			return false;
+		};
+
+		// Drops the note pointers to missing records, along with their substructures
+		const removeNotes = (recordId: string, target: { notes?: string[]; noteDetails?: GedcomNode[][] }, tag: string) => {
+			const kept = (target.notes || []).map(note => keep(recordId, note, noteIds, tag));
+			if (target.noteDetails) target.noteDetails = target.noteDetails.filter((_, index) => kept[index]);
+			if (target.notes) target.notes = target.notes.filter((_, index) => kept[index]);
+		};
+
+		const removeRecordPointers = (record: LinkedRecord) => {
+			removeNotes(record.id, record, 'NOTE');
+			if (record.media) record.media = record.media.filter(media => keep(record.id, media, mediaIds, 'OBJE'));
+			if (record.citations) record.citations = record.citations.filter(citation => keep(record.id, citation.source, sourceIds, 'SOUR'));
+
+			for (const event of record.events) {
+				event.notes = event.notes || [];
+				removeNotes(record.id, event, `${event.type} NOTE`);
+				// Event sources list the cited sources again, so a citation is only reported once
+				if (event.citations) {
+					event.citations = event.citations.filter(citation => keep(record.id, citation.source, sourceIds, `${event.type} SOUR`));
+					event.sources = (event.sources || []).filter(source => !GedcomRepair.isPointer(source) || sourceIds.has(source));
+				} else {
+					event.sources = (event.sources || []).filter(source => keep(record.id, source, sourceIds, `${event.type} SOUR`));
+				}
+			}
+		};
+
+		for (const person of data.persons) {
+			person.famc = person.famc.filter(familyId => keep(person.id, familyId, familyIds, 'FAMC'));
+			person.fams = person.fams.filter(familyId => keep(person.id, familyId, familyIds, 'FAMS'));
+			for (const details of [person.famcDetails, person.famsDetails]) {
+				for (const familyId of Object.keys(details || {})) {
+					if (!familyIds.has(familyId)) delete (details as Record<string, GedcomNode[]>)[familyId];
+				}
+			}
+			removeRecordPointers(person);
+		}
+
+		for (const family of data.families) {
+			if (family.husband && !keep(family.id, family.husband, personIds, 'HUSB')) delete family.husband;
+			if (family.wife && !keep(family.id, family.wife, personIds, 'WIFE')) delete family.wife;
+			family.children = family.children.filter(childId => keep(family.id, childId, personIds, 'CHIL'));
+			removeRecordPointers(family);
+		}
+	}
+
+	/**
+	 * Adds the missing side of FAMC/CHIL and FAMS/HUSB/WIFE links. A FAMS is only restored when the
+	 * family has a free spouse slot, chosen by the person's sex when it is known; otherwise it is removed.
+	 */
+	private static restoreLinks(data: ParseResult, changes: RepairChange[]): void {
+		const personMap = new Map<string, ParsedPerson>(data.persons.map(person => [person.id, person]));
+		const familyMap = new Map<string, ParsedFamily>(data.families.map(family => [family.id, family]));
+
+		for (const person of data.persons) {
+			for (const familyId of person.famc) {
+				const family = familyMap.get(familyId);
+				if (family && !family.children.includes(person.id)) {
+					family.children.push(person.id);
+					changes.push({
+						fix: 'restore-links',
+						records: [familyId, person.id],
+						message: `Added CHIL ${person.id} to ${familyId} to match the FAMC of ${person.id}`,
+					});
+				}
+			}
+
+			for (const familyId of person.fams) {
+				const family = familyMap.get(familyId);
+				if (!family || family.husband === person.id || family.wife === person.id) continue;
+
+				const slot = GedcomRepair.spouseSlot(person, family);
+				if (slot) {
+					family[slot] = person.id;
+					changes.push({
+						fix: 'restore-links',
+						records: [familyId, person.id],
+						message: `Set ${slot === 'husband' ? 'HUSB' : 'WIFE'} of ${familyId} to ${person.id} to match the FAMS of ${person.id}`,
+					});
+				} else {
+					const taken = [
+						person.sex !== 'F' && family.husband ? `HUSB ${family.husband}` : '',
+						person.sex !== 'M' && family.wife ? `WIFE ${family.wife}` : '',
+					].filter(Boolean).join(' and ');
+					person.fams = person.fams.filter(id => id !== familyId);
+					if (person.famsDetails) delete person.famsDetails[familyId];
+					changes.push({
+						fix: 'restore-links',
+						records: [person.id, familyId],
+						message: `Removed FAMS ${familyId} from ${person.id}, since ${familyId} already has ${taken}`,
+					});
+				}
+			}
+		}
+
+		for (const family of data.families) {
+			for (const childId of family.children) {
+				const child = personMap.get(childId);
+				if (child && !child.famc.includes(family.id)) {
+					child.famc.push(family.id);
+					changes.push({
+						fix: 'restore-links',
+						records: [childId, family.id],
+						message: `Added FAMC ${family.id} to ${childId} to match the CHIL of ${family.id}`,
+					});
+				}
+			}
+
+			for (const spouseId of [family.husband, family.wife]) {
+				const spouse = spouseId ? personMap.get(spouseId) : undefined;
+				if (spouse && !spouse.fams.includes(family.id)) {
+					spouse.fams.push(family.id);
+					changes.push({
+						fix: 'restore-links',
+						records: [spouse.id, family.id],
+						message: `Added FAMS ${family.id} to ${spouse.id} to match the ${family.husband === spouse.id ? 'HUSB' : 'WIFE'} of ${family.id}`,
+					});
+				}
+			}
+		}
+	}
+
+	/**
+	 * Deletes families without husband, wife or children, and the FAMC/FAMS pointers to them
+	 * along with their substructures.
+	 */
+	private static removeEmptyFamilies(data: ParseResult, changes: RepairChange[]): void {
+		const emptyIds = new Set(data.families
+			.filter(family => !family.husband && !family.wife && family.children.length === 0)
+			.map(family => family.id));
+		if (emptyIds.size === 0) return;
+
+		data.families = data.families.filter(family => !emptyIds.has(family.id));
+		for (const familyId of emptyIds) {
+			changes.push({
+				fix: 'remove-empty-families',
+				records: [familyId],
+				message: `Deleted family ${familyId}, which has no husband, wife or children`,
+			});
+		}
+
+		const keep = (person: ParsedPerson, familyId: string, tag: 'FAMC' | 'FAMS'): boolean => {
+			if (!emptyIds.has(familyId)) return true;
+			const details = tag === 'FAMC' ? person.famcDetails : person.famsDetails;
+			if (details) delete details[familyId];
+			changes.push({
+				fix: 'remove-empty-families',
+				records: [person.id, familyId],
+				message: `Removed ${tag} ${familyId} from ${person.id}: the family was deleted`,
+			});
+			return false;
+		};
+
+		for (const person of data.persons) {
+			person.famc = person.famc.filter(familyId => keep(person, familyId, 'FAMC'));
+			person.fams = person.fams.filter(familyId => keep(person, familyId, 'FAMS'));
+		}
+	}
+
+	private static spouseSlot(person: ParsedPerson, family: ParsedFamily): 'husband' | 'wife' | undefined {
+		if (person.sex === 'M') return family.husband ? undefined : 'husband';
+		if (person.sex === 'F') return family.wife ? undefined : 'wife';
+		if (!family.husband) return 'husband';
+		if (!family.wife) return 'wife';
+		return undefined;
+	}
+
+	private static isPointer(value: string): boolean {
+		return /^@[^@\s]+@$/.test(value);
+	}
+}
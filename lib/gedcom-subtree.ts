@@ -0,0 +1,203 @@
+import { IExecuteFunctions, NodeOperationError } from 'n8n-workflow';
+import { ParseResult, ParsedPerson, ParsedFamily, ParsedEvent, GedcomNode, SubtreeMode } from './gedcom-types';
+import { GedcomParser } from './gedcom-parser';
+
+const POINTER = /^@[^@\s]+@$/;
+
+export class GedcomSubtree {
+	/**
+	 * Copies the persons around a root person into a self-contained parse result:
+	 * - `ancestors`: parents, grandparents… up to `depth` generations
+	 * - `descendants`: children, grandchildren… down to `depth` generations, with their spouses
+	 * - `both`: ancestors and descendants
+	 * - `relatives`: everyone reachable in at most `depth` parent, child or spouse links
+	 *
+	 * Families are kept when at least two of their members are, and trimmed to them. Links to
+	 * persons and families left out are removed; the notes, sources, repositories, media and other
+	 * records still referenced are kept.
+	 */
+	static extract(data: ParseResult, rootId: string, mode: SubtreeMode, depth: number, context: IExecuteFunctions): ParseResult {
+		const canonicalRootId = GedcomParser.canonicalizeId(rootId);
+		const personMap = new Map<string, ParsedPerson>(data.persons.map(person => [person.id, person]));
+		const familyMap = new Map<string, ParsedFamily>(data.families.map(family => [family.id, family]));
+
+		if (!personMap.has(canonicalRootId)) {
+			throw new NodeOperationError(context.getNode(), `Root person with ID '${rootId}' not found in GEDCOM data`);
+		}
+
+		const parents = (person: ParsedPerson) => person.famc
+			.map(familyId => familyMap.get(familyId))
+			.flatMap(family => (family ? [family.husband, family.wife] : []))
+			.filter((id): id is string => !!id);
+		const children = (person: ParsedPerson) => person.fams
+			.flatMap(familyId => (familyMap.get(familyId) || { children: [] as string[] }).children);
+		const spouses = (person: ParsedPerson) => person.fams
+			.map(familyId => familyMap.get(familyId))
+			.flatMap(family => (family ? [family.husband, family.wife] : []))
+			.filter((id): id is string => !!id && id !== person.id);
+
+		const selected = new Set<string>();
+		if (mode === 'ancestors' || mode === 'both') {
+			GedcomSubtree.walk(canonicalRootId, depth, personMap, parents).forEach(id => selected.add(id));
+		}
+		if (mode === 'descendants' || mode === 'both') {
+			for (const id of GedcomSubtree.walk(canonicalRootId, depth, personMap, children)) {
+				selected.add(id);
+				spouses(personMap.get(id) as ParsedPerson).forEach(spouseId => selected.add(spouseId));
+			}
+		}
+		if (mode === 'relatives') {
+			const relatives = (person: ParsedPerson) => [...parents(person), ...children(person), ...spouses(person)];
+			GedcomSubtree.walk(canonicalRootId, depth, personMap, relatives).forEach(id => selected.add(id));
+		}
+
+		return GedcomSubtree.subset(data, selected);
+	}
+
+	/**
+	 * IDs reached from the root in at most `depth` steps, the root included.
+	 */
+	private static walk(rootId: string, depth: number, personMap: Map<string, ParsedPerson>, next: (person: ParsedPerson) => string[]): string[] {
+		const reached = new Set<string>([rootId]);
+		let frontier = [rootId];
+
+		for (let step = 0; step < depth && frontier.length > 0; step++) {
+			const following: string[] = [];
+			for (const id of frontier) {
+				const person = personMap.get(id);
+				if (!person) continue;
+				for (const nextId of next(person)) {
+					if (!reached.has(nextId) && personMap.has(nextId)) {
+						reached.add(nextId);
+						following.push(nextId);
+					}
+				}
+			}
+			frontier = following;
+		}
+
+		return Array.from(reached);
+	}
+
+	/**
+	 * Copies the given persons, the families with at least `minMembers` of them, and the records
+	 * they reference, removing every link to the persons and families left out.
+	 */
+	static subset(data: ParseResult, personIds: Set<string>, minMembers = 2): ParseResult {
+		const copy = JSON.parse(JSON.stringify(data)) as ParseResult;
+
+		const families = copy.families.filter(family => {
+			const members = [family.husband, family.wife, ...family.children].filter(id => id && personIds.has(id));
+			return members.length >= minMembers;
+		});
+		const familyIds = new Set(families.map(family => family.id));
+		const persons = copy.persons.filter(person => personIds.has(person.id));
+
+		// Pointers to the persons and families left out, wherever they appear
+		const removed = new Set([
+			...copy.persons.filter(person => !personIds.has(person.id)).map(person => person.id),
+			...copy.families.filter(family => !familyIds.has(family.id)).map(family => family.id),
+		]);
+
+		for (const family of families) {
+			if (family.husband && removed.has(family.husband)) delete family.husband;
+			if (family.wife && removed.has(family.wife)) delete family.wife;
+			family.children = family.children.filter(id => !removed.has(id));
+			GedcomSubtree.pruneDetails(family.spouseDetails, removed);
+			GedcomSubtree.pruneDetails(family.childDetails, removed);
+			GedcomSubtree.pruneRecord(family, removed);
+		}
+		for (const person of persons) {
+			person.famc = person.famc.filter(id => !removed.has(id));
+			person.fams = person.fams.filter(id => !removed.has(id));
+			GedcomSubtree.pruneDetails(person.famcDetails, removed);
+			GedcomSubtree.pruneDetails(person.famsDetails, removed);
+			GedcomSubtree.pruneRecord(person, removed);
+		}
+
+		const result: ParseResult = {
+			...copy,
+			meta: { ...copy.meta, individuals: persons.length, families: families.length },
+			persons,
+			families,
+		};
+		GedcomSubtree.keepReferencedRecords(result, copy);
+		return result;
+	}
+
+	/**
+	 * Drops the substructures of links to the persons and families left out.
+	 */
+	private static pruneDetails(details: Record<string, GedcomNode[]> | undefined, removed: Set<string>): void {
+		for (const id of Object.keys(details || {})) {
+			if (removed.has(id)) delete (details as Record<string, GedcomNode[]>)[id];
+		}
+	}
+
+	private static pruneRecord(record: { events: ParsedEvent[]; noteDetails?: GedcomNode[][]; extensions?: GedcomNode[] }, removed: Set<string>): void {
+		if (record.extensions) record.extensions = GedcomSubtree.pruneNodes(record.extensions, removed);
+		if (record.noteDetails) record.noteDetails = record.noteDetails.map(nodes => GedcomSubtree.pruneNodes(nodes, removed));
+		for (const event of record.events) {
+			if (event.extensions) event.extensions = GedcomSubtree.pruneNodes(event.extensions, removed);
+			if (event.noteDetails) event.noteDetails = event.noteDetails.map(nodes => GedcomSubtree.pruneNodes(nodes, removed));
+		}
+	}
+
+	/**
+	 * Drops extension structures pointing to removed records, such as ASSO or ALIA.
+	 */
+	private static pruneNodes(nodes: GedcomNode[], removed: Set<string>): GedcomNode[] {
+		return nodes
+			.filter(node => !removed.has(node.pointer || '') && !removed.has(node.value || ''))
+			.map(node => ({ ...node, children: GedcomSubtree.pruneNodes(node.children, removed) }));
+	}
+
+	/**
+	 * Keeps the notes, sources, repositories, media and other records referenced from the kept
+	 * persons, families and header, and from the records kept in turn.
+	 */
+	private static keepReferencedRecords(result: ParseResult, original: ParseResult): void {
+		const lists = ['notes', 'sources', 'repositories', 'media'] as const;
+		const recordMap = new Map<string, unknown>();
+		for (const list of lists) {
+			for (const record of original[list] || []) recordMap.set(record.id, record);
+		}
+		for (const node of original.records || []) {
+			if (node.xref) recordMap.set(node.xref, node);
+		}
+
+		const referenced = new Set<string>();
+		let pending: unknown[] = [result.persons, result.families, result.meta.headerExtensions];
+
+		while (pending.length > 0) {
+			const found = new Set<string>();
+			GedcomSubtree.collectPointers(pending, found);
+			pending = [];
+
+			for (const id of found) {
+				if (referenced.has(id)) continue;
+				referenced.add(id);
+				if (recordMap.has(id)) pending.push(recordMap.get(id));
+			}
+		}
+
+		for (const list of lists) {
+			if (original[list]) {
+				(result as unknown as Record<string, unknown[]>)[list] = (original[list] as Array<{ id: string }>).filter(record => referenced.has(record.id));
+			}
+		}
+		if (original.records) {
+			result.records = original.records.filter(node => !node.xref || referenced.has(node.xref));
+		}
+	}
+
+	private static collectPointers(value: unknown, found: Set<string>): void {
+		if (typeof value === 'string') {
+			if (POINTER.test(value)) found.add(value);
+		} else if (Array.isArray(value)) {
+			value.forEach(item => GedcomSubtree.collectPointers(item, found));
+		} else if (value && typeof value === 'object') {
+			Object.values(value).forEach(item => GedcomSubtree.collectPointers(item, found));
+		}
+	}
+}
@@ -0,0 +1,255 @@
+import { ParseResult, ParsedPerson, ParsedFamily, ParsedEvent, TableName, TableCell, TableSheet } from './gedcom-types';
+import { GedcomAncestry } from './gedcom-ancestry';
+import { GedcomDateParser } from './gedcom-date-parser';
+import { GedcomZip } from './gedcom-zip';
+
+type TableContext = {
+	personMap: Map<string, ParsedPerson>;
+	familyMap: Map<string, ParsedFamily>;
+};
+
+type EventRow = {
+	event: ParsedEvent;
+	recordId: string;
+	recordType: 'person' | 'family';
+	name: string;
+};
+
+type ColumnGetters<T> = Record<string, (record: T, context: TableContext) => TableCell>;
+
+function eventOf(events: ParsedEvent[], type: string): ParsedEvent | undefined {
+	return events.find(event => event.type === type);
+}
+
+function personName(id: string | undefined, context: TableContext): string {
+	const person = id ? context.personMap.get(id) : undefined;
+	return person ? person.name : '';
+}
+
+function parentId(person: ParsedPerson, slot: 'husband' | 'wife', context: TableContext): string {
+	const family = GedcomAncestry.birthFamily(person, context.familyMap);
+	return (family && family[slot]) || '';
+}
+
+function spouseFamilies(person: ParsedPerson, context: TableContext): ParsedFamily[] {
+	return person.fams
+		.map(id => context.familyMap.get(id))
+		.filter((family): family is ParsedFamily => family !== undefined);
+}
+
+function coupleName(family: ParsedFamily, context: TableContext): string {
+	return [family.husband, family.wife]
+		.map(id => personName(id, context))
+		.filter(name => name)
+		.join(' & ');
+}
+
+/**
+ * Age at death in completed years, as a range ("69-70") when the dates are not precise enough.
+ */
+function ageAtDeath(person: ParsedPerson): TableCell {
+	if (!person.birthDate || !person.deathDate) return '';
+	const birth = GedcomDateParser.toRange(GedcomDateParser.parse(person.birthDate));
+	const death = GedcomDateParser.toRange(GedcomDateParser.parse(person.deathDate));
+	if (!birth || !death) return '';
+
+	const youngest = Math.floor((death.min - birth.max) / 10000);
+	const oldest = Math.floor((death.max - birth.min) / 10000);
+	if (!Number.isFinite(youngest) || !Number.isFinite(oldest) || oldest < 0) return '';
+	return youngest === oldest ? youngest : `${Math.max(0, youngest)}-${oldest}`;
+}
+
+const PERSON_COLUMNS: ColumnGetters<ParsedPerson> = {
+	id: person => person.id,
+	name: person => person.name,
+	firstName: person => person.firstName || '',
+	lastName: person => person.lastName || '',
+	sex: person => person.sex || '',
+	birthDate: person => person.birthDate,
+	birthPlace: person => (eventOf(person.events, 'BIRT') || { place: '' }).place,
+	deathDate: person => person.deathDate,
+	deathPlace: person => (eventOf(person.events, 'DEAT') || { place: '' }).place,
+	ageAtDeath: person => ageAtDeath(person),
+	fatherId: (person, context) => parentId(person, 'husband', context),
+	fatherName: (person, context) => personName(parentId(person, 'husband', context), context),
+	motherId: (person, context) => parentId(person, 'wife', context),
+	motherName: (person, context) => personName(parentId(person, 'wife', context), context),
+	spouseNames: (person, context) => spouseFamilies(person, context)
+		.map(family => personName(family.husband === person.id ? family.wife : family.husband, context))
+		.filter(name => name)
+		.join('; '),
+	childCount: (person, context) => new Set(spouseFamilies(person, context).flatMap(family => family.children)).size,
+};
+
+const FAMILY_COLUMNS: ColumnGetters<ParsedFamily> = {
+	id: family => family.id,
+	husbandId: family => family.husband || '',
+	husbandName: (family, context) => personName(family.husband, context),
+	wifeId: family => family.wife || '',
+	wifeName: (family, context) => personName(family.wife, context),
+	marriageDate: family => (eventOf(family.events, 'MARR') || { date: '' }).date,
+	marriagePlace: family => (eventOf(family.events, 'MARR') || { place: '' }).place,
+	divorceDate: family => (eventOf(family.events, 'DIV') || { date: '' }).date,
+	childCount: family => family.children.length,
+	childNames: (family, context) => family.children.map(id => personName(id, context)).filter(name => name).join('; '),
+};
+
+const EVENT_COLUMNS: ColumnGetters<EventRow> = {
+	recordId: row => row.recordId,
+	recordType: row => row.recordType,
+	name: row => row.name,
+	type: row => row.event.type,
+	value: row => row.event.value || row.event.eventType || '',
+	date: row => row.event.date,
+	place: row => row.event.place,
+	age: row => row.event.age || '',
+	cause: row => row.event.cause || '',
+};
+
+export const TABLE_COLUMNS: Record<TableName, string[]> = {
+	persons: Object.keys(PERSON_COLUMNS),
+	families: Object.keys(FAMILY_COLUMNS),
+	events: Object.keys(EVENT_COLUMNS),
+};
+
+const SHEET_TITLES: Record<TableName, string> = {
+	persons: 'Persons',
+	families: 'Families',
+	events: 'Events',
+};
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+export class GedcomTable {
+	/**
+	 * Flattens the parsed data into one sheet per table, with the columns asked for in their
+	 * given order. Unknown column names are ignored; no columns means all of them.
+	 */
+	static sheets(data: ParseResult, tables: TableName[], columns: Partial<Record<TableName, string[]>> = {}): TableSheet[] {
+		const context: TableContext = {
+			personMap: new Map(data.persons.map(person => [person.id, person])),
+			familyMap: new Map(data.families.map(family => [family.id, family])),
+		};
+
+		const eventRows: EventRow[] = [
+			...data.persons.flatMap(person => person.events.map(event => ({
+				event, recordId: person.id, recordType: 'person' as const, name: person.name,
+			}))),
+			...data.families.flatMap(family => family.events.map(event => ({
+				event, recordId: family.id, recordType: 'family' as const, name: coupleName(family, context),
+			}))),
+		];
+
+		return tables.map(table => {
+			switch (table) {
+				case 'persons':
+					return GedcomTable.sheet(table, PERSON_COLUMNS, columns.persons, data.persons, context);
+				case 'families':
+					return GedcomTable.sheet(table, FAMILY_COLUMNS, columns.families, data.families, context);
+				case 'events':
+					return GedcomTable.sheet(table, EVENT_COLUMNS, columns.events, eventRows, context);
+			}
+		});
+	}
+
+	/**
+	 * RFC 4180 CSV with CRLF line endings and a UTF-8 BOM, so spreadsheets detect the encoding.
+	 */
+	static toCsv(sheet: TableSheet, delimiter = ','): Buffer {
+		const escape = (cell: TableCell) => {
+			const text = String(cell);
+			return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+		};
+		const lines = [sheet.columns, ...sheet.rows].map(row => row.map(escape).join(delimiter));
+		return Buffer.concat([Buffer.from([0xEF, 0xBB, 0xBF]), Buffer.from(`${lines.join('\r\n')}\r\n`, 'utf8')]);
+	}
+
+	/**
+	 * A minimal Office Open XML workbook: one worksheet per sheet, strings written inline.
+	 */
+	static toXlsx(sheets: TableSheet[]): Buffer {
+		const worksheets = sheets.map((sheet, index) => ({
+			name: `xl/worksheets/sheet${index + 1}.xml`,
+			data: Buffer.from(GedcomTable.worksheetXml(sheet), 'utf8'),
+		}));
+
+		const contentTypes = XML_HEADER
+			+ '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+			+ '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+			+ '<Default Extension="xml" ContentType="application/xml"/>'
+			+ '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+			+ worksheets.map(worksheet => `<Override PartName="/${worksheet.name}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+			+ '</Types>';
+		const rootRelationships = XML_HEADER
+			+ `<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">`
+			+ `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/>`
+			+ '</Relationships>';
+		const workbook = XML_HEADER
+			+ `<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}"><sheets>`
+			+ sheets.map((sheet, index) => `<sheet name="${SHEET_TITLES[sheet.name]}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('')
+			+ '</sheets></workbook>';
+		const workbookRelationships = XML_HEADER
+			+ `<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">`
+			+ sheets.map((_, index) => `<Relationship Id="rId${index + 1}" Type="${RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`).join('')
+			+ '</Relationships>';
+
+		return GedcomZip.write([
+			{ name: '[Content_Types].xml', data: Buffer.from(contentTypes, 'utf8') },
+			{ name: '_rels/.rels', data: Buffer.from(rootRelationships, 'utf8') },
+			{ name: 'xl/workbook.xml', data: Buffer.from(workbook, 'utf8') },
+			{ name: 'xl/_rels/workbook.xml.rels', data: Buffer.from(workbookRelationships, 'utf8') },
+			...worksheets,
+		]);
+	}
+
+	private static sheet<T>(name: TableName, getters: ColumnGetters<T>, requested: string[] | undefined, records: T[], context: TableContext): TableSheet {
+		const known = (requested || []).filter(column => getters[column]);
+		const columns = known.length > 0 ? known : Object.keys(getters);
+		return {
+			name,
+			columns,
+			rows: records.map(record => columns.map(column => getters[column](record, context))),
+		};
+	}
+
+	private static worksheetXml(sheet: TableSheet): string {
+		const rows = [sheet.columns, ...sheet.rows].map((row, rowIndex) => {
+			const cells = row.map((cell, columnIndex) => {
+				const reference = `${GedcomTable.columnLetters(columnIndex)}${rowIndex + 1}`;
+				if (typeof cell === 'number') return `<c r="${reference}"><v>${cell}</v></c>`;
+				if (cell === '') return '';
+				const space = cell.trim() === cell ? '' : ' xml:space="preserve"';
+				return `<c r="${reference}" t="inlineStr"><is><t${space}>${GedcomTable.escapeXml(cell)}</t></is></c>`;
+			});
+			return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+		});
+		return `${XML_HEADER}<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>${rows.join('')}</sheetData></worksheet>`;
+	}
+
+	/**
+	 * Spreadsheet column name of a zero-based index: A…Z, AA, AB…
+	 */
+	private static columnLetters(index: number): string {
+		let letters = '';
+		for (let value = index + 1; value > 0; value = Math.floor((value - 1) / 26)) {
+			letters = String.fromCharCode(65 + ((value - 1) % 26)) + letters;
+		}
+		return letters;
+	}
+
+	/**
+	 * Escapes XML markup and drops the control characters XML 1.0 cannot hold.
+	 */
+	static escapeXml(text: string): string {
+		return Array.from(text)
+			.filter(char => char >= ' ' || char === '\t' || char === '\n' || char === '\r')
+			.join('')
+			.replace(/&/g, '&amp;')
+			.replace(/</g, '&lt;')
+			.replace(/>/g, '&gt;')
+			.replace(/"/g, '&quot;');
+	}
+}
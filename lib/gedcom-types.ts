@@ -1,12 +1,116 @@
+export type IndividualEventType = 'BIRT' | 'CHR' | 'BAPM' | 'DEAT' | 'BURI' | 'CREM' | 'RESI' | 'OCCU' | 'EDUC' | 'EMIG' | 'IMMI' | 'EVEN';
+
+export type FamilyEventType = 'MARR' | 'DIV' | 'ENGA' | 'RESI' | 'EVEN';
+
+export type GedcomEventType = IndividualEventType | FamilyEventType;
+
+export type DateCalendar = 'gregorian' | 'julian' | 'hebrew' | 'french' | 'roman' | 'unknown';
+
+export type DateQualifier = 'exact' | 'about' | 'calculated' | 'estimated' | 'before' | 'after' | 'between' | 'from' | 'to' | 'period' | 'interpreted' | 'phrase';
+
+export type DatePrecision = 'day' | 'month' | 'year' | 'unknown';
+
+export interface DatePoint {
+	calendar: DateCalendar;
+	year: number;
+	month?: number;
+	day?: number;
+	dualYear?: number;
+	iso?: string;
+	sortKey?: number;
+}
+
+export interface ParsedDate {
+	raw: string;
+	qualifier: DateQualifier;
+	calendar: DateCalendar;
+	precision: DatePrecision;
+	start?: DatePoint;
+	end?: DatePoint;
+	iso?: string;
+	sortKey?: number;
+	phrase?: string;
+	valid: boolean;
+}
+
+/**
+ * A GEDCOM line and its substructures, kept as-is for tags the parser does not interpret.
+ */
+export interface GedcomNode {
+	tag: string;
+	xref?: string;
+	pointer?: string;
+	value?: string;
+	children: GedcomNode[];
+}
+
+/**
+ * A SOUR citation: a pointer to a source record, or the source text itself in GEDCOM 5.5.1.
+ */
+export interface ParsedCitation {
+	source: string;
+	page?: string;
+	quality?: string;
+	date?: string;
+	text?: string[];
+	notes?: string[];
+	noteDetails?: GedcomNode[][];
+	extensions?: GedcomNode[];
+}
+
+export interface ParsedEvent {
+	type: GedcomEventType;
+	value?: string;
+	eventType?: string;
+	date: string;
+	parsedDate?: ParsedDate;
+	place: string;
+	placeDetails?: GedcomNode[];
+	age?: string;
+	cause?: string;
+	notes: string[];
+	noteDetails?: GedcomNode[][];
+	sources: string[];
+	citations?: ParsedCitation[];
+	extensions?: GedcomNode[];
+}
+
+export interface ParsedTranslation {
+	value: string;
+	lang?: string;
+	mime?: string;
+}
+
+export interface ParsedNote {
+	id: string;
+	text: string;
+	translations?: ParsedTranslation[];
+	extensions?: GedcomNode[];
+}
+
 export interface ParsedPerson {
 	id: string;
 	name: string;
+	rawName?: string;
 	firstName?: string;
 	lastName?: string;
+	nameDetails?: GedcomNode[];
+	nameTranslations?: ParsedTranslation[];
+	sex?: string;
 	birthDate: string;
 	deathDate: string;
+	events: ParsedEvent[];
 	famc: string[];
+	famcDetails?: Record<string, GedcomNode[]>;
 	fams: string[];
+	famsDetails?: Record<string, GedcomNode[]>;
+	media?: string[];
+	mediaDetails?: Record<string, GedcomNode[]>;
+	notes?: string[];
+	// Substructures of each note (e.g. SOUR), in the order of notes
+	noteDetails?: GedcomNode[][];
+	citations?: ParsedCitation[];
+	extensions?: GedcomNode[];
 }
 
 export interface ParsedFamily {
@@ -14,29 +118,263 @@ export interface ParsedFamily {
 	husband?: string;
 	wife?: string;
 	children: string[];
+	// Substructures of the HUSB and WIFE links (e.g. AGE), keyed by the spouse's ID
+	spouseDetails?: Record<string, GedcomNode[]>;
+	// Substructures of the CHIL links (e.g. _FREL, _MREL), keyed by the child's ID
+	childDetails?: Record<string, GedcomNode[]>;
+	events: ParsedEvent[];
+	media?: string[];
+	mediaDetails?: Record<string, GedcomNode[]>;
+	notes?: string[];
+	noteDetails?: GedcomNode[][];
+	citations?: ParsedCitation[];
+	extensions?: GedcomNode[];
+}
+
+export interface ParsedMediaFile {
+	path: string;
+	format?: string;
+	mediaType?: string;
+	title?: string;
+	binaryProperty?: string;
+	extensions?: GedcomNode[];
+}
+
+/**
+ * An OBJE record. Media embedded in a person or family in GEDCOM 5.5.1 get an ID derived from
+ * their owner and are marked `inline`, so they are written back embedded.
+ */
+export interface ParsedMedia {
+	id: string;
+	files: ParsedMediaFile[];
+	title?: string;
+	inline?: boolean;
+	notes?: string[];
+	noteDetails?: GedcomNode[][];
+	citations?: ParsedCitation[];
+	extensions?: GedcomNode[];
+}
+
+export interface ParsedRepositoryCitation {
+	repository: string;
+	callNumbers: string[];
+	extensions?: GedcomNode[];
+}
+
+export interface ParsedSource {
+	id: string;
+	title?: string;
+	author?: string;
+	publication?: string;
+	abbreviation?: string;
+	text?: string;
+	repositories: ParsedRepositoryCitation[];
+	extensions?: GedcomNode[];
+}
+
+export interface ParsedRepository {
+	id: string;
+	name: string;
+	address?: string;
+	addressDetails?: GedcomNode[];
+	extensions?: GedcomNode[];
 }
 
+export type GedcomCharset = 'UTF-8' | 'UTF-16LE' | 'UTF-16BE' | 'ANSEL' | 'ASCII' | 'CP1252' | 'CP437' | 'CP850' | 'MACINTOSH';
+
 export interface ParsedMeta {
 	individuals: number;
 	families: number;
 	encodingTag: string;
+	detectedEncoding?: GedcomCharset;
+	gedcomVersion?: string;
+	schema?: Record<string, string>;
+	headerExtensions?: GedcomNode[];
+}
+
+export type GedcomVersion = '5.5.1' | '7.0';
+
+export interface GenerateOptions {
+	version?: GedcomVersion;
+	encoding?: GedcomCharset;
+	bom?: boolean;
+	lineEnding?: 'LF' | 'CRLF';
+	maxLineLength?: number;
 }
 
 export interface ParseResult {
 	meta: ParsedMeta;
 	persons: ParsedPerson[];
 	families: ParsedFamily[];
+	notes?: ParsedNote[];
+	sources?: ParsedSource[];
+	repositories?: ParsedRepository[];
+	media?: ParsedMedia[];
+	records?: GedcomNode[];
+}
+
+// Persons an Extract Subtree keeps around its root person
+export type SubtreeMode = 'ancestors' | 'descendants' | 'both' | 'relatives';
+
+// What the Privatize operation does to persons presumed living
+export type PrivacyAction = 'remove' | 'replaceName' | 'stripDetails';
+
+export interface PrivacyResult {
+	data: ParseResult;
+	// Persons presumed living, with the latest year they can have been born in when the dates tell
+	living: Array<{ id: string; latestBirthYear?: number }>;
+}
+
+export type TableName = 'persons' | 'families' | 'events';
+
+export type TableCell = string | number;
+
+export interface TableSheet {
+	name: TableName;
+	columns: string[];
+	rows: TableCell[][];
+}
+
+export type GraphFormat = 'dot' | 'mermaid' | 'cytoscape' | 'd3';
+
+export type GraphLabelField = 'name' | 'lifespan' | 'id';
+
+export interface GraphPerson {
+	id: string;
+	name: string;
+	sex?: string;
+	birthDate: string;
+	deathDate: string;
+	// 1 for the root of an ancestry result, or the earliest generation of a whole tree
+	generation?: number;
+}
+
+/**
+ * A couple, or a single parent, and the children the graph links to them.
+ */
+export interface GraphUnion {
+	id: string;
+	partners: string[];
+	children: string[];
+	marriageDate?: string;
+}
+
+export interface GraphModel {
+	persons: GraphPerson[];
+	unions: GraphUnion[];
+}
+
+export type ChartType = 'pedigree' | 'fan' | 'descendants';
+
+export type ChartBoxField = 'name' | 'lifespan' | 'birth' | 'death' | 'id';
+
+export type ChartColorBy = 'sex' | 'branch' | 'generation' | 'none';
+
+export type ChartPageSize = 'auto' | 'a4' | 'a3' | 'letter' | 'tabloid';
+
+export interface ChartOptions {
+	generations: number;
+	boxContent: ChartBoxField[];
+	colorBy: ChartColorBy;
+	pageSize: ChartPageSize;
+	orientation: 'landscape' | 'portrait';
+	// Angle covered by a fan chart
+	fanAngle: 180 | 360;
+}
+
+export interface ChartResult {
+	svg: string;
+	// Size of the drawing, in SVG user units
+	width: number;
+	height: number;
+	generations: number;
+	persons: number;
+}
+
+export type DescendantNumbering = 'none' | 'daboville' | 'henry' | 'register';
+
+export interface AncestryNode extends ParsedPerson {
+	// Sosa-Stradonitz numbers of every ancestor slot the person fills (root is 1)
+	sosa?: number[];
+	// Descendant number in the requested numbering system
+	number?: string;
+	// Register system birth order among the parent's children (i, ii, iii…)
+	birthOrder?: string;
+	spouses?: Array<{
+		id: string;
+		name: string;
+		family: string;
+	}>;
+}
+
+export interface ImplexGeneration {
+	generation: number;
+	theoretical: number;
+	known: number;
+	distinct: number;
+}
+
+export interface ImplexStatistics {
+	theoretical: number;
+	known: number;
+	distinct: number;
+	// Share of known ancestor slots filled by an ancestor already counted, in percent
+	implexRate: number;
+	generations: ImplexGeneration[];
 }
 
 export interface AncestryResult {
 	root: string;
 	generations: string[][];
-	nodes: ParsedPerson[];
+	nodes: AncestryNode[];
 	edges: Array<{
 		parent: string;
 		child: string;
 		relation: 'father' | 'mother';
 	}>;
+	implex?: ImplexStatistics;
+	numbering?: DescendantNumbering;
+}
+
+export type RelationshipLanguage = 'en' | 'fr';
+
+export type RelationshipType =
+	| 'self'
+	| 'ancestor'
+	| 'descendant'
+	| 'sibling'
+	| 'aunt-uncle'
+	| 'niece-nephew'
+	| 'cousin'
+	| 'spouse'
+	| 'in-law'
+	| 'step'
+	| 'by-marriage'
+	| 'none';
+
+export interface RelationshipStep {
+	id: string;
+	name: string;
+	relation: 'self' | 'father' | 'mother' | 'parent' | 'child' | 'spouse';
+}
+
+/**
+ * How the second person is related to the first. Generation counts are measured from each
+ * person up to the most recent common ancestors.
+ */
+export interface RelationshipResult {
+	from: string;
+	to: string;
+	relationship: string;
+	type: RelationshipType;
+	language: RelationshipLanguage;
+	generationsFromFirst?: number;
+	generationsFromSecond?: number;
+	cousinDegree?: number;
+	removed?: number;
+	half?: boolean;
+	commonAncestors: Array<{ id: string; name: string }>;
+	path: RelationshipStep[];
 }
 
 export interface PersonFilter {
@@ -44,6 +382,15 @@ export interface PersonFilter {
 	name?: string;
 	birthDate?: string;
 	deathDate?: string;
+	bornFrom?: string;
+	bornTo?: string;
+	diedBefore?: string;
+	diedAfter?: string;
+	aliveInYear?: number;
+	minAgeAtDeath?: number;
+	maxAgeAtDeath?: number;
+	deathRecord?: 'any' | 'present' | 'absent';
+	dateMatching?: 'possible' | 'certain';
 	fams?: string;
 	famc?: string;
 }
@@ -53,4 +400,184 @@ export interface FamilyFilter {
 	husband?: string;
 	wife?: string;
 	children?: string;
-}
\ No newline at end of file
+}
+
+export interface SourceFilter {
+	id?: string;
+	title?: string;
+	author?: string;
+	repository?: string;
+}
+
+/**
+ * A person, family or event that cites a source.
+ */
+export interface CitingFact {
+	source: string;
+	recordType: 'person' | 'family';
+	recordId: string;
+	eventType?: GedcomEventType;
+	date?: string;
+	place?: string;
+	citation: ParsedCitation;
+}
+
+export interface NoteFilter {
+	text?: string;
+}
+
+/**
+ * A note whose text matches a search, with the person, family or event it is attached to.
+ * Shared notes that nothing points to are returned with only their `noteId`.
+ */
+export interface NoteMatch {
+	text: string;
+	noteId?: string;
+	recordType?: 'person' | 'family';
+	recordId?: string;
+	eventType?: GedcomEventType;
+}
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationCode =
+	| 'duplicate-id'
+	| 'dangling-famc'
+	| 'dangling-fams'
+	| 'dangling-husb'
+	| 'dangling-wife'
+	| 'dangling-chil'
+	| 'dangling-note'
+	| 'dangling-source'
+	| 'dangling-media'
+	| 'child-without-famc'
+	| 'famc-without-child'
+	| 'spouse-without-fams'
+	| 'fams-without-spouse'
+	| 'ancestor-cycle'
+	| 'death-before-birth'
+	| 'parent-too-young'
+	| 'born-after-mother-death'
+	| 'lifespan-too-long';
+
+export interface ValidationIssue {
+	severity: ValidationSeverity;
+	code: ValidationCode;
+	records: string[];
+	message: string;
+}
+
+export interface ValidationReport {
+	valid: boolean;
+	errors: number;
+	warnings: number;
+	issues: ValidationIssue[];
+}
+
+export type RepairFix = 'dedupe-pointers' | 'remove-dangling' | 'restore-links' | 'remove-empty-families';
+
+export interface RepairChange {
+	fix: RepairFix;
+	records: string[];
+	message: string;
+}
+
+export interface RepairResult {
+	data: ParseResult;
+	changes: RepairChange[];
+}
+
+export interface DuplicateOptions {
+	// Lowest score (0-100) of the pairs returned
+	threshold: number;
+	// Largest number of pairs returned, 0 for all
+	limit?: number;
+}
+
+/**
+ * Points scored by a candidate pair on each criterion; they add up to the pair's score.
+ */
+export interface DuplicateScoreBreakdown {
+	name: number;
+	phonetic: number;
+	birth: number;
+	death: number;
+	place: number;
+	relatives: number;
+}
+
+export interface DuplicateCandidate {
+	score: number;
+	first: { id: string; name: string; birthDate: string; deathDate: string };
+	second: { id: string; name: string; birthDate: string; deathDate: string };
+	breakdown: DuplicateScoreBreakdown;
+}
+
+export type MergeRecordType = 'person' | 'family';
+
+/**
+ * How to settle fields both records give different values for: keep the value of the first
+ * (surviving) record, of the second, or both, the second as an alternate.
+ */
+export type MergePolicy = 'first' | 'second' | 'both';
+
+export interface MergeResult {
+	data: ParseResult;
+	merges: Array<{
+		type: MergeRecordType;
+		kept: string;
+		removed: string;
+	}>;
+}
+
+/**
+ * How persons of different trees are recognised as the same individual when merging trees.
+ */
+export type TreeMatchKey = 'none' | 'uid' | 'nameBirth';
+
+export interface MergeTreesResult extends MergeResult {
+	// IDs of the later trees changed because the earlier ones already use them; `tree` is the tree's index
+	remappedIds: Array<{
+		tree: number;
+		from: string;
+		to: string;
+	}>;
+}
+
+export interface DiffChange {
+	// Changed field: `name`, `sex`, `famc`, `children`, `BIRT.date`, `RESI[2].place`…
+	field: string;
+	change: 'added' | 'removed' | 'changed' | 'refined';
+	old?: string;
+	new?: string;
+	message: string;
+}
+
+export interface DiffRecord {
+	id: string;
+	name: string;
+	// ID in the new tree, when the record was matched by _UID under another ID
+	newId?: string;
+	matchedBy: 'id' | 'uid';
+	changes: DiffChange[];
+}
+
+export interface DiffRecordSet {
+	added: Array<{ id: string; name: string }>;
+	removed: Array<{ id: string; name: string }>;
+	modified: DiffRecord[];
+}
+
+export interface CompareResult {
+	hasChanges: boolean;
+	summary: {
+		personsAdded: number;
+		personsRemoved: number;
+		personsModified: number;
+		familiesAdded: number;
+		familiesRemoved: number;
+		familiesModified: number;
+	};
+	persons: DiffRecordSet;
+	families: DiffRecordSet;
+}
@@ -0,0 +1,333 @@
+import { ParseResult, ParsedPerson, ParsedFamily, ParsedEvent, ValidationIssue, ValidationReport } from './gedcom-types';
+import { GedcomDateParser } from './gedcom-date-parser';
+
+// ABT, CAL and EST dates are treated as this many years either side of the stated date
+const APPROXIMATE_DATE_YEARS = 5;
+const MIN_PARENT_AGE_YEARS = 12;
+const MAX_LIFESPAN_YEARS = 120;
+// Date ranges are compared as YYYYMMDD sort keys
+const YEAR = 10000;
+
+type DateRange = { min: number; max: number };
+
+export class GedcomValidator {
+	/**
+	 * Checks the links between records and the chronology of each family.
+	 * Errors are inconsistencies in the data; warnings are links or dates that are only unlikely.
+	 */
+	static validate(data: ParseResult): ValidationReport {
+		const issues: ValidationIssue[] = [];
+		const personMap = new Map<string, ParsedPerson>();
+		const familyMap = new Map<string, ParsedFamily>();
+
+		for (const person of data.persons) {
+			if (!personMap.has(person.id)) personMap.set(person.id, person);
+		}
+		for (const family of data.families) {
+			if (!familyMap.has(family.id)) familyMap.set(family.id, family);
+		}
+
+		GedcomValidator.checkDuplicateIds(data, issues);
+		GedcomValidator.checkPersonLinks(data, familyMap, issues);
+		GedcomValidator.checkFamilyLinks(data, personMap, issues);
+		GedcomValidator.checkRecordPointers(data, issues);
+		GedcomValidator.checkAncestorCycles(data, personMap, familyMap, issues);
+		GedcomValidator.checkChronology(data, personMap, issues);
+
+		const errors = issues.filter(issue => issue.severity === 'error').length;
+
+		return {
+			valid: errors === 0,
+			errors,
+			warnings: issues.length - errors,
+			issues,
+		};
+	}
+
+	private static checkDuplicateIds(data: ParseResult, issues: ValidationIssue[]): void {
+		const ids: string[] = [
+			...data.persons.map(person => person.id),
+			...data.families.map(family => family.id),
+			...(data.notes || []).map(note => note.id),
+			...(data.sources || []).map(source => source.id),
+			...(data.repositories || []).map(repository => repository.id),
+			...(data.media || []).filter(media => !media.inline).map(media => media.id),
+			...(data.records || []).map(record => record.xref).filter((id): id is string => !!id),
+		];
+
+		const counts = new Map<string, number>();
+		for (const id of ids) {
+			counts.set(id, (counts.get(id) || 0) + 1);
+		}
+
+		for (const [id, count] of counts) {
+			if (count > 1) {
+				issues.push({
+					severity: 'error',
+					code: 'duplicate-id',
+					records: [id],
+					message: `ID ${id} is used by ${count} records`,
+				});
+			}
+		}
+	}
+
+	private static checkPersonLinks(data: ParseResult, familyMap: Map<string, ParsedFamily>, issues: ValidationIssue[]): void {
+		for (const person of data.persons) {
+			for (const familyId of person.famc) {
+				const family = familyMap.get(familyId);
+				if (!family) {
+					issues.push({
+						severity: 'error',
+						code: 'dangling-famc',
+						records: [person.id, familyId],
+						message: `${person.id} is a child of family ${familyId}, which does not exist`,
+					});
+				} else if (!family.children.includes(person.id)) {
+					issues.push({
+						severity: 'warning',
+						code: 'famc-without-child',
+						records: [person.id, familyId],
+						message: `${person.id} is a child of family ${familyId}, which does not list them as a child`,
+					});
+				}
+			}
+
+			for (const familyId of person.fams) {
+				const family = familyMap.get(familyId);
+				if (!family) {
+					issues.push({
+						severity: 'error',
+						code: 'dangling-fams',
+						records: [person.id, familyId],
+						message: `${person.id} is a spouse in family ${familyId}, which does not exist`,
+					});
+				} else if (family.husband !== person.id && family.wife !== person.id) {
+					issues.push({
+						severity: 'warning',
+						code: 'fams-without-spouse',
+						records: [person.id, familyId],
+						message: `${person.id} is a spouse in family ${familyId}, which does not list them as husband or wife`,
+					});
+				}
+			}
+		}
+	}
+
+	private static checkFamilyLinks(data: ParseResult, personMap: Map<string, ParsedPerson>, issues: ValidationIssue[]): void {
+		for (const family of data.families) {
+			const spouses: Array<[string | undefined, 'husb' | 'wife', string]> = [
+				[family.husband, 'husb', 'husband'],
+				[family.wife, 'wife', 'wife'],
+			];
+
+			for (const [spouseId, tag, role] of spouses) {
+				if (!spouseId) continue;
+				const spouse = personMap.get(spouseId);
+				if (!spouse) {
+					issues.push({
+						severity: 'error',
+						code: tag === 'husb' ? 'dangling-husb' : 'dangling-wife',
+						records: [family.id, spouseId],
+						message: `Family ${family.id} has ${role} ${spouseId}, who does not exist`,
+					});
+				} else if (!spouse.fams.includes(family.id)) {
+					issues.push({
+						severity: 'warning',
+						code: 'spouse-without-fams',
+						records: [family.id, spouseId],
+						message: `Family ${family.id} has ${role} ${spouseId}, who is not linked back to it as a spouse`,
+					});
+				}
+			}
+
+			for (const childId of family.children) {
+				const child = personMap.get(childId);
+				if (!child) {
+					issues.push({
+						severity: 'error',
+						code: 'dangling-chil',
+						records: [family.id, childId],
+						message: `Family ${family.id} lists child ${childId}, who does not exist`,
+					});
+				} else if (!child.famc.includes(family.id)) {
+					issues.push({
+						severity: 'warning',
+						code: 'child-without-famc',
+						records: [family.id, childId],
+						message: `Family ${family.id} lists child ${childId}, who is not linked back to it as a child`,
+					});
+				}
+			}
+		}
+	}
+
+	/**
+	 * Shared note, source and media pointers on persons, families and events.
+	 */
+	private static checkRecordPointers(data: ParseResult, issues: ValidationIssue[]): void {
+		const noteIds = new Set((data.notes || []).map(note => note.id));
+		const sourceIds = new Set((data.sources || []).map(source => source.id));
+		const mediaIds = new Set((data.media || []).map(media => media.id));
+
+		const check = (recordId: string, pointers: string[] | undefined, known: Set<string>, code: 'dangling-note' | 'dangling-source' | 'dangling-media', kind: string) => {
+			for (const pointer of pointers || []) {
+				if (GedcomValidator.isPointer(pointer) && !known.has(pointer)) {
+					issues.push({
+						severity: 'error',
+						code,
+						records: [recordId, pointer],
+						message: `${recordId} points to ${kind} ${pointer}, which does not exist`,
+					});
+				}
+			}
+		};
+
+		const checkRecord = (record: { id: string; events: ParsedEvent[]; notes?: string[]; media?: string[]; citations?: Array<{ source: string }> }) => {
+			const eventCitations = record.events.flatMap(event => (event.citations || []).map(citation => citation.source));
+			const eventSources = record.events.flatMap(event => event.sources || []);
+			check(record.id, [...(record.notes || []), ...record.events.flatMap(event => event.notes || [])], noteIds, 'dangling-note', 'note');
+			check(record.id, Array.from(new Set([
+				...(record.citations || []).map(citation => citation.source),
+				...eventCitations,
+				...eventSources,
+			])), sourceIds, 'dangling-source', 'source');
+			check(record.id, record.media, mediaIds, 'dangling-media', 'media');
+		};
+
+		data.persons.forEach(checkRecord);
+		data.families.forEach(checkRecord);
+	}
+
+	/**
+	 * Reports every loop in the parent links, where a person ends up as their own ancestor.
+	 */
+	private static checkAncestorCycles(
+		data: ParseResult,
+		personMap: Map<string, ParsedPerson>,
+		familyMap: Map<string, ParsedFamily>,
+		issues: ValidationIssue[],
+	): void {
+		const parentsOf = (personId: string): string[] => {
+			const person = personMap.get(personId);
+			if (!person) return [];
+			return person.famc
+				.map(familyId => familyMap.get(familyId))
+				.flatMap(family => (family ? [family.husband, family.wife] : []))
+				.filter((id): id is string => !!id && personMap.has(id));
+		};
+
+		const done = new Set<string>();
+		const reported = new Set<string>();
+
+		for (const person of data.persons) {
+			if (done.has(person.id)) continue;
+
+			// Iterative depth-first search: the stack is the current line of ancestors
+			const stack: Array<{ id: string; parents: string[]; next: number }> = [{ id: person.id, parents: parentsOf(person.id), next: 0 }];
+			const onStack = new Set<string>([person.id]);
+
+			while (stack.length > 0) {
+				const top = stack[stack.length - 1];
+
+				if (top.next >= top.parents.length) {
+					stack.pop();
+					onStack.delete(top.id);
+					done.add(top.id);
+					continue;
+				}
+
+				const parentId = top.parents[top.next++];
+				if (onStack.has(parentId)) {
+					const cycle = stack.slice(stack.findIndex(entry => entry.id === parentId)).map(entry => entry.id);
+					const key = [...cycle].sort().join(' ');
+					if (!reported.has(key)) {
+						reported.add(key);
+						issues.push({
+							severity: 'error',
+							code: 'ancestor-cycle',
+							records: cycle,
+							message: `${parentId} is their own ancestor: ${[...cycle, parentId].join(' → ')}`,
+						});
+					}
+				} else if (!done.has(parentId)) {
+					stack.push({ id: parentId, parents: parentsOf(parentId), next: 0 });
+					onStack.add(parentId);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Only flags dates that are wrong whatever their uncertainty: ranges and approximate dates
+	 * are compared by their most favourable bounds.
+	 */
+	private static checkChronology(data: ParseResult, personMap: Map<string, ParsedPerson>, issues: ValidationIssue[]): void {
+		const births = new Map<string, DateRange>();
+		const deaths = new Map<string, DateRange>();
+
+		for (const person of personMap.values()) {
+			const birth = GedcomValidator.dateRange(person.birthDate);
+			const death = GedcomValidator.dateRange(person.deathDate);
+			if (birth) births.set(person.id, birth);
+			if (death) deaths.set(person.id, death);
+
+			if (birth && death && death.max < birth.min) {
+				issues.push({
+					severity: 'error',
+					code: 'death-before-birth',
+					records: [person.id],
+					message: `${person.id} died (${person.deathDate}) before they were born (${person.birthDate})`,
+				});
+			} else if (birth && death && death.min > birth.max + MAX_LIFESPAN_YEARS * YEAR) {
+				issues.push({
+					severity: 'warning',
+					code: 'lifespan-too-long',
+					records: [person.id],
+					message: `${person.id} lived more than ${MAX_LIFESPAN_YEARS} years (${person.birthDate} - ${person.deathDate})`,
+				});
+			}
+		}
+
+		for (const family of data.families) {
+			for (const childId of family.children) {
+				const childBirth = births.get(childId);
+				if (!childBirth) continue;
+				const child = personMap.get(childId) as ParsedPerson;
+
+				for (const parentId of [family.husband, family.wife]) {
+					const parentBirth = parentId ? births.get(parentId) : undefined;
+					if (!parentId || !parentBirth) continue;
+
+					if (childBirth.max < parentBirth.min + MIN_PARENT_AGE_YEARS * YEAR) {
+						issues.push({
+							severity: 'warning',
+							code: 'parent-too-young',
+							records: [family.id, parentId, childId],
+							message: `${childId} was born (${child.birthDate}) before their parent ${parentId} was ${MIN_PARENT_AGE_YEARS} (born ${(personMap.get(parentId) as ParsedPerson).birthDate})`,
+						});
+					}
+				}
+
+				const motherDeath = family.wife ? deaths.get(family.wife) : undefined;
+				if (family.wife && motherDeath && childBirth.min > motherDeath.max) {
+					issues.push({
+						severity: 'error',
+						code: 'born-after-mother-death',
+						records: [family.id, family.wife, childId],
+						message: `${childId} was born (${child.birthDate}) after their mother ${family.wife} died (${(personMap.get(family.wife) as ParsedPerson).deathDate})`,
+					});
+				}
+			}
+		}
+	}
+
+	private static dateRange(value: string): DateRange | undefined {
+		if (!value) return undefined;
+		return GedcomDateParser.toRange(GedcomDateParser.parse(value), APPROXIMATE_DATE_YEARS);
+	}
+
+	private static isPointer(value: string): boolean {
+		return /^@[^@\s]+@$/.test(value);
+	}
+}
@@ -0,0 +1,161 @@
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+	name: string;
+	data: Buffer;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+// General purpose flag bit 11: file names are UTF-8
+const FLAG_UTF8 = 0x0800;
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+/**
+ * Minimal ZIP reader and writer (stored and deflated entries, no ZIP64 or encryption),
+ * enough for GEDZIP archives.
+ */
+export class GedcomZip {
+	static isZip(buffer: Buffer): boolean {
+		return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_HEADER_SIGNATURE;
+	}
+
+	static read(buffer: Buffer): ZipEntry[] {
+		const end = GedcomZip.findEndOfCentralDirectory(buffer);
+		const entryCount = buffer.readUInt16LE(end + 10);
+		let offset = buffer.readUInt32LE(end + 16);
+
+		if (entryCount === 0xFFFF || offset === 0xFFFFFFFF) {
+			throw new Error('ZIP64 archives are not supported');
+		}
+
+		const entries: ZipEntry[] = [];
+		for (let index = 0; index < entryCount; index++) {
+			if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+				throw new Error('Corrupt ZIP central directory');
+			}
+
+			const flags = buffer.readUInt16LE(offset + 8);
+			const method = buffer.readUInt16LE(offset + 10);
+			const compressedSize = buffer.readUInt32LE(offset + 20);
+			const nameLength = buffer.readUInt16LE(offset + 28);
+			const extraLength = buffer.readUInt16LE(offset + 30);
+			const commentLength = buffer.readUInt16LE(offset + 32);
+			const localOffset = buffer.readUInt32LE(offset + 42);
+			const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+			offset += 46 + nameLength + extraLength + commentLength;
+
+			if (name.endsWith('/')) continue;
+			if (flags & 0x0001) {
+				throw new Error(`Encrypted ZIP entries are not supported: ${name}`);
+			}
+
+			if (buffer.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+				throw new Error(`Corrupt ZIP entry: ${name}`);
+			}
+			const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+			const compressed = buffer.subarray(dataStart, dataStart + compressedSize);
+
+			if (method === METHOD_STORED) {
+				entries.push({ name, data: Buffer.from(compressed) });
+			} else if (method === METHOD_DEFLATED) {
+				entries.push({ name, data: inflateRawSync(compressed) });
+			} else {
+				throw new Error(`Unsupported ZIP compression method ${method}: ${name}`);
+			}
+		}
+
+		return entries;
+	}
+
+	static write(entries: ZipEntry[], date: Date = new Date()): Buffer {
+		const localParts: Buffer[] = [];
+		const centralParts: Buffer[] = [];
+		const time = ((date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1)) & 0xFFFF;
+		const day = (((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()) & 0xFFFF;
+		let offset = 0;
+
+		for (const entry of entries) {
+			const name = Buffer.from(entry.name, 'utf8');
+			const deflated = deflateRawSync(entry.data);
+			const method = deflated.length < entry.data.length ? METHOD_DEFLATED : METHOD_STORED;
+			const content = method === METHOD_DEFLATED ? deflated : entry.data;
+			const crc = GedcomZip.crc32(entry.data);
+
+			const local = Buffer.alloc(30);
+			local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+			local.writeUInt16LE(20, 4);
+			local.writeUInt16LE(FLAG_UTF8, 6);
+			local.writeUInt16LE(method, 8);
+			local.writeUInt16LE(time, 10);
+			local.writeUInt16LE(day, 12);
+			local.writeUInt32LE(crc, 14);
+			local.writeUInt32LE(content.length, 18);
+			local.writeUInt32LE(entry.data.length, 22);
+			local.writeUInt16LE(name.length, 26);
+
+			const central = Buffer.alloc(46);
+			central.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+			central.writeUInt16LE(20, 4);
+			central.writeUInt16LE(20, 6);
+			central.writeUInt16LE(FLAG_UTF8, 8);
+			central.writeUInt16LE(method, 10);
+			central.writeUInt16LE(time, 12);
+			central.writeUInt16LE(day, 14);
+			central.writeUInt32LE(crc, 16);
+			central.writeUInt32LE(content.length, 20);
+			central.writeUInt32LE(entry.data.length, 24);
+			central.writeUInt16LE(name.length, 28);
+			central.writeUInt32LE(offset, 42);
+
+			localParts.push(local, name, content);
+			centralParts.push(central, name);
+			offset += local.length + name.length + content.length;
+		}
+
+		const centralDirectory = Buffer.concat(centralParts);
+		const end = Buffer.alloc(22);
+		end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+		end.writeUInt16LE(entries.length, 8);
+		end.writeUInt16LE(entries.length, 10);
+		end.writeUInt32LE(centralDirectory.length, 12);
+		end.writeUInt32LE(offset, 16);
+
+		return Buffer.concat([...localParts, centralDirectory, end]);
+	}
+
+	static crc32(data: Buffer): number {
+		let crc = 0xFFFFFFFF;
+		for (const byte of data) {
+			crc = CRC_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+		}
+		return (crc ^ 0xFFFFFFFF) >>> 0;
+	}
+
+	/**
+	 * The end of central directory record is the last 22 bytes, unless followed by a comment.
+	 */
+	private static findEndOfCentralDirectory(buffer: Buffer): number {
+		const lowest = Math.max(0, buffer.length - 22 - 0xFFFF);
+		for (let offset = buffer.length - 22; offset >= lowest; offset--) {
+			if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+				return offset;
+			}
+		}
+		throw new Error('Not a ZIP archive: end of central directory not found');
+	}
+}
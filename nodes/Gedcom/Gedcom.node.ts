@@ -5,14 +5,51 @@ import {
 	INodeTypeDescription,
 	NodeOperationError,
 	IDataObject,
+	IBinaryKeyData,
 	NodeConnectionType,
 } from 'n8n-workflow';
 
 import { GedcomParser } from '../../lib/gedcom-parser';
 import { GedcomGenerator } from '../../lib/gedcom-generator';
 import { GedcomFinder } from '../../lib/gedcom-finder';
+import { GedcomDuplicates } from '../../lib/gedcom-duplicates';
 import { GedcomAncestry } from '../../lib/gedcom-ancestry';
-import { ParseResult, PersonFilter, FamilyFilter } from '../../lib/gedcom-types';
+import { GedcomMedia } from '../../lib/gedcom-media';
+import { GedcomRelationship } from '../../lib/gedcom-relationship';
+import { GedcomValidator } from '../../lib/gedcom-validator';
+import { GedcomRepair, REPAIR_FIXES } from '../../lib/gedcom-repair';
+import { GedcomMerge } from '../../lib/gedcom-merge';
+import { GedcomCompare } from '../../lib/gedcom-compare';
+import { GedcomSubtree } from '../../lib/gedcom-subtree';
+import { GedcomPrivacy } from '../../lib/gedcom-privacy';
+import { GedcomTable, TABLE_COLUMNS } from '../../lib/gedcom-table';
+import { GedcomBuilder } from '../../lib/gedcom-builder';
+import { GedcomGraph } from '../../lib/gedcom-graph';
+import { GedcomChart } from '../../lib/gedcom-chart';
+import { ZipEntry } from '../../lib/gedcom-zip';
+import { ParseResult, PersonFilter, FamilyFilter, SourceFilter, NoteFilter, GenerateOptions, GedcomCharset, RelationshipLanguage, DescendantNumbering, RepairFix, DuplicateOptions, MergeRecordType, MergePolicy, TreeMatchKey, SubtreeMode, PrivacyAction, TableName, AncestryResult, GraphFormat, GraphLabelField, GraphModel, ChartType, ChartBoxField, ChartColorBy, ChartPageSize } from '../../lib/gedcom-types';
+
+// Values of the Generate "Encoding" option
+const OUTPUT_ENCODINGS: Record<string, { encoding: GedcomCharset; bom: boolean }> = {
+	utf8: { encoding: 'UTF-8', bom: false },
+	utf8bom: { encoding: 'UTF-8', bom: true },
+	utf16le: { encoding: 'UTF-16LE', bom: true },
+	utf16be: { encoding: 'UTF-16BE', bom: true },
+	ansel: { encoding: 'ANSEL', bom: false },
+	ascii: { encoding: 'ASCII', bom: false },
+};
+
+// Options of the Export Table column pickers, labelled from the column names (birthPlace → Birth Place)
+const tableColumnOptions = (table: TableName) => TABLE_COLUMNS[table].map(column => ({
+	name: column.replace(/([A-Z])/g, ' $1').replace(/^./, first => first.toUpperCase()).replace(/\bId\b/, 'ID'),
+	value: column,
+}));
+
+const CSV_DELIMITERS: Record<string, string> = {
+	comma: ',',
+	semicolon: ';',
+	tab: '\t',
+};
 
 export class Gedcom implements INodeType {
 	description: INodeTypeDescription = {
@@ -53,6 +90,42 @@ export class Gedcom implements INodeType {
 						description: 'Find individuals, families, or both with filters',
 						action: 'Find records in GEDCOM data',
 					},
+					{
+						name: 'Build Tree',
+						value: 'buildTree',
+						description: 'Create persons and families from spreadsheet rows or items',
+						action: 'Build a tree from rows',
+					},
+					{
+						name: 'Compare',
+						value: 'compare',
+						description: 'Report persons and families added, removed or modified between two versions of a tree',
+						action: 'Compare two GEDCOM trees',
+					},
+					{
+						name: 'Export Graph',
+						value: 'exportGraph',
+						description: 'Render a tree or an ancestors/descendants result as GraphViz DOT, Mermaid, Cytoscape or D3 data',
+						action: 'Export a family graph',
+					},
+					{
+						name: 'Export Table',
+						value: 'exportTable',
+						description: 'Flatten persons, families and events into CSV files or an XLSX workbook',
+						action: 'Export tables of persons families and events',
+					},
+					{
+						name: 'Extract Subtree',
+						value: 'extractSubtree',
+						description: 'Keep the ancestors, descendants or close relatives of a person as a complete GEDCOM result',
+						action: 'Extract a subtree',
+					},
+					{
+						name: 'Find Duplicates',
+						value: 'findDuplicates',
+						description: 'Score pairs of persons that may be the same individual',
+						action: 'Find duplicate persons',
+					},
 					{
 						name: 'Get Ancestors',
 						value: 'ancestors',
@@ -65,6 +138,48 @@ export class Gedcom implements INodeType {
 						description: 'Get descendants tree for a specific person',
 						action: 'Get descendants tree',
 					},
+					{
+						name: 'Get Relationship',
+						value: 'relationship',
+						description: 'Describe how two persons are related',
+						action: 'Get the relationship between two persons',
+					},
+					{
+						name: 'Merge Records',
+						value: 'merge',
+						description: 'Merge two persons or two families into one',
+						action: 'Merge two records',
+					},
+					{
+						name: 'Merge Trees',
+						value: 'mergeTrees',
+						description: 'Combine several parsed trees into one, renumbering colliding IDs',
+						action: 'Merge GEDCOM trees',
+					},
+					{
+						name: 'Privatize',
+						value: 'privatize',
+						description: 'Remove or hide the persons presumed living before sharing a tree',
+						action: 'Privatize living persons',
+					},
+					{
+						name: 'Render Chart',
+						value: 'renderChart',
+						description: 'Draw a pedigree, fan or descendant chart of a person as an SVG file',
+						action: 'Render a family chart',
+					},
+					{
+						name: 'Repair',
+						value: 'repair',
+						description: 'Fix one-sided, repeated and broken links between records',
+						action: 'Repair GEDCOM links',
+					},
+					{
+						name: 'Validate',
+						value: 'validate',
+						description: 'Report broken links, ancestor loops and impossible dates',
+						action: 'Validate GEDCOM data',
+					},
 				],
 				default: 'parse',
 			},
@@ -86,6 +201,11 @@ export class Gedcom implements INodeType {
 						value: 'url',
 						description: 'Download from URL',
 					},
+					{
+						name: 'GEDZIP Archive',
+						value: 'gedzip',
+						description: 'Read a GEDZIP or ZIP archive holding a GEDCOM file and its media from binary data',
+					},
 				],
 				default: 'binary',
 				displayOptions: {
@@ -103,10 +223,10 @@ export class Gedcom implements INodeType {
 				displayOptions: {
 					show: {
 						operation: ['parse'],
-						source: ['binary'],
+						source: ['binary', 'gedzip'],
 					},
 				},
-				description: 'Name of the binary property containing the GEDCOM file',
+				description: 'Name of the binary property containing the GEDCOM file or archive',
 			},
 			{
 				displayName: 'URL',
@@ -140,6 +260,11 @@ export class Gedcom implements INodeType {
 						value: 'text',
 						description: 'Output as text in the response',
 					},
+					{
+						name: 'GEDZIP Archive',
+						value: 'gedzip',
+						description: 'Output a GEDZIP archive with the GEDCOM file and the media binaries of the input item',
+					},
 				],
 				default: 'binary',
 				displayOptions: {
@@ -157,7 +282,7 @@ export class Gedcom implements INodeType {
 				displayOptions: {
 					show: {
 						operation: ['generate'],
-						outputFormat: ['binary'],
+						outputFormat: ['binary', 'gedzip'],
 					},
 				},
 				description: 'Name of the binary property to store the GEDCOM file',
@@ -171,10 +296,102 @@ export class Gedcom implements INodeType {
 				displayOptions: {
 					show: {
 						operation: ['generate'],
-						outputFormat: ['binary'],
+						outputFormat: ['binary', 'gedzip'],
+					},
+				},
+				description: 'Filename for the generated GEDCOM file. GEDZIP archives get the .gdz extension.',
+			},
+			{
+				displayName: 'Options',
+				name: 'generateOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						operation: ['generate'],
 					},
 				},
-				description: 'Filename for the generated GEDCOM file',
+				options: [
+					{
+						displayName: 'GEDCOM Version',
+						name: 'version',
+						type: 'options',
+						options: [
+							{
+								name: '5.5.1',
+								value: '5.5.1',
+							},
+							{
+								name: '7.0',
+								value: '7.0',
+								description: 'UTF-8 only; shared notes are written as SNOTE records and missing links as @VOID@',
+							},
+						],
+						default: '5.5.1',
+						description: 'GEDCOM version to write. Dates, notes and header are converted to its syntax.',
+					},
+					{
+						displayName: 'Encoding',
+						name: 'encoding',
+						type: 'options',
+						options: [
+							{
+								name: 'UTF-8',
+								value: 'utf8',
+							},
+							{
+								name: 'UTF-8 with BOM',
+								value: 'utf8bom',
+							},
+							{
+								name: 'UTF-16LE',
+								value: 'utf16le',
+							},
+							{
+								name: 'UTF-16BE',
+								value: 'utf16be',
+							},
+							{
+								name: 'ANSEL',
+								value: 'ansel',
+							},
+							{
+								name: 'ASCII',
+								value: 'ascii',
+								description: 'Accents are removed and other characters replaced with "?"',
+							},
+						],
+						default: 'utf8',
+						description: 'Character encoding of the binary file. The header CHAR line always matches it. Text output is always UTF-8.',
+					},
+					{
+						displayName: 'Line Ending',
+						name: 'lineEnding',
+						type: 'options',
+						options: [
+							{
+								name: 'LF',
+								value: 'LF',
+							},
+							{
+								name: 'CRLF',
+								value: 'CRLF',
+							},
+						],
+						default: 'LF',
+					},
+					{
+						displayName: 'Max Line Length',
+						name: 'maxLineLength',
+						type: 'number',
+						default: 255,
+						typeOptions: {
+							minValue: 0,
+						},
+						description: 'Longer lines are split into CONC continuation lines. Use 0 to never split.',
+					},
+				],
 			},
 
 			// Find options
@@ -199,6 +416,16 @@ export class Gedcom implements INodeType {
 						value: 'all',
 						description: 'Search for both individuals and families',
 					},
+					{
+						name: 'Source',
+						value: 'source',
+						description: 'Search for sources and the facts citing them',
+					},
+					{
+						name: 'Note',
+						value: 'note',
+						description: 'Full-text search over inline and shared notes',
+					},
 				],
 				default: 'individual',
 				displayOptions: {
@@ -267,7 +494,7 @@ export class Gedcom implements INodeType {
 						type: 'string',
 						default: '',
 						placeholder: '1950',
-						description: 'Filter by birth date (partial match)',
+						description: 'Filter by birth date: a year, month or full GEDCOM date that the birth date could fall in',
 					},
 					{
 						displayName: 'Filter by Death Date',
@@ -275,7 +502,107 @@ export class Gedcom implements INodeType {
 						type: 'string',
 						default: '',
 						placeholder: '2020',
-						description: 'Filter by death date (partial match)',
+						description: 'Filter by death date: a year, month or full GEDCOM date that the death date could fall in',
+					},
+					{
+						displayName: 'Born From',
+						name: 'bornFrom',
+						type: 'string',
+						default: '',
+						placeholder: '1800',
+						description: 'Keep individuals born on or after this year or GEDCOM date',
+					},
+					{
+						displayName: 'Born To',
+						name: 'bornTo',
+						type: 'string',
+						default: '',
+						placeholder: '1899',
+						description: 'Keep individuals born on or before this year or GEDCOM date',
+					},
+					{
+						displayName: 'Died Before',
+						name: 'diedBefore',
+						type: 'string',
+						default: '',
+						placeholder: '1900',
+						description: 'Keep individuals who died before this year or GEDCOM date',
+					},
+					{
+						displayName: 'Died After',
+						name: 'diedAfter',
+						type: 'string',
+						default: '',
+						placeholder: '1900',
+						description: 'Keep individuals who died after this year or GEDCOM date',
+					},
+					{
+						displayName: 'Alive in Year',
+						name: 'aliveInYear',
+						type: 'number',
+						default: 1900,
+						description: 'Keep individuals who were alive during this year',
+					},
+					{
+						displayName: 'Min Age at Death',
+						name: 'minAgeAtDeath',
+						type: 'number',
+						default: 0,
+						typeOptions: {
+							minValue: 0,
+						},
+						description: 'Keep individuals who were at least this old when they died',
+					},
+					{
+						displayName: 'Max Age at Death',
+						name: 'maxAgeAtDeath',
+						type: 'number',
+						default: 120,
+						typeOptions: {
+							minValue: 0,
+						},
+						description: 'Keep individuals who were at most this old when they died',
+					},
+					{
+						displayName: 'Death Record',
+						name: 'deathRecord',
+						type: 'options',
+						options: [
+							{
+								name: 'Any',
+								value: 'any',
+							},
+							{
+								name: 'Present',
+								value: 'present',
+								description: 'Only individuals with a death event',
+							},
+							{
+								name: 'Absent',
+								value: 'absent',
+								description: 'Only individuals without a death event',
+							},
+						],
+						default: 'any',
+					},
+					{
+						displayName: 'Date Matching',
+						name: 'dateMatching',
+						type: 'options',
+						options: [
+							{
+								name: 'Possible',
+								value: 'possible',
+								description: 'Match when an approximate or ranged date could satisfy the filter',
+							},
+							{
+								name: 'Certain',
+								value: 'certain',
+								description: 'Match only when every reading of an approximate or ranged date satisfies the filter',
+							},
+						],
+						default: 'possible',
+						description: 'How range and age filters treat dates such as ABT 1850, BEF 1850 or BET 1840 AND 1845',
 					},
 					{
 						displayName: 'Filter by Family as Spouse (FAMS)',
@@ -343,6 +670,101 @@ export class Gedcom implements INodeType {
 				],
 			},
 
+			{
+				displayName: 'Source Filters',
+				name: 'sourceFilters',
+				type: 'collection',
+				placeholder: 'Add Source Filter',
+				default: {},
+				displayOptions: {
+					show: {
+						operation: ['find'],
+						searchType: ['source'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Filter by ID',
+						name: 'id',
+						type: 'string',
+						default: '',
+						placeholder: '@S12@',
+						description: 'Filter by source ID (partial match)',
+					},
+					{
+						displayName: 'Filter by Title',
+						name: 'title',
+						type: 'string',
+						default: '',
+						placeholder: 'Parish register',
+						description: 'Filter by source title or abbreviation (partial match, case insensitive)',
+					},
+					{
+						displayName: 'Filter by Author',
+						name: 'author',
+						type: 'string',
+						default: '',
+						description: 'Filter by source author (partial match, case insensitive)',
+					},
+					{
+						displayName: 'Filter by Repository',
+						name: 'repository',
+						type: 'string',
+						default: '',
+						placeholder: '@R1@',
+						description: 'Filter by repository ID holding the source (partial match)',
+					},
+				],
+			},
+
+			{
+				displayName: 'Note Text',
+				name: 'noteText',
+				type: 'string',
+				default: '',
+				placeholder: 'soldier Verdun',
+				displayOptions: {
+					show: {
+						operation: ['find'],
+						searchType: ['note'],
+					},
+				},
+				description: 'Words that must all appear in the note (case and accent insensitive)',
+			},
+
+			// Find Duplicates options
+			{
+				displayName: 'Threshold',
+				name: 'duplicateThreshold',
+				type: 'number',
+				default: 70,
+				typeOptions: {
+					minValue: 0,
+					maxValue: 100,
+				},
+				displayOptions: {
+					show: {
+						operation: ['findDuplicates'],
+					},
+				},
+				description: 'Lowest score, out of 100, of the pairs to return',
+			},
+			{
+				displayName: 'Limit',
+				name: 'duplicateLimit',
+				type: 'number',
+				default: 50,
+				typeOptions: {
+					minValue: 0,
+				},
+				displayOptions: {
+					show: {
+						operation: ['findDuplicates'],
+					},
+				},
+				description: 'Max number of results to return, 0 for all',
+			},
+
 			// Ancestry/Descendants options
 			{
 				displayName: 'Root Person ID',
@@ -352,7 +774,7 @@ export class Gedcom implements INodeType {
 				required: true,
 				displayOptions: {
 					show: {
-						operation: ['ancestors', 'descendants'],
+						operation: ['ancestors', 'descendants', 'extractSubtree', 'renderChart'],
 					},
 				},
 				description: 'ID of the person to get ancestors/descendants for (e.g., @I0074@ or I0074)',
@@ -373,51 +795,1058 @@ export class Gedcom implements INodeType {
 				},
 				description: 'Maximum number of generations to retrieve',
 			},
-		],
-	};
-
-	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-		const items = this.getInputData();
-		const returnData: INodeExecutionData[] = [];
-
-		for (let i = 0; i < items.length; i++) {
-			try {
-				const operation = this.getNodeParameter('operation', i) as string;
-
-				switch (operation) {
-					case 'parse':
-						const source = this.getNodeParameter('source', i) as string;
-						let gedcomBuffer: Buffer;
-
-						if (source === 'binary') {
-							const binaryProperty = this.getNodeParameter('binaryProperty', i) as string;
-							const binaryData = this.helpers.assertBinaryData(i, binaryProperty);
-							gedcomBuffer = Buffer.from(binaryData.data, 'base64');
-						} else {
-							const url = this.getNodeParameter('url', i) as string;
-							const response = await this.helpers.httpRequest({
-								method: 'GET',
-								url,
-								encoding: 'arraybuffer',
-								returnFullResponse: true,
-							});
-
-							if (response.statusCode !== 200) {
-								throw new NodeOperationError(this.getNode(), `Failed to download GEDCOM file from URL: ${response.statusCode}`);
-							}
+			{
+				displayName: 'Keep',
+				name: 'subtreeMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Ancestors',
+						value: 'ancestors',
+						description: 'Parents, grandparents and so on',
+					},
+					{
+						name: 'Descendants',
+						value: 'descendants',
+						description: 'Children, grandchildren and so on, with their spouses',
+					},
+					{
+						name: 'Ancestors and Descendants',
+						value: 'both',
+					},
+					{
+						name: 'Relatives Within N Degrees',
+						value: 'relatives',
+						description: 'Everyone reachable through at most N parent, child or spouse links',
+					},
+				],
+				default: 'descendants',
+				displayOptions: {
+					show: {
+						operation: ['extractSubtree'],
+					},
+				},
+				description: 'Which persons to keep around the root person',
+			},
+			{
+				displayName: 'Max Generations or Degrees',
+				name: 'subtreeDepth',
+				type: 'number',
+				default: 9,
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						operation: ['extractSubtree'],
+					},
+				},
+				description: 'Generations kept above or below the root person, or links followed for relatives',
+			},
+			{
+				displayName: 'Numbering',
+				name: 'numbering',
+				type: 'options',
+				options: [
+					{
+						name: 'None',
+						value: 'none',
+						description: 'Do not number descendants',
+					},
+					{
+						name: "D'Aboville",
+						value: 'daboville',
+						description: 'Birth order at each generation, separated by dots (1.2.3)',
+					},
+					{
+						name: 'Henry',
+						value: 'henry',
+						description: 'Birth order at each generation, as digits (123, 1(10) from the tenth child)',
+					},
+					{
+						name: 'Register (NGSQ)',
+						value: 'register',
+						description: 'Sequential numbers generation by generation, with the birth order as a roman numeral',
+					},
+				],
+				default: 'none',
+				displayOptions: {
+					show: {
+						operation: ['descendants'],
+					},
+				},
+				description: 'Numbering system for the descendant list',
+			},
 
-							gedcomBuffer = response.body as Buffer;
-						}
+			// Relationship options
+			{
+				displayName: 'First Person ID',
+				name: 'personId1',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['relationship'],
+					},
+				},
+				description: 'ID of the person the relationship is described from (e.g., @I0074@ or I0074)',
+			},
+			{
+				displayName: 'Second Person ID',
+				name: 'personId2',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['relationship'],
+					},
+				},
+				description: 'ID of the person whose relationship to the first person is returned',
+			},
+			{
+				displayName: 'Language',
+				name: 'relationshipLanguage',
+				type: 'options',
+				options: [
+					{
+						name: 'English',
+						value: 'en',
+					},
+					{
+						name: 'Français',
+						value: 'fr',
+					},
+				],
+				default: 'en',
+				displayOptions: {
+					show: {
+						operation: ['relationship'],
+					},
+				},
+				description: 'Language of the relationship label',
+			},
 
-						if (!gedcomBuffer || gedcomBuffer.length === 0) {
-							throw new NodeOperationError(this.getNode(), 'GEDCOM file is empty or could not be read');
+			// Merge options
+			{
+				displayName: 'Record Type',
+				name: 'mergeType',
+				type: 'options',
+				options: [
+					{
+						name: 'Person',
+						value: 'person',
+					},
+					{
+						name: 'Family',
+						value: 'family',
+					},
+				],
+				default: 'person',
+				displayOptions: {
+					show: {
+						operation: ['merge'],
+					},
+				},
+			},
+			{
+				displayName: 'Record ID to Keep',
+				name: 'mergeKeepId',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['merge'],
+					},
+				},
+				description: 'ID of the record that survives the merge (e.g., @I1@ or I1)',
+			},
+			{
+				displayName: 'Record ID to Merge',
+				name: 'mergeRemoveId',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['merge'],
+					},
+				},
+				description: 'ID of the record merged into the first one and removed',
+			},
+			{
+				displayName: 'Conflicts',
+				name: 'mergePolicy',
+				type: 'options',
+				options: [
+					{
+						name: 'Keep First',
+						value: 'first',
+						description: 'Keep the name, sex, spouses and once-only events of the record kept',
+					},
+					{
+						name: 'Keep Second',
+						value: 'second',
+						description: 'Take the name, sex, spouses and once-only events of the merged record',
+					},
+					{
+						name: 'Keep Both',
+						value: 'both',
+						description: 'Keep the first values and add the second as alternates (extra NAME, second BIRT…)',
+					},
+				],
+				default: 'first',
+				displayOptions: {
+					show: {
+						operation: ['merge'],
+					},
+				},
+				description: 'How to settle fields the two records give different values for',
+			},
+
+			// Merge Trees options
+			{
+				displayName: 'Trees',
+				name: 'mergeTreesSource',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Input Items',
+						value: 'items',
+						description: 'Merge the parsed trees of all input items into a single item',
+					},
+					{
+						name: 'Binary Properties',
+						value: 'binary',
+						description: 'Merge two GEDCOM files held in two binary properties of each item',
+					},
+				],
+				default: 'items',
+				displayOptions: {
+					show: {
+						operation: ['mergeTrees'],
+					},
+				},
+			},
+			{
+				displayName: 'First Binary Property',
+				name: 'binaryProperty1',
+				type: 'string',
+				default: 'data',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['mergeTrees'],
+						mergeTreesSource: ['binary'],
+					},
+				},
+				description: 'Name of the binary property containing the first GEDCOM file',
+			},
+			{
+				displayName: 'Second Binary Property',
+				name: 'binaryProperty2',
+				type: 'string',
+				default: 'data2',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['mergeTrees'],
+						mergeTreesSource: ['binary'],
+					},
+				},
+				description: 'Name of the binary property containing the second GEDCOM file',
+			},
+			{
+				displayName: 'Match Persons By',
+				name: 'treeMatchBy',
+				type: 'options',
+				options: [
+					{
+						name: 'Do Not Match',
+						value: 'none',
+						description: 'Keep every person of every tree',
+					},
+					{
+						name: 'Unique ID',
+						value: 'uid',
+						description: 'Merge persons with the same _UID or REFN',
+					},
+					{
+						name: 'Name and Birth Date',
+						value: 'nameBirth',
+						description: 'Merge persons with the same name (ignoring case, accents and word order) and birth date',
+					},
+				],
+				default: 'none',
+				displayOptions: {
+					show: {
+						operation: ['mergeTrees'],
+					},
+				},
+				description: 'How to recognise the same person in two trees; matched persons are merged, keeping the earlier tree\'s record',
+			},
+
+			// Build Tree options
+			{
+				displayName: 'Rows',
+				name: 'buildSource',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Input Items',
+						value: 'items',
+						description: 'One person per input item, all built into a single tree',
+					},
+					{
+						name: 'CSV File',
+						value: 'binary',
+						description: 'One person per line of a CSV file in each item',
+					},
+				],
+				default: 'items',
+				displayOptions: {
+					show: {
+						operation: ['buildTree'],
+					},
+				},
+			},
+			{
+				displayName: 'Binary Property',
+				name: 'binaryProperty',
+				type: 'string',
+				default: 'data',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['buildTree'],
+						buildSource: ['binary'],
+					},
+				},
+				description: 'Name of the binary property containing the CSV file',
+			},
+
+			// Compare options
+			{
+				displayName: 'Trees',
+				name: 'compareSource',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Input Items',
+						value: 'items',
+						description: 'Compare the parsed tree of the first input item (old) with the second one (new)',
+					},
+					{
+						name: 'Binary Properties',
+						value: 'binary',
+						description: 'Compare two GEDCOM files held in two binary properties of each item',
+					},
+				],
+				default: 'items',
+				displayOptions: {
+					show: {
+						operation: ['compare'],
+					},
+				},
+			},
+			{
+				displayName: 'Old Binary Property',
+				name: 'binaryProperty1',
+				type: 'string',
+				default: 'data',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['compare'],
+						compareSource: ['binary'],
+					},
+				},
+				description: 'Name of the binary property containing the old version of the GEDCOM file',
+			},
+			{
+				displayName: 'New Binary Property',
+				name: 'binaryProperty2',
+				type: 'string',
+				default: 'data2',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['compare'],
+						compareSource: ['binary'],
+					},
+				},
+				description: 'Name of the binary property containing the new version of the GEDCOM file',
+			},
+			{
+				displayName: 'Match by Unique ID',
+				name: 'compareMatchByUid',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['compare'],
+					},
+				},
+				description: 'Whether records whose ID is missing from the other tree are matched by their _UID, so renumbered records are not reported as removed and added',
+			},
+
+			// Export Graph options
+			{
+				displayName: 'Format',
+				name: 'graphFormat',
+				type: 'options',
+				options: [
+					{
+						name: 'GraphViz DOT',
+						value: 'dot',
+					},
+					{
+						name: 'Mermaid Flowchart',
+						value: 'mermaid',
+						description: 'Text that Markdown renderers such as GitHub and GitLab draw as a chart',
+					},
+					{
+						name: 'Cytoscape JSON',
+						value: 'cytoscape',
+						description: 'Elements for Cytoscape.js, generations as compound nodes',
+					},
+					{
+						name: 'D3 JSON',
+						value: 'd3',
+						description: 'Nodes and links for D3 force layouts',
+					},
+				],
+				default: 'mermaid',
+				displayOptions: {
+					show: {
+						operation: ['exportGraph'],
+					},
+				},
+			},
+			{
+				displayName: 'Labels',
+				name: 'graphLabels',
+				type: 'multiOptions',
+				options: [
+					{
+						name: 'Name',
+						value: 'name',
+					},
+					{
+						name: 'Lifespan',
+						value: 'lifespan',
+						description: 'Birth and death years, and the marriage year on unions',
+					},
+					{
+						name: 'ID',
+						value: 'id',
+					},
+				],
+				default: ['name', 'lifespan'],
+				displayOptions: {
+					show: {
+						operation: ['exportGraph'],
+					},
+				},
+				description: 'Lines of each person\'s label',
+			},
+			{
+				displayName: 'Cluster by Generation',
+				name: 'graphClusterGenerations',
+				type: 'boolean',
+				default: true,
+				displayOptions: {
+					show: {
+						operation: ['exportGraph'],
+					},
+				},
+				description: 'Whether to group the persons of each generation in a box',
+			},
+
+			// Export Table options
+			{
+				displayName: 'Format',
+				name: 'tableFormat',
+				type: 'options',
+				options: [
+					{
+						name: 'CSV',
+						value: 'csv',
+						description: 'One CSV file per table, each in the binary property named after the table',
+					},
+					{
+						name: 'XLSX',
+						value: 'xlsx',
+						description: 'One workbook with a sheet per table',
+					},
+				],
+				default: 'csv',
+				displayOptions: {
+					show: {
+						operation: ['exportTable'],
+					},
+				},
+			},
+			{
+				displayName: 'Tables',
+				name: 'tables',
+				type: 'multiOptions',
+				options: [
+					{
+						name: 'Persons',
+						value: 'persons',
+					},
+					{
+						name: 'Families',
+						value: 'families',
+					},
+					{
+						name: 'Events',
+						value: 'events',
+						description: 'One row per event of every person and family',
+					},
+				],
+				default: ['persons', 'families', 'events'],
+				displayOptions: {
+					show: {
+						operation: ['exportTable'],
+					},
+				},
+			},
+			{
+				displayName: 'Person Columns',
+				name: 'personColumns',
+				type: 'multiOptions',
+				options: tableColumnOptions('persons'),
+				default: TABLE_COLUMNS.persons,
+				displayOptions: {
+					show: {
+						operation: ['exportTable'],
+						tables: ['persons'],
+					},
+				},
+				description: 'Columns of the persons table, in this order',
+			},
+			{
+				displayName: 'Family Columns',
+				name: 'familyColumns',
+				type: 'multiOptions',
+				options: tableColumnOptions('families'),
+				default: TABLE_COLUMNS.families,
+				displayOptions: {
+					show: {
+						operation: ['exportTable'],
+						tables: ['families'],
+					},
+				},
+				description: 'Columns of the families table, in this order',
+			},
+			{
+				displayName: 'Event Columns',
+				name: 'eventColumns',
+				type: 'multiOptions',
+				options: tableColumnOptions('events'),
+				default: TABLE_COLUMNS.events,
+				displayOptions: {
+					show: {
+						operation: ['exportTable'],
+						tables: ['events'],
+					},
+				},
+				description: 'Columns of the events table, in this order',
+			},
+			{
+				displayName: 'Delimiter',
+				name: 'csvDelimiter',
+				type: 'options',
+				options: [
+					{
+						name: 'Comma',
+						value: 'comma',
+					},
+					{
+						name: 'Semicolon',
+						value: 'semicolon',
+						description: 'What spreadsheets expect in locales with a decimal comma',
+					},
+					{
+						name: 'Tab',
+						value: 'tab',
+					},
+				],
+				default: 'comma',
+				displayOptions: {
+					show: {
+						operation: ['exportTable'],
+						tableFormat: ['csv'],
+					},
+				},
+			},
+			{
+				displayName: 'Binary Property',
+				name: 'tableBinaryProperty',
+				type: 'string',
+				default: 'data',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['exportTable'],
+						tableFormat: ['xlsx'],
+					},
+				},
+				description: 'Name of the binary property to store the workbook',
+			},
+			{
+				displayName: 'File Name',
+				name: 'tableFileName',
+				type: 'string',
+				default: 'tree',
+				displayOptions: {
+					show: {
+						operation: ['exportTable'],
+					},
+				},
+				description: 'Base name of the files: tree.xlsx, or tree-persons.csv, tree-families.csv…',
+			},
+
+			// Privatize options
+			{
+				displayName: 'Living Persons',
+				name: 'privacyAction',
+				type: 'options',
+				options: [
+					{
+						name: 'Remove',
+						value: 'remove',
+						description: 'Delete them and every link to them',
+					},
+					{
+						name: 'Replace Name With "Living"',
+						value: 'replaceName',
+						description: 'Keep them in the tree as "Living", without any detail',
+					},
+					{
+						name: 'Strip Details',
+						value: 'stripDetails',
+						description: 'Keep their name and sex, and delete their events, notes, media and citations',
+					},
+				],
+				default: 'replaceName',
+				displayOptions: {
+					show: {
+						operation: ['privatize'],
+					},
+				},
+				description: 'What to do with the persons presumed living',
+			},
+			{
+				displayName: 'Age Threshold',
+				name: 'livingAgeThreshold',
+				type: 'number',
+				default: 100,
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						operation: ['privatize'],
+					},
+				},
+				description: 'Persons without a death record are presumed living unless they were born more than this many years ago',
+			},
+
+			// Render Chart options
+			{
+				displayName: 'Chart',
+				name: 'chartType',
+				type: 'options',
+				options: [
+					{
+						name: 'Pedigree',
+						value: 'pedigree',
+						description: 'Ancestors in columns, from the root person on the left',
+					},
+					{
+						name: 'Fan',
+						value: 'fan',
+						description: 'Ancestors in rings around the root person',
+					},
+					{
+						name: 'Descendants',
+						value: 'descendants',
+						description: 'Descendants in rows, joined by drop lines from the root person at the top',
+					},
+				],
+				default: 'pedigree',
+				displayOptions: {
+					show: {
+						operation: ['renderChart'],
+					},
+				},
+			},
+			{
+				displayName: 'Fan Shape',
+				name: 'fanAngle',
+				type: 'options',
+				options: [
+					{
+						name: 'Half Circle',
+						value: 180,
+					},
+					{
+						name: 'Full Circle',
+						value: 360,
+					},
+				],
+				default: 180,
+				displayOptions: {
+					show: {
+						operation: ['renderChart'],
+						chartType: ['fan'],
+					},
+				},
+			},
+			{
+				displayName: 'Generations',
+				name: 'chartGenerations',
+				type: 'number',
+				default: 4,
+				typeOptions: {
+					minValue: 1,
+					maxValue: 10,
+				},
+				displayOptions: {
+					show: {
+						operation: ['renderChart'],
+					},
+				},
+				description: 'Number of generations drawn, the root person\'s included',
+			},
+			{
+				displayName: 'Box Content',
+				name: 'chartBoxContent',
+				type: 'multiOptions',
+				options: [
+					{
+						name: 'Name',
+						value: 'name',
+					},
+					{
+						name: 'Lifespan',
+						value: 'lifespan',
+						description: 'Birth and death years',
+					},
+					{
+						name: 'Birth',
+						value: 'birth',
+						description: 'Birth date and place',
+					},
+					{
+						name: 'Death',
+						value: 'death',
+						description: 'Death date and place',
+					},
+					{
+						name: 'ID',
+						value: 'id',
+					},
+				],
+				default: ['name', 'lifespan'],
+				displayOptions: {
+					show: {
+						operation: ['renderChart'],
+					},
+				},
+				description: 'Lines written in each person\'s box, in this order',
+			},
+			{
+				displayName: 'Color By',
+				name: 'chartColorBy',
+				type: 'options',
+				options: [
+					{
+						name: 'Sex',
+						value: 'sex',
+					},
+					{
+						name: 'Branch',
+						value: 'branch',
+						description: 'One color per grandparent for ancestors, per child of the root person for descendants',
+					},
+					{
+						name: 'Generation',
+						value: 'generation',
+					},
+					{
+						name: 'None',
+						value: 'none',
+					},
+				],
+				default: 'sex',
+				displayOptions: {
+					show: {
+						operation: ['renderChart'],
+					},
+				},
+			},
+			{
+				displayName: 'Page Size',
+				name: 'chartPageSize',
+				type: 'options',
+				options: [
+					{
+						name: 'Fit Chart',
+						value: 'auto',
+						description: 'As large as the chart, in pixels',
+					},
+					{
+						name: 'A4',
+						value: 'a4',
+					},
+					{
+						name: 'A3',
+						value: 'a3',
+					},
+					{
+						name: 'Letter',
+						value: 'letter',
+					},
+					{
+						name: 'Tabloid',
+						value: 'tabloid',
+					},
+				],
+				default: 'auto',
+				displayOptions: {
+					show: {
+						operation: ['renderChart'],
+					},
+				},
+				description: 'Size of the SVG document. The chart is scaled to fit the page and centred.',
+			},
+			{
+				displayName: 'Orientation',
+				name: 'chartOrientation',
+				type: 'options',
+				options: [
+					{
+						name: 'Landscape',
+						value: 'landscape',
+					},
+					{
+						name: 'Portrait',
+						value: 'portrait',
+					},
+				],
+				default: 'landscape',
+				displayOptions: {
+					show: {
+						operation: ['renderChart'],
+						chartPageSize: ['a4', 'a3', 'letter', 'tabloid'],
+					},
+				},
+			},
+			{
+				displayName: 'Binary Property',
+				name: 'chartBinaryProperty',
+				type: 'string',
+				default: 'data',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['renderChart'],
+					},
+				},
+				description: 'Name of the binary property to store the SVG file',
+			},
+			{
+				displayName: 'File Name',
+				name: 'chartFileName',
+				type: 'string',
+				default: 'chart.svg',
+				displayOptions: {
+					show: {
+						operation: ['renderChart'],
+					},
+				},
+				description: 'Filename for the SVG file',
+			},
+
+			// Repair options
+			{
+				displayName: 'Fixes',
+				name: 'repairFixes',
+				type: 'multiOptions',
+				options: [
+					{
+						name: 'Remove Duplicate Pointers',
+						value: 'dedupe-pointers',
+						description: 'Keep a single copy of repeated FAMC, FAMS and CHIL pointers',
+					},
+					{
+						name: 'Remove Dangling Pointers',
+						value: 'remove-dangling',
+						description: 'Remove links, notes, sources and media pointing to records that do not exist',
+					},
+					{
+						name: 'Restore Reciprocal Links',
+						value: 'restore-links',
+						description: 'Add the missing CHIL for a FAMC, HUSB or WIFE for a FAMS, and the other way round',
+					},
+					{
+						name: 'Remove Empty Families',
+						value: 'remove-empty-families',
+						description: 'Delete families without husband, wife or children',
+					},
+				],
+				default: ['dedupe-pointers', 'remove-dangling', 'restore-links', 'remove-empty-families'],
+				displayOptions: {
+					show: {
+						operation: ['repair'],
+					},
+				},
+				description: 'Fixes to apply',
+			},
+
+			// Validate options
+			{
+				displayName: 'Input',
+				name: 'validateInput',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Parsed Data',
+						value: 'json',
+						description: 'Validate the parsed GEDCOM result of the input item',
+					},
+					{
+						name: 'Binary Data',
+						value: 'binary',
+						description: 'Parse and validate a GEDCOM file from binary data',
+					},
+				],
+				default: 'json',
+				displayOptions: {
+					show: {
+						operation: ['validate'],
+					},
+				},
+			},
+			{
+				displayName: 'Binary Property',
+				name: 'binaryProperty',
+				type: 'string',
+				default: 'data',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['validate'],
+						validateInput: ['binary'],
+					},
+				},
+				description: 'Name of the binary property containing the GEDCOM file',
+			},
+			{
+				displayName: 'Output',
+				name: 'validateOutput',
+				type: 'options',
+				options: [
+					{
+						name: 'Report',
+						value: 'report',
+						description: 'One item with the counts and all issues',
+					},
+					{
+						name: 'One Item per Issue',
+						value: 'issues',
+						description: 'One item per issue, to route them by severity or code',
+					},
+				],
+				default: 'report',
+				displayOptions: {
+					show: {
+						operation: ['validate'],
+					},
+				},
+			},
+		],
+	};
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		const items = this.getInputData();
+		const returnData: INodeExecutionData[] = [];
+
+		for (let i = 0; i < items.length; i++) {
+			try {
+				const operation = this.getNodeParameter('operation', i) as string;
+
+				switch (operation) {
+					case 'parse':
+						const source = this.getNodeParameter('source', i) as string;
+						let gedcomBuffer: Buffer;
+						let archiveFiles: ZipEntry[] = [];
+
+						if (source === 'binary' || source === 'gedzip') {
+							const binaryProperty = this.getNodeParameter('binaryProperty', i) as string;
+							const binaryData = this.helpers.assertBinaryData(i, binaryProperty);
+							gedcomBuffer = Buffer.from(binaryData.data, 'base64');
+						} else {
+							const url = this.getNodeParameter('url', i) as string;
+							const response = await this.helpers.httpRequest({
+								method: 'GET',
+								url,
+								encoding: 'arraybuffer',
+								returnFullResponse: true,
+							});
+
+							if (response.statusCode !== 200) {
+								throw new NodeOperationError(this.getNode(), `Failed to download GEDCOM file from URL: ${response.statusCode}`);
+							}
+
+							gedcomBuffer = response.body as Buffer;
+						}
+
+						if (!gedcomBuffer || gedcomBuffer.length === 0) {
+							throw new NodeOperationError(this.getNode(), 'GEDCOM file is empty or could not be read');
+						}
+
+						if (source === 'gedzip') {
+							try {
+								const archive = GedcomMedia.readGedzip(gedcomBuffer);
+								gedcomBuffer = archive.gedcom;
+								archiveFiles = archive.files;
+							} catch (error) {
+								throw new NodeOperationError(this.getNode(), `Failed to read GEDZIP archive: ${(error as Error).message}`);
+							}
 						}
 
 						const parseResult = GedcomParser.parseGedcomWithFallback(gedcomBuffer, this);
-						returnData.push({
+						const parseItem: INodeExecutionData = {
 							json: parseResult as unknown as IDataObject,
 							pairedItem: { item: i },
-						});
+						};
+
+						if (source === 'gedzip') {
+							const mediaProperties = GedcomMedia.attachFiles(parseResult, archiveFiles);
+							parseItem.binary = {};
+							for (const [property, file] of Object.entries(mediaProperties)) {
+								const fileName = file.name.split('/').pop() || file.name;
+								parseItem.binary[property] = {
+									data: file.data.toString('base64'),
+									mimeType: GedcomMedia.mimeType(fileName),
+									fileName,
+									fileExtension: fileName.includes('.') ? fileName.split('.').pop() : undefined,
+								};
+							}
+						}
+
+						returnData.push(parseItem);
 						break;
 
 					case 'generate':
@@ -428,18 +1857,35 @@ export class Gedcom implements INodeType {
 							throw new NodeOperationError(this.getNode(), 'Input data must be a valid parsed GEDCOM result with persons, families, and meta properties');
 						}
 
-						const gedcomContent = GedcomGenerator.generateGedcom(inputData);
+						const generateParameters = (this.getNodeParameter('generateOptions', i, {}) || {}) as IDataObject;
+						const outputEncoding = OUTPUT_ENCODINGS[(generateParameters.encoding as string) || 'utf8'];
+						const gedcomVersion = generateParameters.version === '7.0' ? '7.0' : '5.5.1';
+						const binaryOutput = outputFormat === 'binary' || outputFormat === 'gedzip';
+						if (gedcomVersion === '7.0' && binaryOutput && outputEncoding.encoding !== 'UTF-8') {
+							throw new NodeOperationError(this.getNode(), 'GEDCOM 7.0 files must be encoded in UTF-8');
+						}
+
+						const generateOptions: GenerateOptions = {
+							version: gedcomVersion,
+							encoding: binaryOutput ? outputEncoding.encoding : 'UTF-8',
+							bom: binaryOutput && outputEncoding.bom,
+							lineEnding: generateParameters.lineEnding === 'CRLF' ? 'CRLF' : 'LF',
+						};
+						if (generateParameters.maxLineLength !== undefined) {
+							generateOptions.maxLineLength = generateParameters.maxLineLength as number;
+						}
 
 						if (outputFormat === 'binary') {
 							const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
 							const filename = this.getNodeParameter('filename', i) as string;
 							
-							const binaryData = Buffer.from(gedcomContent, 'utf8');
+							const binaryData = GedcomGenerator.generateGedcomBuffer(inputData, generateOptions);
 							
 							returnData.push({
 								json: {
 									filename,
 									size: binaryData.length,
+									encoding: generateOptions.encoding,
 								},
 								binary: {
 									[binaryPropertyName]: {
@@ -451,7 +1897,47 @@ export class Gedcom implements INodeType {
 								},
 								pairedItem: { item: i },
 							});
+						} else if (outputFormat === 'gedzip') {
+							const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+							const filename = (this.getNodeParameter('filename', i) as string).replace(/\.ged$/i, '.gdz');
+							const mediaEntries: ZipEntry[] = [];
+							const mediaPaths = new Set<string>();
+
+							// Media files are taken from the input item's binary properties recorded by Parse
+							for (const media of inputData.media || []) {
+								for (const file of media.files || []) {
+									const path = GedcomMedia.normalizePath(file.path);
+									if (!file.binaryProperty || !items[i].binary || !items[i].binary![file.binaryProperty] || mediaPaths.has(path)) {
+										continue;
+									}
+									const mediaBinary = this.helpers.assertBinaryData(i, file.binaryProperty);
+									mediaEntries.push({ name: path, data: Buffer.from(mediaBinary.data, 'base64') });
+									mediaPaths.add(path);
+								}
+							}
+
+							const archive = GedcomMedia.writeGedzip(GedcomGenerator.generateGedcomBuffer(inputData, generateOptions), mediaEntries);
+
+							returnData.push({
+								json: {
+									filename,
+									size: archive.length,
+									encoding: generateOptions.encoding,
+									mediaFiles: mediaEntries.length,
+								},
+								binary: {
+									[binaryPropertyName]: {
+										data: archive.toString('base64'),
+										mimeType: 'application/zip',
+										fileName: filename,
+										fileExtension: 'gdz',
+									},
+								},
+								pairedItem: { item: i },
+							});
 						} else {
+							const gedcomContent = GedcomGenerator.generateGedcom(inputData, generateOptions);
+
 							returnData.push({
 								json: {
 									gedcom: gedcomContent,
@@ -474,15 +1960,30 @@ export class Gedcom implements INodeType {
 						
 						let individualFilters: PersonFilter = {};
 						let familyFilters: FamilyFilter = {};
+						let sourceFilters: SourceFilter = {};
+						let noteFilters: NoteFilter = {};
 						
 						if (searchType === 'individual' || searchType === 'all') {
 							individualFilters = this.getNodeParameter('individualFilters', i) as PersonFilter;
+
+							const invalidDateFilters = GedcomFinder.invalidDateFilters(individualFilters);
+							if (invalidDateFilters.length > 0) {
+								throw new NodeOperationError(this.getNode(), `Invalid date in individual filters: ${invalidDateFilters.join(', ')}`);
+							}
 						}
 						
 						if (searchType === 'family' || searchType === 'all') {
 							familyFilters = this.getNodeParameter('familyFilters', i) as FamilyFilter;
 						}
 
+						if (searchType === 'source') {
+							sourceFilters = (this.getNodeParameter('sourceFilters', i, {}) || {}) as SourceFilter;
+						}
+
+						if (searchType === 'note') {
+							noteFilters = { text: this.getNodeParameter('noteText', i, '') as string };
+						}
+
 						let findResult: any;
 						
 						// Effectuer la recherche selon le type
@@ -582,6 +2083,39 @@ export class Gedcom implements INodeType {
 								}
 								break;
 
+							case 'source':
+								const sourceResults = GedcomFinder.findSources(findInputData, sourceFilters);
+								const sourceSearch = {
+									meta: {
+										totalFound: sourceResults.sources.length,
+										totalSources: (findInputData.sources || []).length,
+										totalFacts: sourceResults.facts.length,
+										searchType: 'source',
+										filters: sourceFilters,
+									},
+									sources: sourceResults.sources,
+									facts: sourceResults.facts,
+								};
+								findResult = includeFullData === 'all'
+									? { ...findInputData, searchResults: sourceSearch }
+									: sourceSearch;
+								break;
+
+							case 'note':
+								const noteResults = GedcomFinder.findNotes(findInputData, noteFilters);
+								const noteSearch = {
+									meta: {
+										totalFound: noteResults.length,
+										searchType: 'note',
+										filters: noteFilters,
+									},
+									notes: noteResults,
+								};
+								findResult = includeFullData === 'all'
+									? { ...findInputData, searchResults: noteSearch }
+									: noteSearch;
+								break;
+
 							default:
 								throw new NodeOperationError(this.getNode(), `Unknown search type: ${searchType}`);
 						}
@@ -592,6 +2126,33 @@ export class Gedcom implements INodeType {
 						});
 						break;
 
+					case 'findDuplicates':
+						const duplicatesInputData = items[i].json as unknown as ParseResult;
+
+						if (!duplicatesInputData.persons || !duplicatesInputData.families || !duplicatesInputData.meta) {
+							throw new NodeOperationError(this.getNode(), 'Input data must be a valid parsed GEDCOM result with persons, families, and meta properties');
+						}
+
+						const duplicateOptions: DuplicateOptions = { threshold: 70, limit: 50 };
+						const duplicateThreshold = this.getNodeParameter('duplicateThreshold', i, 70) as number | undefined;
+						const duplicateLimit = this.getNodeParameter('duplicateLimit', i, 50) as number | undefined;
+						if (duplicateThreshold !== undefined) duplicateOptions.threshold = duplicateThreshold;
+						if (duplicateLimit !== undefined) duplicateOptions.limit = duplicateLimit;
+
+						const duplicates = GedcomDuplicates.findDuplicates(duplicatesInputData, duplicateOptions);
+
+						returnData.push({
+							json: {
+								meta: {
+									totalFound: duplicates.length,
+									threshold: duplicateOptions.threshold,
+								},
+								duplicates,
+							} as unknown as IDataObject,
+							pairedItem: { item: i },
+						});
+						break;
+
 					case 'ancestors':
 						const ancestorsInputData = items[i].json as unknown as ParseResult;
 						
@@ -627,13 +2188,378 @@ export class Gedcom implements INodeType {
 							throw new NodeOperationError(this.getNode(), 'Root Person ID is required for descendants operation');
 						}
 
-						const descendantsResult = GedcomAncestry.computeDescendants(descendantsInputData, descendantsRootId, descendantsMaxGenerations, this);
+						const descendantsNumbering = (this.getNodeParameter('numbering', i, 'none') || 'none') as DescendantNumbering;
+						const descendantsResult = GedcomAncestry.computeDescendants(descendantsInputData, descendantsRootId, descendantsMaxGenerations, this, descendantsNumbering);
 						returnData.push({
 							json: descendantsResult as unknown as IDataObject,
 							pairedItem: { item: i },
 						});
 						break;
 
+					case 'exportGraph':
+						const graphInput = items[i].json as unknown as AncestryResult & ParseResult;
+						let graphModel: GraphModel;
+
+						// Get Ancestors and Get Descendants results, or a whole parsed tree
+						if (graphInput.nodes && graphInput.edges && graphInput.generations) {
+							graphModel = GedcomGraph.fromAncestry(graphInput);
+						} else if (graphInput.persons && graphInput.families && graphInput.meta) {
+							graphModel = GedcomGraph.fromParseResult(graphInput);
+						} else {
+							throw new NodeOperationError(this.getNode(), 'Input data must be a parsed GEDCOM result or the result of Get Ancestors or Get Descendants');
+						}
+
+						const graphFormat = (this.getNodeParameter('graphFormat', i, 'mermaid') || 'mermaid') as GraphFormat;
+						const graphLabels = (this.getNodeParameter('graphLabels', i, ['name', 'lifespan']) || ['name', 'lifespan']) as GraphLabelField[];
+						const graphClusterGenerations = this.getNodeParameter('graphClusterGenerations', i, true) !== false;
+						let graphJson: IDataObject;
+
+						switch (graphFormat) {
+							case 'dot':
+								graphJson = { format: graphFormat, graph: GedcomGraph.toDot(graphModel, graphLabels, graphClusterGenerations) };
+								break;
+							case 'cytoscape':
+								graphJson = { format: graphFormat, elements: GedcomGraph.toCytoscape(graphModel, graphLabels, graphClusterGenerations) };
+								break;
+							case 'd3':
+								graphJson = { format: graphFormat, ...GedcomGraph.toD3(graphModel, graphLabels) };
+								break;
+							default:
+								graphJson = { format: graphFormat, graph: GedcomGraph.toMermaid(graphModel, graphLabels, graphClusterGenerations) };
+						}
+
+						returnData.push({
+							json: graphJson,
+							pairedItem: { item: i },
+						});
+						break;
+
+					case 'exportTable':
+						const tableInputData = items[i].json as unknown as ParseResult;
+
+						if (!tableInputData.persons || !tableInputData.families || !tableInputData.meta) {
+							throw new NodeOperationError(this.getNode(), 'Input data must be a valid parsed GEDCOM result with persons, families, and meta properties');
+						}
+
+						const tableFormat = this.getNodeParameter('tableFormat', i, 'csv') || 'csv';
+						const tables = (this.getNodeParameter('tables', i, ['persons', 'families', 'events']) || ['persons', 'families', 'events']) as TableName[];
+						const tableFileName = (this.getNodeParameter('tableFileName', i, 'tree') || 'tree') as string;
+						if (tables.length === 0) {
+							throw new NodeOperationError(this.getNode(), 'Select at least one table to export');
+						}
+
+						const sheets = GedcomTable.sheets(tableInputData, tables, {
+							persons: this.getNodeParameter('personColumns', i, []) as string[],
+							families: this.getNodeParameter('familyColumns', i, []) as string[],
+							events: this.getNodeParameter('eventColumns', i, []) as string[],
+						});
+						const tableBinary: IBinaryKeyData = {};
+
+						if (tableFormat === 'xlsx') {
+							const workbook = GedcomTable.toXlsx(sheets);
+							tableBinary[this.getNodeParameter('tableBinaryProperty', i, 'data') as string] = {
+								data: workbook.toString('base64'),
+								mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+								fileName: `${tableFileName}.xlsx`,
+								fileExtension: 'xlsx',
+							};
+						} else {
+							const delimiter = CSV_DELIMITERS[this.getNodeParameter('csvDelimiter', i, 'comma') as string] || ',';
+							for (const sheet of sheets) {
+								tableBinary[sheet.name] = {
+									data: GedcomTable.toCsv(sheet, delimiter).toString('base64'),
+									mimeType: 'text/csv',
+									fileName: `${tableFileName}-${sheet.name}.csv`,
+									fileExtension: 'csv',
+								};
+							}
+						}
+						returnData.push({
+							json: {
+								format: tableFormat,
+								rows: Object.fromEntries(sheets.map(sheet => [sheet.name, sheet.rows.length])),
+							},
+							binary: tableBinary,
+							pairedItem: { item: i },
+						});
+						break;
+
+					case 'extractSubtree':
+						const subtreeInputData = items[i].json as unknown as ParseResult;
+
+						if (!subtreeInputData.persons || !subtreeInputData.families || !subtreeInputData.meta) {
+							throw new NodeOperationError(this.getNode(), 'Input data must be a valid parsed GEDCOM result with persons, families, and meta properties');
+						}
+
+						const subtreeRootId = this.getNodeParameter('rootId', i) as string;
+						if (!subtreeRootId) {
+							throw new NodeOperationError(this.getNode(), 'Root Person ID is required for extract subtree operation');
+						}
+
+						const subtreeMode = (this.getNodeParameter('subtreeMode', i, 'descendants') || 'descendants') as SubtreeMode;
+						const subtreeDepth = (this.getNodeParameter('subtreeDepth', i, 9) || 9) as number;
+						const subtree = GedcomSubtree.extract(subtreeInputData, subtreeRootId, subtreeMode, subtreeDepth, this);
+
+						// Media binaries read from a GEDZIP archive stay with the extracted data
+						returnData.push({
+							json: subtree as unknown as IDataObject,
+							binary: items[i].binary,
+							pairedItem: { item: i },
+						});
+						break;
+
+					case 'relationship':
+						const relationshipInputData = items[i].json as unknown as ParseResult;
+
+						if (!relationshipInputData.persons || !relationshipInputData.families || !relationshipInputData.meta) {
+							throw new NodeOperationError(this.getNode(), 'Input data must be a valid parsed GEDCOM result with persons, families, and meta properties');
+						}
+
+						const firstPersonId = this.getNodeParameter('personId1', i) as string;
+						const secondPersonId = this.getNodeParameter('personId2', i) as string;
+						const relationshipLanguage = (this.getNodeParameter('relationshipLanguage', i, 'en') || 'en') as RelationshipLanguage;
+
+						if (!firstPersonId || !secondPersonId) {
+							throw new NodeOperationError(this.getNode(), 'Both person IDs are required for relationship operation');
+						}
+
+						const relationshipResult = GedcomRelationship.computeRelationship(relationshipInputData, firstPersonId, secondPersonId, relationshipLanguage, this);
+						returnData.push({
+							json: relationshipResult as unknown as IDataObject,
+							pairedItem: { item: i },
+						});
+						break;
+
+					case 'merge':
+						const mergeInputData = items[i].json as unknown as ParseResult;
+
+						if (!mergeInputData.persons || !mergeInputData.families || !mergeInputData.meta) {
+							throw new NodeOperationError(this.getNode(), 'Input data must be a valid parsed GEDCOM result with persons, families, and meta properties');
+						}
+
+						const mergeKeepId = this.getNodeParameter('mergeKeepId', i) as string;
+						const mergeRemoveId = this.getNodeParameter('mergeRemoveId', i) as string;
+						const mergeType = (this.getNodeParameter('mergeType', i, 'person') || 'person') as MergeRecordType;
+						const mergePolicy = (this.getNodeParameter('mergePolicy', i, 'first') || 'first') as MergePolicy;
+
+						if (!mergeKeepId || !mergeRemoveId) {
+							throw new NodeOperationError(this.getNode(), 'Both record IDs are required for merge operation');
+						}
+
+						const mergeResult = GedcomMerge.merge(mergeInputData, mergeType, mergeKeepId, mergeRemoveId, mergePolicy, this);
+
+						returnData.push({
+							json: { ...mergeResult.data, merges: mergeResult.merges } as unknown as IDataObject,
+							binary: items[i].binary,
+							pairedItem: { item: i },
+						});
+						break;
+
+					case 'mergeTrees':
+						const mergeTreesSource = this.getNodeParameter('mergeTreesSource', i, 'items') || 'items';
+						const treeMatchBy = (this.getNodeParameter('treeMatchBy', i, 'none') || 'none') as TreeMatchKey;
+						let trees: ParseResult[];
+
+						if (mergeTreesSource === 'binary') {
+							trees = ['binaryProperty1', 'binaryProperty2'].map(parameter => {
+								const treeBinary = this.helpers.assertBinaryData(i, this.getNodeParameter(parameter, i) as string);
+								return GedcomParser.parseGedcomWithFallback(Buffer.from(treeBinary.data, 'base64'), this);
+							});
+						} else {
+							// All items are merged together, into the output of the first one
+							if (i > 0) break;
+							trees = items.map(item => item.json as unknown as ParseResult);
+							if (trees.some(tree => !tree.persons || !tree.families || !tree.meta)) {
+								throw new NodeOperationError(this.getNode(), 'Input data must be a valid parsed GEDCOM result with persons, families, and meta properties');
+							}
+						}
+
+						const mergeTreesResult = GedcomMerge.mergeTrees(trees, treeMatchBy);
+						returnData.push({
+							json: {
+								...mergeTreesResult.data,
+								remappedIds: mergeTreesResult.remappedIds,
+								merges: mergeTreesResult.merges,
+							} as unknown as IDataObject,
+							pairedItem: mergeTreesSource === 'binary' ? { item: i } : items.map((_, index) => ({ item: index })),
+						});
+						break;
+
+					case 'buildTree':
+						const buildSource = this.getNodeParameter('buildSource', i, 'items') || 'items';
+						let buildRows: Array<Record<string, unknown>>;
+
+						if (buildSource === 'binary') {
+							const csvBinary = this.helpers.assertBinaryData(i, this.getNodeParameter('binaryProperty', i) as string);
+							buildRows = GedcomBuilder.parseCsv(Buffer.from(csvBinary.data, 'base64').toString('utf8'));
+						} else {
+							// All items are rows of the same tree, built into the output of the first one
+							if (i > 0) break;
+							buildRows = items.map(item => item.json);
+						}
+
+						if (buildRows.length === 0) {
+							throw new NodeOperationError(this.getNode(), 'No rows to build a tree from');
+						}
+
+						returnData.push({
+							json: GedcomBuilder.build(buildRows, this) as unknown as IDataObject,
+							pairedItem: buildSource === 'binary' ? { item: i } : items.map((_, index) => ({ item: index })),
+						});
+						break;
+
+					case 'compare':
+						const compareSource = this.getNodeParameter('compareSource', i, 'items') || 'items';
+						const compareMatchByUid = this.getNodeParameter('compareMatchByUid', i, false) as boolean;
+						let versions: ParseResult[];
+
+						if (compareSource === 'binary') {
+							versions = ['binaryProperty1', 'binaryProperty2'].map(parameter => {
+								const versionBinary = this.helpers.assertBinaryData(i, this.getNodeParameter(parameter, i) as string);
+								return GedcomParser.parseGedcomWithFallback(Buffer.from(versionBinary.data, 'base64'), this);
+							});
+						} else {
+							// The first two items are compared, into a single output item
+							if (i > 0) break;
+							if (items.length < 2) {
+								throw new NodeOperationError(this.getNode(), 'Compare needs two input items: the old and the new parsed GEDCOM data');
+							}
+							versions = items.slice(0, 2).map(item => item.json as unknown as ParseResult);
+							if (versions.some(version => !version.persons || !version.families || !version.meta)) {
+								throw new NodeOperationError(this.getNode(), 'Input data must be a valid parsed GEDCOM result with persons, families, and meta properties');
+							}
+						}
+
+						returnData.push({
+							json: GedcomCompare.compare(versions[0], versions[1], compareMatchByUid) as unknown as IDataObject,
+							pairedItem: compareSource === 'binary' ? { item: i } : [{ item: 0 }, { item: 1 }],
+						});
+						break;
+
+					case 'privatize':
+						const privacyInputData = items[i].json as unknown as ParseResult;
+
+						if (!privacyInputData.persons || !privacyInputData.families || !privacyInputData.meta) {
+							throw new NodeOperationError(this.getNode(), 'Input data must be a valid parsed GEDCOM result with persons, families, and meta properties');
+						}
+
+						const privacyAction = (this.getNodeParameter('privacyAction', i, 'replaceName') || 'replaceName') as PrivacyAction;
+						const livingAgeThreshold = (this.getNodeParameter('livingAgeThreshold', i, 100) || 100) as number;
+						const privacyResult = GedcomPrivacy.privatize(privacyInputData, privacyAction, livingAgeThreshold);
+
+						// Only the media binaries still linked are passed on, so photos of living persons are not
+						const privacyItem: INodeExecutionData = {
+							json: { ...privacyResult.data, living: privacyResult.living } as unknown as IDataObject,
+							pairedItem: { item: i },
+						};
+						const privacyBinary: IBinaryKeyData = items[i].binary || {};
+						for (const media of privacyResult.data.media || []) {
+							for (const file of media.files) {
+								if (file.binaryProperty && privacyBinary[file.binaryProperty]) {
+									privacyItem.binary = { ...privacyItem.binary, [file.binaryProperty]: privacyBinary[file.binaryProperty] };
+								}
+							}
+						}
+						returnData.push(privacyItem);
+						break;
+
+					case 'renderChart':
+						const chartInputData = items[i].json as unknown as ParseResult;
+
+						if (!chartInputData.persons || !chartInputData.families || !chartInputData.meta) {
+							throw new NodeOperationError(this.getNode(), 'Input data must be a valid parsed GEDCOM result with persons, families, and meta properties');
+						}
+
+						const chartRootId = this.getNodeParameter('rootId', i) as string;
+						if (!chartRootId) {
+							throw new NodeOperationError(this.getNode(), 'Root Person ID is required for render chart operation');
+						}
+
+						const chartType = (this.getNodeParameter('chartType', i, 'pedigree') || 'pedigree') as ChartType;
+						const chartFileName = (this.getNodeParameter('chartFileName', i, 'chart.svg') || 'chart.svg') as string;
+						const chart = GedcomChart.render(chartInputData, chartRootId, chartType, {
+							generations: (this.getNodeParameter('chartGenerations', i, 4) || 4) as number,
+							boxContent: (this.getNodeParameter('chartBoxContent', i, ['name', 'lifespan']) || ['name', 'lifespan']) as ChartBoxField[],
+							colorBy: (this.getNodeParameter('chartColorBy', i, 'sex') || 'sex') as ChartColorBy,
+							pageSize: (this.getNodeParameter('chartPageSize', i, 'auto') || 'auto') as ChartPageSize,
+							orientation: this.getNodeParameter('chartOrientation', i, 'landscape') === 'portrait' ? 'portrait' : 'landscape',
+							fanAngle: Number(this.getNodeParameter('fanAngle', i, 180)) === 360 ? 360 : 180,
+						}, this);
+
+						returnData.push({
+							json: {
+								chart: chartType,
+								root: GedcomParser.canonicalizeId(chartRootId),
+								generations: chart.generations,
+								persons: chart.persons,
+								width: chart.width,
+								height: chart.height,
+							},
+							binary: {
+								[(this.getNodeParameter('chartBinaryProperty', i, 'data') || 'data') as string]: {
+									data: Buffer.from(chart.svg, 'utf8').toString('base64'),
+									mimeType: 'image/svg+xml',
+									fileName: chartFileName,
+									fileExtension: 'svg',
+								},
+							},
+							pairedItem: { item: i },
+						});
+						break;
+
+					case 'repair':
+						const repairInputData = items[i].json as unknown as ParseResult;
+
+						if (!repairInputData.persons || !repairInputData.families || !repairInputData.meta) {
+							throw new NodeOperationError(this.getNode(), 'Input data must be a valid parsed GEDCOM result with persons, families, and meta properties');
+						}
+
+						const repairFixes = (this.getNodeParameter('repairFixes', i, REPAIR_FIXES) || REPAIR_FIXES) as RepairFix[];
+						const repairResult = GedcomRepair.repair(repairInputData, repairFixes);
+
+						// Media binaries read from a GEDZIP archive stay with the repaired data
+						returnData.push({
+							json: { ...repairResult.data, changes: repairResult.changes } as unknown as IDataObject,
+							binary: items[i].binary,
+							pairedItem: { item: i },
+						});
+						break;
+
+					case 'validate':
+						const validateInput = this.getNodeParameter('validateInput', i, 'json') || 'json';
+						let validateData: ParseResult;
+
+						if (validateInput === 'binary') {
+							const validateBinary = this.helpers.assertBinaryData(i, this.getNodeParameter('binaryProperty', i) as string);
+							const validateBuffer = Buffer.from(validateBinary.data, 'base64');
+							if (validateBuffer.length === 0) {
+								throw new NodeOperationError(this.getNode(), 'GEDCOM file is empty or could not be read');
+							}
+							validateData = GedcomParser.parseGedcomWithFallback(validateBuffer, this);
+						} else {
+							validateData = items[i].json as unknown as ParseResult;
+							if (!validateData.persons || !validateData.families || !validateData.meta) {
+								throw new NodeOperationError(this.getNode(), 'Input data must be a valid parsed GEDCOM result with persons, families, and meta properties');
+							}
+						}
+
+						const validationReport = GedcomValidator.validate(validateData);
+
+						if (this.getNodeParameter('validateOutput', i, 'report') === 'issues') {
+							for (const issue of validationReport.issues) {
+								returnData.push({
+									json: issue as unknown as IDataObject,
+									pairedItem: { item: i },
+								});
+							}
+						} else {
+							returnData.push({
+								json: validationReport as unknown as IDataObject,
+								pairedItem: { item: i },
+							});
+						}
+						break;
+
 					default:
 						throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
 				}
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Gedcom } from '../../nodes/Gedcom/Gedcom.node';
+
+const mockExecuteFunctions = (params: Record<string, any>, jsonItems: any[] = [{}], binary: Record<string, Buffer> = {}) => ({
+	getInputData: () => jsonItems.map(json => ({ json })),
+	getNodeParameter: (name: string) => ({
+		source: 'binary',
+		binaryProperty: 'data',
+		...params,
+	} as Record<string, any>)[name],
+	helpers: {
+		assertBinaryData: (_: number, property: string) => ({
+			data: (binary[property] || readFileSync(join(__dirname, '../fixtures/sample-utf8.ged'))).toString('base64'),
+		}),
+	},
+	getNode: () => ({ name: 'GEDCOM Test' }),
+	continueOnFail: () => false,
+});
+
+const gedcom = new Gedcom();
+
+const run = async (params: Record<string, any>, jsonItems?: any[], binary?: Record<string, Buffer>) => {
+	const result = await gedcom.execute.call(mockExecuteFunctions(params, jsonItems, binary) as any);
+	return result[0];
+};
+
+const registerRows = [
+	{ id: 'I1', name: 'Jean /Martin/', sex: 'M', 'Birth Date': '1820', spouse: 'I2' },
+	{ id: 'I2', name: 'Marie Dubois', sex: 'F' },
+	{ id: 'I3', firstName: 'Pierre', lastName: 'Martin', sex: 'M', birth_date: '12 JUL 1850', birth_place: 'Paris', father_id: 'I1', mother_id: 'I2' },
+	{ id: 'I4', firstName: 'Anne', lastName: 'Martin', sex: 'F', 'Birth Date': 1853, 'Death Date': '1860', fatherId: 'I1', motherId: 'I2' },
+	{ id: 'I5', name: 'Louis Martin', gender: 'male', father: 'I3' },
+];
+
+describe('GEDCOM Build Tree Operation', () => {
+	it('should build persons and families with reciprocal links from input items', async () => {
+		const result = await run({ operation: 'buildTree' }, registerRows);
+
+		expect(result).toHaveLength(1);
+		expect(result[0].pairedItem).toHaveLength(5);
+
+		const data = result[0].json as any;
+		expect(data.meta).toEqual({ individuals: 5, families: 2, encodingTag: 'UTF-8' });
+		expect(data.families).toEqual([
+			{ id: '@F1@', husband: '@I1@', wife: '@I2@', children: ['@I3@', '@I4@'], events: [] },
+			{ id: '@F2@', husband: '@I3@', children: ['@I5@'], events: [] },
+		]);
+		expect(data.persons[0]).toMatchObject({
+			id: '@I1@', name: 'Jean Martin', rawName: 'Jean /Martin/', firstName: 'Jean', lastName: 'Martin', sex: 'M', birthDate: '1820', famc: [], fams: ['@F1@'],
+		});
+		expect(data.persons[2]).toMatchObject({
+			name: 'Pierre Martin',
+			famc: ['@F1@'],
+			fams: ['@F2@'],
+			events: [expect.objectContaining({ type: 'BIRT', date: '12 JUL 1850', place: 'Paris' })],
+		});
+		expect(data.persons[3]).toMatchObject({ birthDate: '1853', deathDate: '1860' });
+		expect(data.persons[4]).toMatchObject({ sex: 'M', famc: ['@F2@'] });
+
+		const report = await run({ operation: 'validate' }, [data]);
+		expect(report[0].json).toMatchObject({ valid: true, errors: 0, warnings: 0 });
+
+		const generated = await run({ operation: 'generate', outputFormat: 'text' }, [data]);
+		expect((generated[0].json as any).gedcom).toContain('0 @F1@ FAM\n1 HUSB @I1@\n1 WIFE @I2@\n1 CHIL @I3@\n1 CHIL @I4@');
+	});
+
+	it('should read a CSV file and number the rows without an ID', async () => {
+		const csv = '\uFEFFName;Sex;Birth Place;Spouse\r\n'
+			+ 'Claude Petit;F;"Lyon; Rhône";\r\n'
+			+ 'Paul Roux;M;Lyon;I1\r\n'
+			+ '\r\n';
+		const result = await run({ operation: 'buildTree', buildSource: 'binary' }, [{}], { data: Buffer.from(csv, 'utf8') });
+
+		const data = result[0].json as any;
+		expect(result[0].pairedItem).toEqual({ item: 0 });
+		expect(data.persons.map((person: any) => [person.id, person.name])).toEqual([['@I1@', 'Claude Petit'], ['@I2@', 'Paul Roux']]);
+		expect(data.persons[0].events).toEqual([{ type: 'BIRT', date: '', place: 'Lyon; Rhône', notes: [], sources: [] }]);
+		expect(data.families).toEqual([{ id: '@F1@', husband: '@I2@', wife: '@I1@', children: [], events: [] }]);
+	});
+
+	it('should rebuild the parent links of a persons table exported as CSV', async () => {
+		const parsed = await run({ operation: 'parse' });
+		const exported = await run({ operation: 'exportTable', tables: ['persons'] }, [parsed[0].json]);
+		const csv = Buffer.from(exported[0].binary!.persons.data, 'base64');
+
+		const rebuilt = (await run({ operation: 'buildTree', buildSource: 'binary' }, [{}], { data: csv }))[0].json as any;
+		const original = parsed[0].json as any;
+
+		expect(rebuilt.persons.map((person: any) => [person.id, person.name, person.birthDate])).toEqual(
+			original.persons.map((person: any) => [person.id, person.name, person.birthDate]),
+		);
+		expect(rebuilt.families.map((family: any) => [family.husband, family.wife, family.children])).toEqual(
+			original.families.map((family: any) => [family.husband, family.wife, family.children]),
+		);
+	});
+
+	it('should convert ISO dates and reject dates it cannot read', async () => {
+		const result = await run({ operation: 'buildTree' }, [
+			{ id: 'I1', name: 'Jean Martin', birthDate: '1850-03-12', deathDate: '1901-07' },
+			{ id: 'I2', name: 'Marie Dubois', birthDate: 'ABT 1852' },
+		]);
+
+		const [jean, marie] = (result[0].json as any).persons;
+		expect([jean.birthDate, jean.deathDate]).toEqual(['12 MAR 1850', 'JUL 1901']);
+		expect(jean.events.map((event: any) => [event.type, event.date, event.parsedDate.iso])).toEqual([
+			['BIRT', '12 MAR 1850', '1850-03-12'],
+			['DEAT', 'JUL 1901', '1901-07'],
+		]);
+		expect(marie.birthDate).toBe('ABT 1852');
+
+		await expect(run({ operation: 'buildTree' }, [{ id: 'I1', name: 'A' }, { id: 'I2', name: 'B', birthDate: '12/03/1850' }]))
+			.rejects.toThrow("Row 2: birth date '12/03/1850' is not a GEDCOM or ISO date");
+		await expect(run({ operation: 'buildTree' }, [{ id: 'I1', name: 'A', deathDate: '1850-02-30' }]))
+			.rejects.toThrow("Row 1: death date '1850-02-30' is not a GEDCOM or ISO date");
+	});
+
+	it('should reject links to unknown persons and repeated IDs', async () => {
+		await expect(run({ operation: 'buildTree' }, [{ id: 'I1', name: 'A' }, { id: 'I2', name: 'B', father: 'I9' }]))
+			.rejects.toThrow("Row 2: father 'I9' is not the ID of any row");
+		await expect(run({ operation: 'buildTree' }, [{ id: 'I1', name: 'A' }, { id: '@I1@', name: 'B' }]))
+			.rejects.toThrow("Row 2: ID '@I1@' is used by another row");
+		await expect(run({ operation: 'buildTree' }, [{ id: 'I1', name: 'A', spouse: 'I1' }]))
+			.rejects.toThrow('Row 1: @I1@ cannot be their own spouse');
+	});
+});
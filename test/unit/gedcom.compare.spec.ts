@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Gedcom } from '../../nodes/Gedcom/Gedcom.node';
+
+const fixtures: Record<string, string> = {
+	data: 'sample-utf8.ged',
+	data2: 'minimal.ged',
+};
+
+const mockExecuteFunctions = (params: Record<string, any>, jsonItems: any[] = [{}]) => ({
+	getInputData: () => jsonItems.map(json => ({ json })),
+	getNodeParameter: (name: string) => ({
+		source: 'binary',
+		binaryProperty: 'data',
+		binaryProperty1: 'data',
+		binaryProperty2: 'data2',
+		...params,
+	} as Record<string, any>)[name],
+	helpers: {
+		assertBinaryData: (_: number, property: string) => ({
+			data: readFileSync(join(__dirname, '../fixtures', fixtures[property]), 'base64'),
+		}),
+	},
+	getNode: () => ({ name: 'GEDCOM Test' }),
+	continueOnFail: () => false,
+});
+
+const gedcom = new Gedcom();
+
+const parse = async () => {
+	const result = await gedcom.execute.call(mockExecuteFunctions({ operation: 'parse' }) as any);
+	return result[0][0].json as any;
+};
+
+const compare = async (before: any, after: any, params: Record<string, any> = {}) => {
+	const result = await gedcom.execute.call(mockExecuteFunctions({ operation: 'compare', ...params }, [before, after]) as any);
+	expect(result[0]).toHaveLength(1);
+	return result[0][0].json as any;
+};
+
+const byId = (records: any[], id: string) => records.find((record: any) => record.id === id);
+const person = (data: any, id: string) => byId(data.persons, id);
+
+describe('GEDCOM Compare Operation', () => {
+	it('should report no changes between identical trees', async () => {
+		const result = await compare(await parse(), await parse());
+
+		expect(result.hasChanges).toBe(false);
+		expect(result.summary).toEqual({
+			personsAdded: 0,
+			personsRemoved: 0,
+			personsModified: 0,
+			familiesAdded: 0,
+			familiesRemoved: 0,
+			familiesModified: 0,
+		});
+	});
+
+	it('should report added, removed and modified records with field-level changes', async () => {
+		const before = await parse();
+		person(before, '@I3@').events[0].date = 'JUL 1880';
+
+		const after = await parse();
+		person(after, '@I2@').name = 'Dubois Marie';
+		person(after, '@I3@').events[0].place = 'Versailles, France';
+		person(after, '@I1@').events = person(after, '@I1@').events.filter((event: any) => event.type !== 'DEAT');
+		person(after, '@I5@').famc = [];
+		after.persons = after.persons.filter((candidate: any) => candidate.id !== '@I5@');
+		after.persons.push({ ...person(before, '@I5@'), id: '@I6@', name: 'Martin Louise', famc: ['@F2@'] });
+		after.families[1].children = ['@I6@'];
+
+		const result = await compare(before, after);
+
+		expect(result.hasChanges).toBe(true);
+		expect(result.persons.added).toEqual([{ id: '@I6@', name: 'Martin Louise' }]);
+		expect(result.persons.removed).toEqual([{ id: '@I5@', name: 'Martin François' }]);
+		expect(result.persons.modified.map((record: any) => record.id)).toEqual(['@I1@', '@I2@', '@I3@']);
+
+		expect(byId(result.persons.modified, '@I1@').changes).toEqual([
+			{ field: 'DEAT', change: 'removed', old: '10 NOV 1920', message: 'DEAT removed: 10 NOV 1920' },
+		]);
+		expect(byId(result.persons.modified, '@I2@').changes).toEqual([
+			{ field: 'name', change: 'changed', old: 'Dubois Marie-Claire', new: 'Dubois Marie', message: 'Name changed: Dubois Marie-Claire → Dubois Marie' },
+		]);
+		expect(byId(result.persons.modified, '@I3@')).toMatchObject({
+			matchedBy: 'id',
+			changes: [
+				{ field: 'BIRT.date', change: 'refined', old: 'JUL 1880', new: '12 JUL 1880' },
+				{ field: 'BIRT.place', change: 'changed', old: 'Paris, France', new: 'Versailles, France' },
+			],
+		});
+
+		expect(result.families.modified).toEqual([{
+			id: '@F2@',
+			name: 'Martin Pierre & Leroy Amélie',
+			matchedBy: 'id',
+			changes: [
+				{ field: 'children', change: 'added', new: '@I6@', message: 'Child @I6@ (Martin Louise) added' },
+				{ field: 'children', change: 'removed', old: '@I5@', message: 'Child @I5@ (Martin François) removed' },
+			],
+		}]);
+	});
+
+	it('should match renumbered records by _UID when asked', async () => {
+		const before = await parse();
+		person(before, '@I5@').extensions = [{ tag: '_UID', value: 'abc-123', children: [] }];
+
+		const after = await parse();
+		const renumbered = person(after, '@I5@');
+		renumbered.id = '@I9@';
+		renumbered.extensions = [{ tag: '_UID', value: 'ABC-123', children: [] }];
+		after.families[1].children = ['@I9@'];
+
+		const matchedById = await compare(before, after);
+		expect(matchedById.summary).toMatchObject({ personsAdded: 1, personsRemoved: 1, familiesModified: 1 });
+
+		const byUid = await compare(before, after, { compareMatchByUid: true });
+		expect(byUid.hasChanges).toBe(false);
+
+		renumbered.sex = 'M';
+		const modified = await compare(before, after, { compareMatchByUid: true });
+		expect(modified.persons.modified).toEqual([{
+			id: '@I5@',
+			name: 'Martin François',
+			newId: '@I9@',
+			matchedBy: 'uid',
+			changes: [{ field: 'sex', change: 'added', new: 'M', message: 'Sex added: M' }],
+		}]);
+	});
+
+	it('should compare two binary properties of the same item', async () => {
+		const result = await gedcom.execute.call(mockExecuteFunctions({ operation: 'compare', compareSource: 'binary' }) as any);
+		const report = result[0][0].json as any;
+
+		expect(result[0][0].pairedItem).toEqual({ item: 0 });
+		expect(report.summary).toMatchObject({ personsAdded: 0, personsRemoved: 2, personsModified: 3, familiesRemoved: 1, familiesModified: 1 });
+	});
+
+	it('should require two input items', async () => {
+		await expect(
+			gedcom.execute.call(mockExecuteFunctions({ operation: 'compare' }, [await parse()]) as any)
+		).rejects.toThrow('Compare needs two input items');
+	});
+});
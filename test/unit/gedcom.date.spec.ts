@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { GedcomDateParser } from '../../lib/gedcom-date-parser';
+
+describe('GEDCOM Date Parser', () => {
+	it('should parse exact dates with their precision', () => {
+		expect(GedcomDateParser.parse('15 MAR 1850')).toMatchObject({
+			qualifier: 'exact',
+			calendar: 'gregorian',
+			precision: 'day',
+			iso: '1850-03-15',
+			sortKey: 18500315,
+			valid: true,
+		});
+		expect(GedcomDateParser.parse('MAR 1850')).toMatchObject({ precision: 'month', iso: '1850-03' });
+		expect(GedcomDateParser.parse('1850')).toMatchObject({ precision: 'year', iso: '1850' });
+	});
+
+	it('should parse qualifiers and ranges', () => {
+		expect(GedcomDateParser.parse('ABT 1850')).toMatchObject({ qualifier: 'about', iso: '1850' });
+		expect(GedcomDateParser.parse('BEF 1850')).toMatchObject({ qualifier: 'before', iso: '../1850' });
+		expect(GedcomDateParser.parse('AFT 1850')).toMatchObject({ qualifier: 'after', iso: '1850/..' });
+		expect(GedcomDateParser.parse('BET 1840 AND 1845')).toMatchObject({
+			qualifier: 'between',
+			start: { year: 1840 },
+			end: { year: 1845 },
+			iso: '1840/1845',
+		});
+		expect(GedcomDateParser.parse('FROM 1900 TO 1910')).toMatchObject({ qualifier: 'period', iso: '1900/1910' });
+		expect(GedcomDateParser.parse('INT 1850 (about the war)')).toMatchObject({
+			qualifier: 'interpreted',
+			phrase: 'about the war',
+			iso: '1850',
+		});
+		expect(GedcomDateParser.parse('(unknown)')).toMatchObject({ qualifier: 'phrase', phrase: 'unknown', valid: false });
+	});
+
+	it('should convert other calendars to Gregorian', () => {
+		expect(GedcomDateParser.parse('@#DJULIAN@ 4 OCT 1582')).toMatchObject({ calendar: 'julian', iso: '1582-10-14' });
+		expect(GedcomDateParser.parse('@#DFRENCH R@ 18 BRUM 8')).toMatchObject({ calendar: 'french', iso: '1799-11-09' });
+		expect(GedcomDateParser.parse('@#DHEBREW@ 1 TSH 5784')).toMatchObject({ calendar: 'hebrew', iso: '2023-09-16' });
+		expect(GedcomDateParser.parse('30 JAN 1750/51')).toMatchObject({ start: { dualYear: 51 }, iso: '1751-01-30' });
+	});
+
+	it('should flag values it cannot read', () => {
+		expect(GedcomDateParser.parse('1 JAN 11950').valid).toBe(false);
+		expect(GedcomDateParser.parse('sometime').valid).toBe(false);
+		expect(GedcomDateParser.parse('').valid).toBe(false);
+	});
+
+	it('should reject days the month does not have', () => {
+		for (const value of ['32 JAN 1900', '0 JAN 1900', '31 APR 1900', '29 FEB 1900', 'BET 1 JAN 1900 AND 30 FEB 1900']) {
+			expect(GedcomDateParser.parse(value)).toMatchObject({ valid: false, raw: value });
+		}
+		expect(GedcomDateParser.parse('29 FEB 2000')).toMatchObject({ valid: true, iso: '2000-02-29' });
+		expect(GedcomDateParser.parse('29 FEB 1904').valid).toBe(true);
+		expect(GedcomDateParser.parse('31 DEC 1900').valid).toBe(true);
+
+		// Julian years divisible by 100 are leap, and Old Style dual years count from January
+		expect(GedcomDateParser.parse('@#DJULIAN@ 29 FEB 1700')).toMatchObject({ valid: true, iso: '1700-03-11' });
+		expect(GedcomDateParser.parse('29 FEB 1723/24').valid).toBe(true);
+		expect(GedcomDateParser.parse('29 FEB 1724/25').valid).toBe(false);
+
+		// Hebrew months have 29 or 30 days, French Republican months 30 and the complementary days 5 or 6
+		expect(GedcomDateParser.parse('@#DHEBREW@ 30 NSN 5784').valid).toBe(true);
+		expect(GedcomDateParser.parse('@#DHEBREW@ 30 TVT 5784').valid).toBe(false);
+		expect(GedcomDateParser.parse('@#DFRENCH R@ 30 THER 2').valid).toBe(true);
+		expect(GedcomDateParser.parse('@#DFRENCH R@ 31 THER 2').valid).toBe(false);
+		expect(GedcomDateParser.parse('@#DFRENCH R@ 6 COMP 3').valid).toBe(true);
+		expect(GedcomDateParser.parse('@#DFRENCH R@ 6 COMP 2').valid).toBe(false);
+	});
+
+	it('should match filters against the whole date instead of substrings', () => {
+		expect(GedcomDateParser.matches('12 MAR 1950', '1950')).toBe(true);
+		expect(GedcomDateParser.matches('1 JAN 11950', '1950')).toBe(false);
+		expect(GedcomDateParser.matches('BET 1940 AND 1960', '1950')).toBe(true);
+		expect(GedcomDateParser.matches('12 MAR 1950', 'APR 1950')).toBe(false);
+	});
+});
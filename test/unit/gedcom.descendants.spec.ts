@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { Gedcom } from '../../nodes/Gedcom/Gedcom.node';
+
+const person = (id: string, name: string, birthDate: string, famc: string[], fams: string[]) => ({
+	id, name, birthDate, deathDate: '', events: [], famc, fams,
+});
+
+// Louis married Marie then Hélène; Anne, the eldest child, has two children with Henri
+const sampleData = {
+	meta: { individuals: 9, families: 3, encodingTag: 'UTF-8' },
+	persons: [
+		person('@I1@', 'Louis Martin', '1870', [], ['@F1@', '@F2@']),
+		person('@I2@', 'Marie Dubois', '1872', [], ['@F1@']),
+		person('@I3@', 'Jean Martin', '12 MAR 1902', ['@F1@'], []),
+		person('@I4@', 'Anne Martin', 'ABT 1900', ['@F1@'], ['@F3@']),
+		person('@I5@', 'Hélène Roux', '1880', [], ['@F2@']),
+		person('@I6@', 'Paul Martin', '1905', ['@F2@'], []),
+		person('@I7@', 'Henri Leroy', '1898', [], ['@F3@']),
+		person('@I8@', 'Lucie Leroy', '1925', ['@F3@'], []),
+		person('@I9@', 'Marc Leroy', '1927', ['@F3@'], []),
+	],
+	families: [
+		{ id: '@F1@', husband: '@I1@', wife: '@I2@', children: ['@I3@', '@I4@'], events: [] },
+		{ id: '@F2@', husband: '@I1@', wife: '@I5@', children: ['@I6@'], events: [] },
+		{ id: '@F3@', husband: '@I7@', wife: '@I4@', children: ['@I9@', '@I8@'], events: [] },
+	],
+};
+
+const getDescendants = async (numbering?: string) => {
+	const gedcom = new Gedcom();
+	const result = await gedcom.execute.call({
+		getInputData: () => [{ json: sampleData }],
+		getNodeParameter: (name: string) => ({
+			operation: 'descendants',
+			rootId: '@I1@',
+			maxGenerations: 9,
+			numbering,
+		} as Record<string, any>)[name],
+		getNode: () => ({ name: 'GEDCOM Test' }),
+		continueOnFail: () => false,
+	} as any);
+	return result[0][0].json as any;
+};
+
+const numbers = (data: any) => data.nodes.map((node: any) => `${node.number} ${node.id}`);
+
+describe('GEDCOM Descendants numbering', () => {
+	it('should keep the family and CHIL order without numbering', async () => {
+		const data = await getDescendants();
+
+		expect(data.generations).toEqual([
+			['@I1@'],
+			['@I3@', '@I4@', '@I6@'],
+			['@I9@', '@I8@'],
+		]);
+		expect(data.edges.map((edge: any) => edge.child)).toEqual(['@I3@', '@I4@', '@I6@', '@I9@', '@I8@']);
+		expect(data.numbering).toBeUndefined();
+		expect(data.nodes[0].number).toBeUndefined();
+	});
+
+	it('should order siblings by birth date across families when numbering', async () => {
+		const data = await getDescendants('daboville');
+
+		expect(data.generations).toEqual([
+			['@I1@'],
+			['@I4@', '@I3@', '@I6@'],
+			['@I8@', '@I9@'],
+		]);
+	});
+
+	it("should number descendants with the d'Aboville system", async () => {
+		const data = await getDescendants('daboville');
+
+		expect(data.numbering).toBe('daboville');
+		expect(numbers(data)).toEqual([
+			'1 @I1@', '1.1 @I4@', '1.1.1 @I8@', '1.1.2 @I9@', '1.2 @I3@', '1.3 @I6@',
+		]);
+	});
+
+	it('should number descendants with the Henry system', async () => {
+		const data = await getDescendants('henry');
+
+		expect(numbers(data)).toEqual([
+			'1 @I1@', '11 @I4@', '111 @I8@', '112 @I9@', '12 @I3@', '13 @I6@',
+		]);
+	});
+
+	it('should number descendants with the Register system', async () => {
+		const data = await getDescendants('register');
+
+		expect(data.nodes.map((node: any) => `${node.number} ${node.birthOrder || '-'} ${node.id}`)).toEqual([
+			'1 - @I1@', '2 i @I4@', '3 ii @I3@', '4 iii @I6@', '5 i @I8@', '6 ii @I9@',
+		]);
+	});
+
+	it('should attach the spouse of each family line', async () => {
+		const data = await getDescendants('daboville');
+
+		expect(data.nodes[0].spouses).toEqual([
+			{ id: '@I2@', name: 'Marie Dubois', family: '@F1@' },
+			{ id: '@I5@', name: 'Hélène Roux', family: '@F2@' },
+		]);
+		expect(data.nodes[1].spouses).toEqual([{ id: '@I7@', name: 'Henri Leroy', family: '@F3@' }]);
+		expect(data.nodes[2].spouses).toEqual([]);
+	});
+});
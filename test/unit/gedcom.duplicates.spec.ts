@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { Gedcom } from '../../nodes/Gedcom/Gedcom.node';
+import { GedcomDuplicates } from '../../lib/gedcom-duplicates';
+
+const person = (id: string, name: string, firstName: string | undefined, lastName: string | undefined, sex: string, birthDate: string, birthPlace: string, famc: string[]) => ({
+	id, name, firstName, lastName, sex, birthDate, deathDate: '',
+	events: birthDate ? [{ type: 'BIRT', date: birthDate, place: birthPlace, notes: [], sources: [] }] : [],
+	famc, fams: [],
+});
+
+// The same Jean-François entered three times, by different hands
+const sampleData = {
+	meta: { individuals: 7, families: 2, encodingTag: 'UTF-8' },
+	persons: [
+		person('@I1@', 'Jean-François Martin', 'Jean-François', 'Martin', 'M', '12 MAR 1850', 'Lyon, Rhône, France', ['@F1@']),
+		person('@I2@', 'Jean Francois MARTIN', 'Jean Francois', 'MARTIN', 'M', 'ABT 1850', 'Lyon', ['@F2@']),
+		person('@I3@', 'MARTIN Jean-Francois', 'MARTIN Jean-Francois', undefined, 'U', '1851', '', []),
+		person('@I4@', 'Jeanne Martin', 'Jeanne', 'Martin', 'F', '1850', 'Lyon', []),
+		person('@I5@', 'Pierre Martin', 'Pierre', 'Martin', 'M', '1900', 'Paris', ['@F1@']),
+		person('@I6@', 'Paul Dubois', 'Paul', 'Dubois', 'M', '1850', 'Lyon', []),
+		person('@I10@', 'Louis Martin', 'Louis', 'Martin', 'M', '', '', []),
+	],
+	families: [
+		{ id: '@F1@', husband: '@I10@', children: ['@I1@', '@I5@'], events: [] },
+		{ id: '@F2@', husband: '@I10@', children: ['@I2@'], events: [] },
+	],
+};
+
+const findDuplicates = async (duplicateThreshold?: number, duplicateLimit?: number) => {
+	const gedcom = new Gedcom();
+	const result = await gedcom.execute.call({
+		getInputData: () => [{ json: sampleData }],
+		getNodeParameter: (name: string) => ({
+			operation: 'findDuplicates',
+			duplicateThreshold,
+			duplicateLimit,
+		} as Record<string, any>)[name],
+		getNode: () => ({ name: 'GEDCOM Test' }),
+		continueOnFail: () => false,
+	} as any);
+	return result[0][0].json as any;
+};
+
+describe('GEDCOM Find Duplicates Operation', () => {
+	it('should rank candidate pairs above the default threshold', async () => {
+		const data = await findDuplicates();
+
+		expect(data.meta).toEqual({ totalFound: 4, threshold: 70 });
+		expect(data.duplicates.map((pair: any) => `${pair.first.id} ${pair.second.id} ${pair.score}`)).toEqual([
+			'@I1@ @I2@ 95',
+			'@I2@ @I3@ 82.5',
+			'@I1@ @I3@ 79.3',
+			'@I3@ @I4@ 71',
+		]);
+	});
+
+	it('should give a score breakdown per criterion', async () => {
+		const data = await findDuplicates();
+
+		expect(data.duplicates[0]).toEqual({
+			score: 95,
+			first: { id: '@I1@', name: 'Jean-François Martin', birthDate: '12 MAR 1850', deathDate: '' },
+			second: { id: '@I2@', name: 'Jean Francois MARTIN', birthDate: 'ABT 1850', deathDate: '' },
+			// No death dates to compare: half the points
+			breakdown: { name: 30, phonetic: 15, birth: 20, death: 5, place: 10, relatives: 15 },
+		});
+		// 12 MAR 1850 and 1851 are less than a year apart
+		expect(data.duplicates[2].breakdown.birth).toBe(16.8);
+	});
+
+	it('should measure the gap between dates in days', () => {
+		const birthScore = (first: string, second: string) => GedcomDuplicates.findDuplicates({
+			meta: { individuals: 2, families: 0, encodingTag: 'UTF-8' },
+			persons: [
+				person('@I1@', 'Jean Martin', 'Jean', 'Martin', 'M', first, '', []),
+				person('@I2@', 'Jean Martin', 'Jean', 'Martin', 'M', second, '', []),
+			],
+			families: [],
+		} as any, { threshold: 0 })[0].breakdown.birth;
+
+		// A day apart across New Year, then almost a year apart within one
+		expect(birthScore('31 DEC 1850', '1 JAN 1851')).toBe(20);
+		expect(birthScore('1 JAN 1850', '31 DEC 1850')).toBe(16);
+	});
+
+	it('should apply the threshold and limit', async () => {
+		const all = await findDuplicates(0, 0);
+		const limited = await findDuplicates(0, 2);
+		const strict = await findDuplicates(90);
+
+		expect(all.duplicates.length).toBeGreaterThan(3);
+		expect(limited.duplicates).toEqual(all.duplicates.slice(0, 2));
+		expect(strict.duplicates).toHaveLength(1);
+	});
+
+	it('should not pair persons of different sex or with different surname sounds', async () => {
+		const data = await findDuplicates(0, 0);
+		const pairs = data.duplicates.map((pair: any) => `${pair.first.id} ${pair.second.id}`);
+
+		expect(pairs).not.toContain('@I1@ @I4@');
+		expect(pairs.some((pair: string) => pair.includes('@I6@'))).toBe(false);
+		// Unknown sex is compared with both
+		expect(pairs).toContain('@I3@ @I4@');
+	});
+
+	it('should compare persons whose given name and surname are swapped', () => {
+		const candidates = GedcomDuplicates.findDuplicates({
+			meta: { individuals: 2, families: 0, encodingTag: 'UTF-8' },
+			persons: [
+				person('@I1@', 'Jean Martin', 'Jean', 'Martin', 'M', '12 MAR 1850', 'Lyon', []),
+				person('@I2@', 'Martin Jean', 'Martin', 'Jean', 'M', '12 MAR 1850', 'Lyon', []),
+			],
+			families: [],
+		} as any, { threshold: 0 });
+
+		expect(candidates.map(pair => `${pair.first.id} ${pair.second.id}`)).toEqual(['@I1@ @I2@']);
+		expect(candidates[0].breakdown).toMatchObject({ name: 30, phonetic: 15 });
+	});
+
+	it('should compute American Soundex codes', () => {
+		expect(['Robert', 'Rupert', 'Ashcraft', 'Tymczak', 'Pfister', 'Martin', 'Martain', 'Hélène'].map(GedcomDuplicates.soundex))
+			.toEqual(['R163', 'R163', 'A261', 'T522', 'P236', 'M635', 'M635', 'H450']);
+	});
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { Gedcom } from '../../nodes/Gedcom/Gedcom.node';
+
+const mockExecuteFunctionsForBuffer = (buffer: Buffer) => ({
+	getInputData: () => [{}],
+	getNodeParameter: (name: string) => {
+		const params: Record<string, any> = {
+			operation: 'parse',
+			source: 'binary',
+			binaryProperty: 'data',
+		};
+		return params[name];
+	},
+	helpers: {
+		assertBinaryData: () => ({
+			data: buffer.toString('base64'),
+		}),
+	},
+	getNode: () => ({ name: 'GEDCOM Test' }),
+	continueOnFail: () => false,
+});
+
+const gedcomBytes = (charTag: string, name: Buffer) => Buffer.concat([
+	Buffer.from(`0 HEAD\n1 CHAR ${charTag}\n0 @I1@ INDI\n1 NAME `, 'latin1'),
+	name,
+	Buffer.from('\n0 TRLR\n', 'latin1'),
+]);
+
+const parseBuffer = async (buffer: Buffer) => {
+	const gedcom = new Gedcom();
+	const result = await gedcom.execute.call(mockExecuteFunctionsForBuffer(buffer) as any);
+	return result[0][0].json as any;
+};
+
+describe('GEDCOM Encoding Detection', () => {
+	it('should decode ANSEL combining diacritics to NFC', async () => {
+		const name = Buffer.from([
+			...Buffer.from('Fran', 'latin1'), 0xF0, ...Buffer.from('cois /M', 'latin1'), 0xE8, ...Buffer.from('uller/', 'latin1'),
+		]);
+		const data = await parseBuffer(gedcomBytes('ANSEL', name));
+
+		expect(data.meta.detectedEncoding).toBe('ANSEL');
+		expect(data.meta.encodingTag).toBe('ANSEL');
+		expect(data.persons[0].firstName).toBe('François');
+		expect(data.persons[0].lastName).toBe('Müller');
+	});
+
+	it('should decode ANSI files as Windows-1252', async () => {
+		const data = await parseBuffer(gedcomBytes('ANSI', Buffer.from('Amélie /Lefèvre/', 'latin1')));
+
+		expect(data.meta.detectedEncoding).toBe('CP1252');
+		expect(data.persons[0].name).toBe('Amélie Lefèvre');
+	});
+
+	it('should decode IBMPC files with code page 437', async () => {
+		const data = await parseBuffer(gedcomBytes('IBMPC', Buffer.from([0x52, 0x82, 0x6D, 0x79, 0x20, 0x2F, 0x4A, 0x81, 0x6E, 0x67, 0x2F])));
+
+		expect(data.meta.detectedEncoding).toBe('CP437');
+		expect(data.persons[0].name).toBe('Rémy Jüng');
+	});
+
+	it('should read UTF-8 content even when the header declares ANSEL', async () => {
+		const data = await parseBuffer(gedcomBytes('ANSEL', Buffer.from('Zoé /Brûlé/', 'utf8')));
+
+		expect(data.meta.detectedEncoding).toBe('UTF-8');
+		expect(data.persons[0].name).toBe('Zoé Brûlé');
+	});
+
+	it('should decode UTF-16 in both byte orders', async () => {
+		const text = '0 HEAD\n1 CHAR UNICODE\n0 @I1@ INDI\n1 NAME Jérôme /Dupré/\n0 TRLR\n';
+		const littleEndian = Buffer.concat([Buffer.from([0xFF, 0xFE]), Buffer.from(text, 'utf16le')]);
+		const bigEndian = Buffer.concat([Buffer.from([0xFE, 0xFF]), Buffer.from(text, 'utf16le').swap16()]);
+
+		const le = await parseBuffer(littleEndian);
+		const be = await parseBuffer(bigEndian);
+
+		expect(le.meta.detectedEncoding).toBe('UTF-16LE');
+		expect(be.meta.detectedEncoding).toBe('UTF-16BE');
+		expect(le.persons[0].name).toBe('Jérôme Dupré');
+		expect(be.persons[0].name).toBe('Jérôme Dupré');
+	});
+});
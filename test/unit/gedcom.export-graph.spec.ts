@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Gedcom } from '../../nodes/Gedcom/Gedcom.node';
+
+const mockExecuteFunctions = (params: Record<string, any>, json: any = {}) => ({
+	getInputData: () => [{ json }],
+	getNodeParameter: (name: string) => ({
+		source: 'binary',
+		binaryProperty: 'data',
+		...params,
+	} as Record<string, any>)[name],
+	helpers: {
+		assertBinaryData: () => ({
+			data: readFileSync(join(__dirname, '../fixtures/sample-utf8.ged'), 'base64'),
+		}),
+	},
+	getNode: () => ({ name: 'GEDCOM Test' }),
+	continueOnFail: () => false,
+});
+
+const gedcom = new Gedcom();
+
+const run = async (params: Record<string, any>, json?: any) => {
+	const result = await gedcom.execute.call(mockExecuteFunctions(params, json) as any);
+	return result[0][0].json as any;
+};
+
+describe('GEDCOM Export Graph Operation', () => {
+	it('should render a whole tree as a Mermaid flowchart clustered by generation', async () => {
+		const result = await run({ operation: 'exportGraph' }, await run({ operation: 'parse' }));
+
+		expect(result.format).toBe('mermaid');
+		const lines = result.graph.split('\n');
+		expect(lines[0]).toBe('flowchart TD');
+		expect(lines.slice(1, 5)).toEqual([
+			'\tsubgraph generation_1 ["Generation 1"]',
+			'\t\tp_I1["Martin Jean-François<br/>1850–1920"]:::unknown',
+			'\t\tp_I2["Dubois Marie-Claire<br/>1855–1925"]:::unknown',
+			'\tend',
+		]);
+		// @I4@ has no parents in the tree and joins the generation of her husband
+		expect(result.graph).toContain('\tsubgraph generation_2 ["Generation 2"]\n\t\tp_I3["Martin Pierre<br/>1880–"]:::unknown\n\t\tp_I4["Leroy Amélie<br/>1885–"]:::unknown\n\tend');
+		expect(result.graph).toContain('\tu_F1(("⚭ 1878")):::union\n\tp_I1 --- u_F1\n\tp_I2 --- u_F1\n\tu_F1 --> p_I3\n');
+	});
+
+	it('should render GraphViz DOT with the labels asked for', async () => {
+		const result = await run({
+			operation: 'exportGraph',
+			graphFormat: 'dot',
+			graphLabels: ['name', 'id'],
+			graphClusterGenerations: false,
+		}, await run({ operation: 'parse' }));
+
+		expect(result.graph).toMatch(/^digraph Family \{\n\trankdir=TB;/);
+		expect(result.graph).not.toContain('cluster_generation');
+		expect(result.graph).toContain('\t"@I1@" [label="Martin Jean-François\\n@I1@", shape=box');
+		expect(result.graph).toContain('\t"@F1@" [label="", shape=point');
+		expect(result.graph).toContain('\t"@I1@" -> "@F1@" [dir=none];\n');
+		expect(result.graph).toContain('\t"@F1@" -> "@I3@";\n');
+	});
+
+	it('should render Get Ancestors results as Cytoscape elements', async () => {
+		const ancestors = await run({ operation: 'ancestors', rootId: '@I5@', maxGenerations: 3 }, await run({ operation: 'parse' }));
+		const result = await run({ operation: 'exportGraph', graphFormat: 'cytoscape' }, ancestors);
+		const { nodes, edges } = result.elements;
+
+		expect(nodes.filter((node: any) => node.data.type === 'generation').map((node: any) => node.data.id))
+			.toEqual(['generation-1', 'generation-2', 'generation-3']);
+		expect(nodes.find((node: any) => node.data.id === '@I5@').data).toEqual({
+			id: '@I5@',
+			type: 'person',
+			label: 'Martin François\n1910–',
+			name: 'Martin François',
+			sex: 'U',
+			lifespan: '1910–',
+			generation: 1,
+			parent: 'generation-1',
+		});
+		expect(nodes.filter((node: any) => node.data.type === 'union').map((node: any) => node.data.id)).toEqual(['U1', 'U2']);
+		expect(edges.map((edge: any) => edge.data.id)).toEqual([
+			'@I3@->U1', '@I4@->U1', 'U1->@I5@',
+			'@I1@->U2', '@I2@->U2', 'U2->@I3@',
+		]);
+	});
+
+	it('should render D3 nodes and links', async () => {
+		const result = await run({ operation: 'exportGraph', graphFormat: 'd3', graphLabels: ['name'] }, await run({ operation: 'parse' }));
+
+		expect(result.nodes).toHaveLength(7);
+		expect(result.nodes[5]).toEqual({ id: '@F1@', type: 'union', label: '', marriageDate: '14 FEB 1878' });
+		expect(result.links[0]).toEqual({ source: '@I1@', target: '@F1@', type: 'partner' });
+		expect(result.links).toHaveLength(6);
+	});
+
+	it('should reject other input', async () => {
+		await expect(run({ operation: 'exportGraph' }, { foo: 'bar' }))
+			.rejects.toThrow('Input data must be a parsed GEDCOM result or the result of Get Ancestors or Get Descendants');
+	});
+});
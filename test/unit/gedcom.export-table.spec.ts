@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Gedcom } from '../../nodes/Gedcom/Gedcom.node';
+import { GedcomZip } from '../../lib/gedcom-zip';
+
+const mockExecuteFunctions = (params: Record<string, any>, json: any = {}) => ({
+	getInputData: () => [{ json }],
+	getNodeParameter: (name: string) => ({
+		source: 'binary',
+		binaryProperty: 'data',
+		...params,
+	} as Record<string, any>)[name],
+	helpers: {
+		assertBinaryData: () => ({
+			data: readFileSync(join(__dirname, '../fixtures/sample-utf8.ged'), 'base64'),
+		}),
+	},
+	getNode: () => ({ name: 'GEDCOM Test' }),
+	continueOnFail: () => false,
+});
+
+const gedcom = new Gedcom();
+
+const exportTable = async (params: Record<string, any>) => {
+	const parsed = await gedcom.execute.call(mockExecuteFunctions({ operation: 'parse' }) as any);
+	const result = await gedcom.execute.call(mockExecuteFunctions({ operation: 'exportTable', ...params }, parsed[0][0].json) as any);
+	return result[0][0];
+};
+
+const csvLines = (binary: any) => Buffer.from(binary.data, 'base64').toString('utf8').replace(/^\uFEFF/, '').split('\r\n');
+
+describe('GEDCOM Export Table Operation', () => {
+	it('should write one CSV file per table with computed columns', async () => {
+		const result = await exportTable({ tableFormat: 'csv' });
+
+		expect(result.json).toEqual({ format: 'csv', rows: { persons: 5, families: 2, events: 9 } });
+		expect(Object.keys(result.binary!)).toEqual(['persons', 'families', 'events']);
+		expect(result.binary!.persons).toMatchObject({ mimeType: 'text/csv', fileName: 'tree-persons.csv' });
+
+		// The fixture writes names as Martin/Pierre/, so Pierre is the surname
+		const persons = csvLines(result.binary!.persons);
+		expect(persons[0]).toBe('id,name,firstName,lastName,sex,birthDate,birthPlace,deathDate,deathPlace,ageAtDeath,fatherId,fatherName,motherId,motherName,spouseNames,childCount');
+		expect(persons[1]).toBe('@I1@,Martin Jean-François,Martin,Jean-François,,15 MAR 1850,"Paris, France",10 NOV 1920,,70,,,,,Dubois Marie-Claire,1');
+		expect(persons[3]).toBe('@I3@,Martin Pierre,Martin,Pierre,,12 JUL 1880,"Paris, France",,,,@I1@,Martin Jean-François,@I2@,Dubois Marie-Claire,Leroy Amélie,1');
+
+		const families = csvLines(result.binary!.families);
+		expect(families[0]).toBe('id,husbandId,husbandName,wifeId,wifeName,marriageDate,marriagePlace,divorceDate,childCount,childNames');
+		expect(families[1]).toBe('@F1@,@I1@,Martin Jean-François,@I2@,Dubois Marie-Claire,14 FEB 1878,,,1,Martin Pierre');
+
+		const events = csvLines(result.binary!.events);
+		expect(events[0]).toBe('recordId,recordType,name,type,value,date,place,age,cause');
+		expect(events[9]).toBe('@F2@,family,Martin Pierre & Leroy Amélie,MARR,,10 MAY 1905,,,');
+	});
+
+	it('should keep only the tables and columns asked for, in their order', async () => {
+		const result = await exportTable({
+			tables: ['persons'],
+			personColumns: ['name', 'id', 'unknown'],
+			csvDelimiter: 'semicolon',
+			tableFileName: 'martin',
+		});
+
+		expect(Object.keys(result.binary!)).toEqual(['persons']);
+		expect(result.binary!.persons.fileName).toBe('martin-persons.csv');
+		expect(csvLines(result.binary!.persons).slice(0, 2)).toEqual(['name;id', 'Martin Jean-François;@I1@']);
+	});
+
+	it('should write an XLSX workbook with a sheet per table', async () => {
+		const result = await exportTable({ tableFormat: 'xlsx', tableBinaryProperty: 'sheet' });
+
+		expect(result.binary!.sheet).toMatchObject({
+			mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+			fileName: 'tree.xlsx',
+		});
+
+		const entries = GedcomZip.read(Buffer.from(result.binary!.sheet.data, 'base64'));
+		expect(entries.map(entry => entry.name)).toEqual([
+			'[Content_Types].xml',
+			'_rels/.rels',
+			'xl/workbook.xml',
+			'xl/_rels/workbook.xml.rels',
+			'xl/worksheets/sheet1.xml',
+			'xl/worksheets/sheet2.xml',
+			'xl/worksheets/sheet3.xml',
+		]);
+
+		const workbook = entries[2].data.toString('utf8');
+		expect(workbook).toContain('<sheet name="Persons" sheetId="1" r:id="rId1"/>');
+		expect(workbook).toContain('<sheet name="Events" sheetId="3" r:id="rId3"/>');
+
+		const persons = entries[4].data.toString('utf8');
+		expect(persons).toContain('<c r="A1" t="inlineStr"><is><t>id</t></is></c>');
+		expect(persons).toContain('<c r="B2" t="inlineStr"><is><t>Martin Jean-François</t></is></c>');
+		expect(persons).toContain('<c r="J2"><v>70</v></c>');
+	});
+});
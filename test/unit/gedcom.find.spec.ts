@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { Gedcom } from '../../nodes/Gedcom/Gedcom.node';
+
+const person = (id: string, birthDate: string, deathDate: string, events: any[] = []) => ({
+	id,
+	name: id,
+	birthDate,
+	deathDate,
+	events,
+	famc: [],
+	fams: [],
+});
+
+const sampleData = {
+	meta: { individuals: 6, families: 0, encodingTag: 'UTF-8' },
+	persons: [
+		person('@I1@', '15 MAR 1850', '10 NOV 1920'),
+		person('@I2@', 'ABT 1798', ''),
+		person('@I3@', 'BET 1840 AND 1845', 'BEF 1900'),
+		person('@I4@', '1 JAN 11950', ''),
+		person('@I5@', '1820', '', [{ type: 'DEAT', value: 'Y', date: '', place: '', notes: [], sources: [] }]),
+		person('@I6@', '12 JUL 1880', '3 FEB 1885'),
+	],
+	families: [],
+};
+
+const mockExecuteFunctionsForFind = (individualFilters: Record<string, any>) => ({
+	getInputData: () => [{ json: sampleData }],
+	getNodeParameter: (name: string) => {
+		const params: Record<string, any> = {
+			operation: 'find',
+			searchType: 'individual',
+			includeFullData: 'results',
+			individualFilters,
+		};
+		return params[name];
+	},
+	getNode: () => ({ name: 'GEDCOM Test' }),
+	continueOnFail: () => false,
+});
+
+const findIds = async (individualFilters: Record<string, any>) => {
+	const gedcom = new Gedcom();
+	const result = await gedcom.execute.call(mockExecuteFunctionsForFind(individualFilters) as any);
+	return (result[0][0].json.individuals as any[]).map(p => p.id);
+};
+
+describe('GEDCOM Find Operation', () => {
+	it('should match birth date filters on whole dates', async () => {
+		expect(await findIds({ birthDate: '1950' })).toEqual([]);
+		expect(await findIds({ birthDate: '1850' })).toEqual(['@I1@']);
+	});
+
+	it('should filter by birth range, including approximate dates when possible', async () => {
+		expect(await findIds({ bornFrom: '1800', bornTo: '1899' })).toEqual(['@I1@', '@I2@', '@I3@', '@I5@', '@I6@']);
+		expect(await findIds({ bornFrom: '1800', bornTo: '1899', dateMatching: 'certain' })).toEqual(['@I1@', '@I3@', '@I5@', '@I6@']);
+	});
+
+	it('should find persons born in the 1800s without a death record', async () => {
+		expect(await findIds({ bornFrom: '1800', bornTo: '1899', deathRecord: 'absent' })).toEqual(['@I2@']);
+	});
+
+	it('should filter by death date boundaries', async () => {
+		expect(await findIds({ diedBefore: '1900' })).toEqual(['@I3@', '@I6@']);
+		expect(await findIds({ diedAfter: '1900' })).toEqual(['@I1@']);
+	});
+
+	it('should filter by age at death', async () => {
+		expect(await findIds({ minAgeAtDeath: 60, maxAgeAtDeath: 80 })).toEqual(['@I1@']);
+		expect(await findIds({ maxAgeAtDeath: 10 })).toEqual(['@I3@', '@I6@']);
+		expect(await findIds({ maxAgeAtDeath: 10, dateMatching: 'certain' })).toEqual(['@I6@']);
+	});
+
+	it('should filter persons alive in a given year', async () => {
+		expect(await findIds({ aliveInYear: 1883 })).toEqual(['@I1@', '@I2@', '@I3@', '@I5@', '@I6@']);
+		expect(await findIds({ aliveInYear: 1883, dateMatching: 'certain' })).toEqual(['@I1@', '@I6@']);
+	});
+
+	it('should reject unreadable date filters', async () => {
+		await expect(findIds({ bornFrom: 'someday' })).rejects.toThrow('Invalid date in individual filters: bornFrom');
+	});
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Gedcom } from '../../nodes/Gedcom/Gedcom.node';
+
+const mockExecuteFunctions = (params: Record<string, any>, json: any = {}) => ({
+	getInputData: () => [{ json }],
+	getNodeParameter: (name: string) => params[name],
+	helpers: {
+		assertBinaryData: () => ({
+			data: readFileSync(join(__dirname, '../fixtures/gedcom7.ged'), 'base64'),
+		}),
+	},
+	getNode: () => ({ name: 'GEDCOM Test' }),
+	continueOnFail: () => false,
+});
+
+const parseFixture = async () => {
+	const gedcom = new Gedcom();
+	const result = await gedcom.execute.call(mockExecuteFunctions({
+		operation: 'parse',
+		source: 'binary',
+		binaryProperty: 'data',
+	}) as any);
+	return result[0][0].json as any;
+};
+
+const generateText = async (data: any, version: string) => {
+	const gedcom = new Gedcom();
+	const result = await gedcom.execute.call(mockExecuteFunctions({
+		operation: 'generate',
+		outputFormat: 'text',
+		generateOptions: { version },
+	}, data) as any);
+	return (result[0][0].json.gedcom as string).split('\n');
+};
+
+describe('GEDCOM 7.0 Support', () => {
+	it('should parse a GEDCOM 7.0 file into the usual result', async () => {
+		const data = await parseFixture();
+
+		expect(data.meta.gedcomVersion).toBe('7.0');
+		expect(data.meta.schema).toEqual({ _SKYPEID: 'http://xmlns.com/foaf/0.1/skypeID' });
+		expect(data.notes).toEqual([{
+			id: '@N1@',
+			text: 'Research on the Martin family\ncontinues here',
+			translations: [{ value: 'Recherches sur la famille Martin', lang: 'fr' }],
+		}]);
+
+		const jean = data.persons.find((p: any) => p.id === '@I1@');
+		expect(jean.nameTranslations).toEqual([{ value: 'ジャン /マルタン/', lang: 'ja' }]);
+		expect(jean.events[0].notes).toEqual(['@N1@']);
+		expect(jean.events[0].parsedDate).toMatchObject({ calendar: 'julian', iso: '1700-01-22' });
+		expect(jean.events[1].parsedDate).toMatchObject({ phrase: 'During the great winter' });
+
+		const family = data.families[0];
+		expect(family.husband).toBe('@I1@');
+		expect(family.wife).toBeUndefined();
+	});
+
+	it('should write GEDCOM 7.0 structures', async () => {
+		const lines = await generateText(await parseFixture(), '7.0');
+
+		expect(lines.slice(0, 5)).toEqual(['0 HEAD', '1 GEDC', '2 VERS 7.0', '1 SCHMA', '2 TAG _SKYPEID http://xmlns.com/foaf/0.1/skypeID']);
+		expect(lines.some(line => line.startsWith('1 CHAR'))).toBe(false);
+		expect(lines).toContain('2 DATE JULIAN 12 JAN 1700');
+		expect(lines).toContain('2 SNOTE @N1@');
+		expect(lines).toContain('3 PHRASE During the great winter');
+		expect(lines).toContain('0 @N1@ SNOTE Research on the Martin family');
+		expect(lines).toContain('1 TRAN Recherches sur la famille Martin');
+		expect(lines).toContain('2 TRAN ジャン /マルタン/');
+	});
+
+	it('should write pointers to missing records as @VOID@ in 7.0', async () => {
+		const data = await parseFixture();
+		data.persons[1].famc = ['@F99@'];
+
+		const lines = await generateText(data, '7.0');
+		expect(lines).toContain('1 FAMC @VOID@');
+	});
+
+	it('should convert GEDCOM 7.0 data to 5.5.1', async () => {
+		const lines = await generateText(await parseFixture(), '5.5.1');
+
+		expect(lines).toContain('2 VERS 5.5.1');
+		expect(lines).toContain('1 CHAR UTF-8');
+		expect(lines).toContain('2 DATE @#DJULIAN@ 12 JAN 1700');
+		expect(lines).toContain('2 NOTE @N1@');
+		expect(lines).toContain('2 DATE (During the great winter)');
+		expect(lines).toContain('0 @N1@ NOTE Research on the Martin family');
+		expect(lines).toContain('1 CONT continues here');
+		expect(lines.some(line => line.includes('TRAN'))).toBe(false);
+	});
+
+	it('should convert 5.5.1 dates to 7.0 syntax', async () => {
+		const data = {
+			meta: { individuals: 1, families: 0, encodingTag: 'ANSEL' },
+			persons: [{
+				id: '@I1@',
+				name: 'Jean Martin',
+				birthDate: 'INT 1850 (about the war)',
+				deathDate: '@#DFRENCH R@ 18 BRUM 8',
+				events: [],
+				famc: [],
+				fams: [],
+			}],
+			families: [],
+		};
+
+		const lines = await generateText(data, '7.0');
+		expect(lines).toContain('2 DATE 1850');
+		expect(lines).toContain('3 PHRASE about the war');
+		expect(lines).toContain('2 DATE FRENCH_R 18 BRUM 8');
+	});
+});
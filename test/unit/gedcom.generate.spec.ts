@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import { Gedcom } from '../../nodes/Gedcom/Gedcom.node';
+
+const mockExecuteFunctionsForGenerate = (json: any, params: Record<string, any> = {}) => ({
+	getInputData: () => [{ json }],
+	getNodeParameter: (name: string) => {
+		const defaults: Record<string, any> = {
+			operation: 'generate',
+			outputFormat: 'text',
+		};
+		return { ...defaults, ...params }[name];
+	},
+	getNode: () => ({ name: 'GEDCOM Test' }),
+	continueOnFail: () => false,
+});
+
+const sampleData = {
+	meta: { individuals: 1, families: 1, encodingTag: 'UTF-8' },
+	persons: [
+		{
+			id: '@I1@',
+			name: 'Jean Martin',
+			birthDate: '15 MAR 1850',
+			deathDate: '',
+			events: [
+				{ type: 'BIRT', date: '15 MAR 1850', place: 'Paris, France', notes: [], sources: [] },
+				{ type: 'OCCU', value: 'Farmer', date: '', place: '', notes: ['First line\nSecond line'], sources: ['@S1@'] },
+				{ type: 'DEAT', value: 'Y', date: '', place: '', cause: 'Fever', notes: [], sources: [] },
+			],
+			famc: [],
+			fams: ['@F1@'],
+		},
+	],
+	families: [
+		{
+			id: '@F1@',
+			husband: '@I1@',
+			children: [],
+			events: [{ type: 'MARR', date: '14 FEB 1878', place: 'Lyon', notes: [], sources: [] }],
+		},
+	],
+};
+
+describe('GEDCOM Generate Operation', () => {
+	const gedcom = new Gedcom();
+
+	it('should write person and family events', async () => {
+		const result = await gedcom.execute.call(mockExecuteFunctionsForGenerate(sampleData) as any);
+		const lines = (result[0][0].json.gedcom as string).split('\n');
+
+		const start = lines.indexOf('0 @I1@ INDI');
+		expect(lines.slice(start, start + 14)).toEqual([
+			'0 @I1@ INDI',
+			'1 NAME Jean Martin',
+			'1 BIRT',
+			'2 DATE 15 MAR 1850',
+			'2 PLAC Paris, France',
+			'1 OCCU Farmer',
+			'2 NOTE First line',
+			'3 CONT Second line',
+			'2 SOUR @S1@',
+			'1 DEAT Y',
+			'2 CAUS Fever',
+			'1 FAMS @F1@',
+			'0 @F1@ FAM',
+			'1 HUSB @I1@',
+		]);
+		expect(lines).toContain('1 MARR');
+		expect(lines).toContain('2 PLAC Lyon');
+	});
+
+	it('should fall back to birthDate and deathDate when no events are present', async () => {
+		const data = {
+			...sampleData,
+			persons: [{ id: '@I1@', name: 'Jean', birthDate: '1850', deathDate: '1920', famc: [], fams: [] }],
+			families: [],
+		};
+
+		const result = await gedcom.execute.call(mockExecuteFunctionsForGenerate(data) as any);
+		const gedcomText = result[0][0].json.gedcom as string;
+
+		expect(gedcomText).toContain('1 BIRT\n2 DATE 1850');
+		expect(gedcomText).toContain('1 DEAT\n2 DATE 1920');
+	});
+
+	it('should write a CHAR header matching the output encoding', async () => {
+		const data = { ...sampleData, meta: { ...sampleData.meta, encodingTag: 'ANSEL' } };
+		const result = await gedcom.execute.call(mockExecuteFunctionsForGenerate(data) as any);
+
+		expect(result[0][0].json.gedcom).toContain('1 CHAR UTF-8');
+	});
+
+	it('should use CRLF line endings when requested', async () => {
+		const result = await gedcom.execute.call(mockExecuteFunctionsForGenerate(sampleData, {
+			generateOptions: { lineEnding: 'CRLF' },
+		}) as any);
+		const gedcomText = result[0][0].json.gedcom as string;
+
+		expect(gedcomText).toContain('0 HEAD\r\n1 SOUR n8n-gedcom\r\n');
+		expect(gedcomText.replace(/\r\n/g, '')).not.toContain('\n');
+	});
+
+	it('should split long values into CONC lines without breaking at spaces', async () => {
+		const longNote = 'word '.repeat(30).trim();
+		const data = {
+			...sampleData,
+			persons: [{
+				...sampleData.persons[0],
+				events: [{ type: 'BIRT', date: '', place: '', notes: [longNote], sources: [] }],
+			}],
+		};
+
+		const result = await gedcom.execute.call(mockExecuteFunctionsForGenerate(data, {
+			generateOptions: { maxLineLength: 40 },
+		}) as any);
+		const lines = (result[0][0].json.gedcom as string).split('\n');
+		const start = lines.findIndex(line => line.startsWith('2 NOTE '));
+		let end = start + 1;
+		while (lines[end].startsWith('3 CONC ')) end++;
+		const noteLines = lines.slice(start, end);
+
+		expect(noteLines.length).toBeGreaterThan(1);
+		for (const line of noteLines) {
+			expect(line.length).toBeLessThanOrEqual(40);
+		}
+		const rebuilt = noteLines[0].slice('2 NOTE '.length) + noteLines.slice(1).map(line => line.slice('3 CONC '.length)).join('');
+		expect(rebuilt).toBe(longNote);
+	});
+
+	it('should encode binary output as ANSEL with a matching header', async () => {
+		const data = {
+			...sampleData,
+			persons: [{ ...sampleData.persons[0], name: 'François Müller', events: [] }],
+		};
+
+		const result = await gedcom.execute.call(mockExecuteFunctionsForGenerate(data, {
+			outputFormat: 'binary',
+			binaryPropertyName: 'gedcom',
+			filename: 'out.ged',
+			generateOptions: { encoding: 'ansel' },
+		}) as any);
+		const bytes = Buffer.from(result[0][0].binary!.gedcom.data, 'base64');
+
+		expect(result[0][0].json.encoding).toBe('ANSEL');
+		expect(bytes.toString('latin1')).toContain('1 CHAR ANSEL');
+		expect(bytes.includes(Buffer.from([0x46, 0x72, 0x61, 0x6E, 0xF0, 0x63, 0x6F, 0x69, 0x73]))).toBe(true);
+		expect(bytes.includes(Buffer.from([0x4D, 0xE8, 0x75]))).toBe(true);
+	});
+
+	it('should encode binary output as UTF-16BE with a byte order mark', async () => {
+		const result = await gedcom.execute.call(mockExecuteFunctionsForGenerate(sampleData, {
+			outputFormat: 'binary',
+			binaryPropertyName: 'gedcom',
+			filename: 'out.ged',
+			generateOptions: { encoding: 'utf16be' },
+		}) as any);
+		const bytes = Buffer.from(result[0][0].binary!.gedcom.data, 'base64');
+
+		expect([bytes[0], bytes[1]]).toEqual([0xFE, 0xFF]);
+		const text = Buffer.from(bytes.subarray(2)).swap16().toString('utf16le');
+		expect(text).toContain('1 CHAR UNICODE');
+	});
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { Gedcom } from '../../nodes/Gedcom/Gedcom.node';
+import { GedcomZip } from '../../lib/gedcom-zip';
+
+const GEDCOM_WITH_MEDIA = [
+	'0 HEAD',
+	'1 GEDC',
+	'2 VERS 5.5.1',
+	'1 CHAR UTF-8',
+	'0 @I1@ INDI',
+	'1 NAME Jean /Martin/',
+	'1 OBJE @O1@',
+	'1 OBJE',
+	'2 FILE scans/acte%20naissance.pdf',
+	'3 FORM pdf',
+	'3 TITL Acte de naissance',
+	'0 @F1@ FAM',
+	'1 HUSB @I1@',
+	'1 OBJE @O1@',
+	'0 @O1@ OBJE',
+	'1 FILE photos/jean.jpg',
+	'2 FORM jpg',
+	'3 TYPE photo',
+	'2 TITL Jean en 1900',
+	'0 TRLR',
+].join('\n');
+
+const JPEG_BYTES = Buffer.from([0xFF, 0xD8, 0xFF, 0xE0, 0x00, 0x10, 0x4A, 0x46, 0x49, 0x46]);
+const PDF_BYTES = Buffer.from('%PDF-1.4 acte', 'latin1');
+
+const mockExecuteFunctions = (params: Record<string, any>, item: any) => ({
+	getInputData: () => [item],
+	getNodeParameter: (name: string) => params[name],
+	helpers: {
+		assertBinaryData: (_index: number, property: string) => item.binary[property],
+	},
+	getNode: () => ({ name: 'GEDCOM Test' }),
+	continueOnFail: () => false,
+});
+
+const run = async (params: Record<string, any>, item: any) => {
+	const gedcom = new Gedcom();
+	const result = await gedcom.execute.call(mockExecuteFunctions(params, item) as any);
+	return result[0][0] as any;
+};
+
+const binaryItem = (content: Buffer) => ({ json: {}, binary: { data: { data: content.toString('base64') } } });
+
+const parse = (content: Buffer, source = 'binary') => run({ operation: 'parse', source, binaryProperty: 'data' }, binaryItem(content));
+
+const gedzip = () => GedcomZip.write([
+	{ name: 'gedcom.ged', data: Buffer.from(GEDCOM_WITH_MEDIA, 'utf8') },
+	{ name: 'photos/jean.jpg', data: JPEG_BYTES },
+	{ name: 'scans/acte naissance.pdf', data: PDF_BYTES },
+	{ name: 'readme.txt', data: Buffer.from('Archive notes') },
+]);
+
+describe('GEDCOM Media and GEDZIP', () => {
+	it('should parse OBJE records, embedded media and links', async () => {
+		const { json } = await parse(Buffer.from(GEDCOM_WITH_MEDIA, 'utf8'));
+
+		expect(json.media).toEqual([
+			{
+				id: '@I1_OBJE1@',
+				files: [{ path: 'scans/acte%20naissance.pdf', format: 'pdf', title: 'Acte de naissance' }],
+				inline: true,
+			},
+			{
+				id: '@O1@',
+				files: [{ path: 'photos/jean.jpg', format: 'jpg', mediaType: 'photo', title: 'Jean en 1900' }],
+			},
+		]);
+		expect(json.persons[0].media).toEqual(['@O1@', '@I1_OBJE1@']);
+		expect(json.families[0].media).toEqual(['@O1@']);
+	});
+
+	it('should write media records and embedded media in 5.5.1 and 7.0', async () => {
+		const { json } = await parse(Buffer.from(GEDCOM_WITH_MEDIA, 'utf8'));
+		const generate = async (version: string) => {
+			const output = await run({ operation: 'generate', outputFormat: 'text', generateOptions: { version } }, { json });
+			return (output.json.gedcom as string).split('\n');
+		};
+
+		const gedcom551 = await generate('5.5.1');
+		const start = gedcom551.indexOf('0 @I1@ INDI');
+		expect(gedcom551.slice(start, start + 7)).toEqual([
+			'0 @I1@ INDI',
+			'1 NAME Jean /Martin/',
+			'1 OBJE @O1@',
+			'1 OBJE',
+			'2 FILE scans/acte%20naissance.pdf',
+			'3 FORM pdf',
+			'3 TITL Acte de naissance',
+		]);
+		expect(gedcom551).toContain('0 @O1@ OBJE');
+		expect(gedcom551).not.toContain('0 @I1_OBJE1@ OBJE');
+
+		const gedcom7 = await generate('7.0');
+		expect(gedcom7).toContain('3 FORM application/pdf');
+		expect(gedcom7).toContain('2 FORM image/jpeg');
+		expect(gedcom7).toContain('3 MEDI PHOTO');
+	});
+
+	it('should return the media of a GEDZIP archive as binary properties', async () => {
+		const { json, binary } = await parse(gedzip(), 'gedzip');
+
+		expect(json.persons).toHaveLength(1);
+		expect(json.media[0].files[0].binaryProperty).toBe('media_1');
+		expect(json.media[1].files[0].binaryProperty).toBe('media_0');
+		expect(Object.keys(binary)).toEqual(['media_0', 'media_1', 'media_2']);
+		expect(binary.media_0).toMatchObject({ mimeType: 'image/jpeg', fileName: 'jean.jpg', fileExtension: 'jpg' });
+		expect(Buffer.from(binary.media_0.data, 'base64')).toEqual(JPEG_BYTES);
+		expect(binary.media_2).toMatchObject({ mimeType: 'text/plain', fileName: 'readme.txt' });
+	});
+
+	it('should generate a GEDZIP archive from parsed media', async () => {
+		const parsed = await parse(gedzip(), 'gedzip');
+		const output = await run({
+			operation: 'generate',
+			outputFormat: 'gedzip',
+			binaryPropertyName: 'gedzip',
+			filename: 'family.ged',
+		}, parsed);
+
+		expect(output.json).toMatchObject({ filename: 'family.gdz', mediaFiles: 2 });
+		expect(output.binary.gedzip).toMatchObject({ mimeType: 'application/zip', fileName: 'family.gdz' });
+
+		const entries = GedcomZip.read(Buffer.from(output.binary.gedzip.data, 'base64'));
+		expect(entries.map(entry => entry.name)).toEqual(['gedcom.ged', 'scans/acte naissance.pdf', 'photos/jean.jpg']);
+		expect(entries[1].data).toEqual(PDF_BYTES);
+		expect(entries[2].data).toEqual(JPEG_BYTES);
+		expect(entries[0].data.toString('utf8')).toContain('1 FILE photos/jean.jpg');
+	});
+
+	it('should reject archives without a GEDCOM file', async () => {
+		const archive = GedcomZip.write([{ name: 'photos/jean.jpg', data: JPEG_BYTES }]);
+
+		await expect(parse(archive, 'gedzip')).rejects.toThrow('Failed to read GEDZIP archive: Archive holds no GEDCOM file');
+	});
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Gedcom } from '../../nodes/Gedcom/Gedcom.node';
+
+const fixtures: Record<string, string> = {
+	data: 'minimal.ged',
+	data2: 'sample-utf8.ged',
+	sample: 'sample-utf8.ged',
+};
+
+const mockExecuteFunctions = (params: Record<string, any>, jsonItems: any[] = [{}]) => ({
+	getInputData: () => jsonItems.map(json => ({ json })),
+	getNodeParameter: (name: string) => ({
+		source: 'binary',
+		binaryProperty: 'data',
+		binaryProperty1: 'data',
+		binaryProperty2: 'data2',
+		...params,
+	} as Record<string, any>)[name],
+	helpers: {
+		assertBinaryData: (_: number, property: string) => ({
+			data: readFileSync(join(__dirname, '../fixtures', fixtures[property]), 'base64'),
+		}),
+	},
+	getNode: () => ({ name: 'GEDCOM Test' }),
+	continueOnFail: () => false,
+});
+
+const gedcom = new Gedcom();
+
+const parse = async (property: string) => {
+	const result = await gedcom.execute.call(mockExecuteFunctions({ operation: 'parse', binaryProperty: property }) as any);
+	return result[0][0].json;
+};
+
+const validate = async (data: any) => {
+	const result = await gedcom.execute.call(mockExecuteFunctions({ operation: 'validate' }, [data]) as any);
+	return result[0][0].json as any;
+};
+
+describe('GEDCOM Merge Trees Operation', () => {
+	it('should merge the trees of all input items and renumber colliding IDs', async () => {
+		const trees = [await parse('data'), await parse('data2')];
+		const result = await gedcom.execute.call(mockExecuteFunctions({ operation: 'mergeTrees' }, trees) as any);
+
+		expect(result[0]).toHaveLength(1);
+		expect(result[0][0].pairedItem).toEqual([{ item: 0 }, { item: 1 }]);
+
+		const data = result[0][0].json as any;
+		expect(data.remappedIds).toEqual([
+			{ tree: 1, from: '@I1@', to: '@I6@' },
+			{ tree: 1, from: '@I2@', to: '@I7@' },
+			{ tree: 1, from: '@I3@', to: '@I8@' },
+			{ tree: 1, from: '@F1@', to: '@F3@' },
+		]);
+		expect(data.meta).toMatchObject({ individuals: 8, families: 3 });
+		expect(data.persons.map((person: any) => person.id)).toEqual(['@I1@', '@I2@', '@I3@', '@I6@', '@I7@', '@I8@', '@I4@', '@I5@']);
+
+		const pierre = data.persons.find((person: any) => person.id === '@I8@');
+		expect(pierre.name).toBe('Martin Pierre');
+		expect(pierre.famc).toEqual(['@F3@']);
+		expect(pierre.fams).toEqual(['@F2@']);
+		expect(data.families.find((family: any) => family.id === '@F3@')).toMatchObject({ husband: '@I6@', wife: '@I7@' });
+		expect((await validate(data)).valid).toBe(true);
+	});
+
+	it('should merge persons matching by name and birth date', async () => {
+		const result = await gedcom.execute.call(mockExecuteFunctions({
+			operation: 'mergeTrees',
+			mergeTreesSource: 'binary',
+			binaryProperty1: 'sample',
+			binaryProperty2: 'data2',
+			treeMatchBy: 'nameBirth',
+		}) as any);
+		const data = result[0][0].json as any;
+
+		expect(data.meta).toMatchObject({ individuals: 5, families: 2 });
+		expect(data.persons.map((person: any) => person.id)).toEqual(['@I1@', '@I2@', '@I3@', '@I4@', '@I5@']);
+		expect(data.merges.filter((merge: any) => merge.type === 'person')).toHaveLength(5);
+		expect(data.merges.filter((merge: any) => merge.type === 'family')).toEqual([
+			{ type: 'family', kept: '@F1@', removed: '@F3@' },
+			{ type: 'family', kept: '@F2@', removed: '@F4@' },
+		]);
+		expect(await validate(data)).toMatchObject({ valid: true, warnings: 0 });
+	});
+
+	it('should merge persons matching by _UID', async () => {
+		const tree = (id: string, name: string, uid: string) => ({
+			meta: { individuals: 1, families: 0, encodingTag: 'UTF-8' },
+			persons: [{
+				id, name, birthDate: '', deathDate: '', events: [], famc: [], fams: [],
+				extensions: [{ tag: '_UID', value: uid, children: [] }],
+			}],
+			families: [],
+		});
+		const result = await gedcom.execute.call(mockExecuteFunctions({ operation: 'mergeTrees', treeMatchBy: 'uid' }, [
+			tree('@I1@', 'Jean Martin', '4F2A9C1B'),
+			tree('@I1@', 'Jean-Baptiste Martin', '4f2a9c1b'),
+			tree('@I1@', 'Paul Martin', '77AA'),
+		]) as any);
+		const data = result[0][0].json as any;
+
+		expect(data.persons.map((person: any) => `${person.id} ${person.name}`)).toEqual(['@I1@ Jean Martin', '@I2@ Paul Martin']);
+		expect(data.merges).toEqual([{ type: 'person', kept: '@I1@', removed: '@I2@' }]);
+		// @I2@ is free again once the second tree's Jean is merged
+		expect(data.remappedIds).toEqual([
+			{ tree: 1, from: '@I1@', to: '@I2@' },
+			{ tree: 2, from: '@I1@', to: '@I2@' },
+		]);
+	});
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { Gedcom } from '../../nodes/Gedcom/Gedcom.node';
+
+const event = (type: string, date: string, place = '', value?: string) => ({
+	type, date, place, notes: [], sources: [], ...(value ? { value } : {}),
+});
+
+// Jean-François was entered twice, each time with his own marriage to Marie
+const sampleData = {
+	meta: { individuals: 7, families: 5, encodingTag: 'UTF-8' },
+	persons: [
+		{
+			id: '@I1@', name: 'Jean-François Martin', firstName: 'Jean-François', lastName: 'Martin', rawName: 'Jean-François /Martin/', sex: 'M',
+			birthDate: '12 MAR 1850', deathDate: '', events: [event('BIRT', '12 MAR 1850', 'Lyon')], famc: ['@F3@'], fams: ['@F1@'], notes: ['@N1@'],
+		},
+		{
+			id: '@I2@', name: 'Jean Francois MARTIN', firstName: 'Jean Francois', lastName: 'MARTIN', rawName: 'Jean Francois /MARTIN/', sex: 'M',
+			birthDate: 'ABT 1851', deathDate: '1920', events: [event('BIRT', 'ABT 1851'), event('DEAT', '1920', 'Paris'), event('OCCU', '', '', 'Farmer')],
+			famc: ['@F3@'], fams: ['@F2@'], citations: [{ source: '@S1@', page: 'p. 12' }],
+		},
+		{ id: '@I3@', name: 'Marie Dubois', sex: 'F', birthDate: '', deathDate: '', events: [], famc: [], fams: ['@F1@', '@F2@'] },
+		{ id: '@I4@', name: 'Paul Martin', birthDate: '', deathDate: '', events: [], famc: ['@F1@', '@F2@'], fams: [] },
+		{ id: '@I5@', name: 'Anne Martin', birthDate: '', deathDate: '', events: [], famc: ['@F2@'], fams: [] },
+		{ id: '@I6@', name: 'Louis Martin', sex: 'M', birthDate: '', deathDate: '', events: [], famc: [], fams: ['@F3@', '@F4@'] },
+		{ id: '@I7@', name: 'Henri Leroy', sex: 'M', birthDate: '', deathDate: '', events: [], famc: [], fams: ['@F5@'] },
+	],
+	families: [
+		{ id: '@F1@', husband: '@I1@', wife: '@I3@', children: ['@I4@'], events: [event('MARR', '1875')] },
+		{ id: '@F2@', husband: '@I2@', wife: '@I3@', children: ['@I4@', '@I5@'], events: [event('MARR', '1875', 'Lyon')] },
+		{ id: '@F3@', husband: '@I6@', children: ['@I1@', '@I2@'], events: [] },
+		{ id: '@F4@', husband: '@I6@', children: [], events: [event('MARR', '1880')] },
+		{ id: '@F5@', husband: '@I7@', children: [], events: [event('MARR', '1881')] },
+	],
+};
+
+const merge = async (params: Record<string, any>) => {
+	const gedcom = new Gedcom();
+	const result = await gedcom.execute.call({
+		getInputData: () => [{ json: sampleData }],
+		getNodeParameter: (name: string) => ({ operation: 'merge', ...params } as Record<string, any>)[name],
+		getNode: () => ({ name: 'GEDCOM Test' }),
+		continueOnFail: () => false,
+	} as any);
+	return result[0][0].json as any;
+};
+
+const find = (records: any[], id: string) => records.find(record => record.id === id);
+
+describe('GEDCOM Merge Records Operation', () => {
+	it('should merge two persons and rewrite every reference', async () => {
+		const data = await merge({ mergeKeepId: 'I1', mergeRemoveId: '@I2@' });
+		const jean = find(data.persons, '@I1@');
+
+		expect(find(data.persons, '@I2@')).toBeUndefined();
+		expect(jean.name).toBe('Jean-François Martin');
+		expect(jean.events.map((e: any) => `${e.type} ${e.date} ${e.place}`.trim())).toEqual([
+			'BIRT 12 MAR 1850 Lyon',
+			'DEAT 1920 Paris',
+			'OCCU',
+		]);
+		expect(jean.birthDate).toBe('12 MAR 1850');
+		expect(jean.deathDate).toBe('1920');
+		expect(jean.notes).toEqual(['@N1@']);
+		expect(jean.citations).toEqual([{ source: '@S1@', page: 'p. 12' }]);
+		expect(jean.famc).toEqual(['@F3@']);
+		expect(find(data.families, '@F3@').children).toEqual(['@I1@']);
+	});
+
+	it('should rewrite associations and link substructures pointing to the merged person', async () => {
+		const godfather = { tag: 'ASSO', pointer: '@I2@', children: [{ tag: 'RELA', value: 'Godfather', children: [] }] };
+		sampleData.persons[4] = { ...sampleData.persons[4], extensions: [godfather] } as any;
+		(sampleData.families[1] as any).childDetails = { '@I5@': [{ tag: '_WITN', value: '@I2@', children: [] }] };
+		try {
+			const data = await merge({ mergeKeepId: '@I1@', mergeRemoveId: '@I2@' });
+
+			expect(find(data.persons, '@I5@').extensions).toEqual([{ ...godfather, pointer: '@I1@' }]);
+			expect(find(data.families, '@F1@').childDetails['@I5@'][0].value).toBe('@I1@');
+			expect(JSON.stringify([data.persons, data.families])).not.toContain('@I2@');
+		} finally {
+			delete (sampleData.persons[4] as any).extensions;
+			delete (sampleData.families[1] as any).childDetails;
+		}
+	});
+
+	it('should merge the families that become identical', async () => {
+		const data = await merge({ mergeKeepId: '@I1@', mergeRemoveId: '@I2@' });
+
+		expect(data.merges).toEqual([
+			{ type: 'person', kept: '@I1@', removed: '@I2@' },
+			{ type: 'family', kept: '@F1@', removed: '@F2@' },
+		]);
+		expect(find(data.families, '@F1@')).toEqual({
+			id: '@F1@', husband: '@I1@', wife: '@I3@', children: ['@I4@', '@I5@'], events: [event('MARR', '1875', 'Lyon')],
+		});
+		expect(find(data.families, '@F2@')).toBeUndefined();
+		expect(find(data.persons, '@I1@').fams).toEqual(['@F1@']);
+		expect(find(data.persons, '@I3@').fams).toEqual(['@F1@']);
+		expect(find(data.persons, '@I4@').famc).toEqual(['@F1@']);
+		expect(find(data.persons, '@I5@').famc).toEqual(['@F1@']);
+		expect(data.meta).toMatchObject({ individuals: 6, families: 4 });
+	});
+
+	it('should take the conflicting values of the second record with the keep second policy', async () => {
+		const data = await merge({ mergeKeepId: '@I1@', mergeRemoveId: '@I2@', mergePolicy: 'second' });
+		const jean = find(data.persons, '@I1@');
+
+		expect(jean.name).toBe('Jean Francois MARTIN');
+		expect(jean.rawName).toBe('Jean Francois /MARTIN/');
+		expect(jean.birthDate).toBe('ABT 1851');
+	});
+
+	it('should keep both values as alternates with the keep both policy', async () => {
+		const data = await merge({ mergeKeepId: '@I1@', mergeRemoveId: '@I2@', mergePolicy: 'both' });
+		const jean = find(data.persons, '@I1@');
+
+		expect(jean.name).toBe('Jean-François Martin');
+		expect(jean.extensions).toEqual([{ tag: 'NAME', value: 'Jean Francois /MARTIN/', children: [] }]);
+		expect(jean.events.filter((e: any) => e.type === 'BIRT').map((e: any) => e.date)).toEqual(['12 MAR 1850', 'ABT 1851']);
+		expect(jean.birthDate).toBe('12 MAR 1850');
+	});
+
+	it('should merge two families and unlink the spouse left out', async () => {
+		const data = await merge({ mergeType: 'family', mergeKeepId: '@F4@', mergeRemoveId: '@F5@' });
+
+		expect(find(data.families, '@F4@')).toMatchObject({ husband: '@I6@', events: [event('MARR', '1880')] });
+		expect(find(data.persons, '@I7@').fams).toEqual([]);
+		expect(find(data.persons, '@I6@').fams).toEqual(['@F3@', '@F4@']);
+	});
+
+	it('should reject unknown or identical records', async () => {
+		await expect(merge({ mergeKeepId: '@I1@', mergeRemoveId: '@I99@' })).rejects.toThrow("Person with ID '@I99@' not found in GEDCOM data");
+		await expect(merge({ mergeType: 'family', mergeKeepId: '@F1@', mergeRemoveId: 'I1' })).rejects.toThrow("Family with ID 'I1' not found in GEDCOM data");
+		await expect(merge({ mergeKeepId: '@I1@', mergeRemoveId: 'I1' })).rejects.toThrow("Cannot merge person '@I1@' with itself");
+		await expect(merge({ mergeKeepId: '@I1@', mergeRemoveId: '' })).rejects.toThrow('Both record IDs are required for merge operation');
+	});
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { Gedcom } from '../../nodes/Gedcom/Gedcom.node';
+
+const GEDCOM_WITH_NOTES = [
+	'0 HEAD',
+	'1 GEDC',
+	'2 VERS 5.5.1',
+	'1 CHAR UTF-8',
+	'0 @N1@ NOTE Jean served as a soldier ',
+	'1 CONC at Verdun.',
+	'1 CONT Letters kept by the family.',
+	'0 @I1@ INDI',
+	'1 NAME Jean /Martin/',
+	'1 NOTE @N1@',
+	'1 BIRT',
+	'2 DATE 1890',
+	'2 NOTE Born at home, the midwife wrote to',
+	'3 CONC  sage-femme@@paris.fr',
+	'1 FAMS @F1@',
+	'0 @F1@ FAM',
+	'1 HUSB @I1@',
+	'1 NOTE Mariage célébré à Saint-Sulpice',
+	'0 @N2@ NOTE Unlinked research note about Verdun',
+	'0 TRLR',
+].join('\n');
+
+const mockExecuteFunctions = (params: Record<string, any>, json: any = {}) => ({
+	getInputData: () => [{ json }],
+	getNodeParameter: (name: string) => params[name],
+	helpers: {
+		assertBinaryData: () => ({
+			data: Buffer.from(GEDCOM_WITH_NOTES, 'utf8').toString('base64'),
+		}),
+	},
+	getNode: () => ({ name: 'GEDCOM Test' }),
+	continueOnFail: () => false,
+});
+
+const parseNotes = async () => {
+	const gedcom = new Gedcom();
+	const result = await gedcom.execute.call(mockExecuteFunctions({
+		operation: 'parse',
+		source: 'binary',
+		binaryProperty: 'data',
+	}) as any);
+	return result[0][0].json as any;
+};
+
+const findNotes = async (data: any, noteText: string) => {
+	const gedcom = new Gedcom();
+	const result = await gedcom.execute.call(mockExecuteFunctions({
+		operation: 'find',
+		searchType: 'note',
+		includeFullData: 'results',
+		noteText,
+	}, data) as any);
+	return result[0][0].json as any;
+};
+
+describe('GEDCOM Notes', () => {
+	it('should parse shared and inline notes with their continuations', async () => {
+		const data = await parseNotes();
+
+		expect(data.notes).toEqual([
+			{ id: '@N1@', text: 'Jean served as a soldier at Verdun.\nLetters kept by the family.' },
+			{ id: '@N2@', text: 'Unlinked research note about Verdun' },
+		]);
+		expect(data.persons[0].notes).toEqual(['@N1@']);
+		expect(data.persons[0].events[0].notes).toEqual(['Born at home, the midwife wrote to sage-femme@paris.fr']);
+		expect(data.families[0].notes).toEqual(['Mariage célébré à Saint-Sulpice']);
+		expect(data.records).toEqual([]);
+	});
+
+	it('should write notes back on persons, families and events', async () => {
+		const gedcom = new Gedcom();
+		const result = await gedcom.execute.call(mockExecuteFunctions({
+			operation: 'generate',
+			outputFormat: 'text',
+		}, await parseNotes()) as any);
+		const lines = (result[0][0].json.gedcom as string).split('\n');
+
+		expect(lines).toContain('1 NOTE @N1@');
+		expect(lines).toContain('2 NOTE Born at home, the midwife wrote to sage-femme@@paris.fr');
+		expect(lines).toContain('1 NOTE Mariage célébré à Saint-Sulpice');
+		expect(lines).toContain('0 @N1@ NOTE Jean served as a soldier at Verdun.');
+		expect(lines).toContain('1 CONT Letters kept by the family.');
+	});
+
+	it('should search note text ignoring case and accents', async () => {
+		const data = await parseNotes();
+
+		const verdun = await findNotes(data, 'verdun SOLDIER');
+		expect(verdun.meta).toMatchObject({ totalFound: 1, searchType: 'note' });
+		expect(verdun.notes).toEqual([{
+			text: 'Jean served as a soldier at Verdun.\nLetters kept by the family.',
+			noteId: '@N1@',
+			recordType: 'person',
+			recordId: '@I1@',
+		}]);
+
+		const mariage = await findNotes(data, 'celebre');
+		expect(mariage.notes).toEqual([
+			{ text: 'Mariage célébré à Saint-Sulpice', recordType: 'family', recordId: '@F1@' },
+		]);
+
+		const midwife = await findNotes(data, 'midwife');
+		expect(midwife.notes).toEqual([expect.objectContaining({ recordId: '@I1@', eventType: 'BIRT' })]);
+
+		const unlinked = await findNotes(data, 'unlinked');
+		expect(unlinked.notes).toEqual([{ text: 'Unlinked research note about Verdun', noteId: '@N2@' }]);
+	});
+});
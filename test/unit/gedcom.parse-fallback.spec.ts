@@ -0,0 +1,36 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parse } from 'parse-gedcom';
+import { GedcomParser } from '../../lib/gedcom-parser';
+
+vi.mock('parse-gedcom', async (importOriginal) => {
+	const actual = await importOriginal<typeof import('parse-gedcom')>();
+	return { ...actual, parse: vi.fn(actual.parse) };
+});
+
+const context = { getNode: () => ({ name: 'GEDCOM Test' }) } as any;
+
+const parseWithFallback = (buffer: Buffer) => {
+	vi.mocked(parse).mockImplementationOnce(() => {
+		throw new Error('Unexpected line');
+	});
+	return GedcomParser.parseGedcomWithFallback(buffer, context);
+};
+
+describe('GEDCOM Parse Fallback', () => {
+	it('should read events and links with read-gedcom when parse-gedcom fails', () => {
+		const result = parseWithFallback(readFileSync(join(__dirname, '../fixtures/sample-utf8.ged')));
+
+		expect(result.meta.individuals).toBe(5);
+		expect(result.persons[0].events[0]).toMatchObject({ type: 'BIRT', date: '15 MAR 1850', place: 'Paris, France' });
+		expect(result.persons[0].birthDate).toBe('15 MAR 1850');
+		expect(result.families[0]).toMatchObject({ husband: '@I1@', wife: '@I2@', children: ['@I3@'] });
+	});
+
+	it.each(['sample-utf8.ged', 'extensions.ged'])('should give the same result as parse-gedcom for %s', (fixture) => {
+		const buffer = readFileSync(join(__dirname, '../fixtures', fixture));
+
+		expect(parseWithFallback(buffer)).toEqual(GedcomParser.parseGedcomWithFallback(buffer, context));
+	});
+});
@@ -80,6 +80,33 @@ describe('GEDCOM Parse Operation', () => {
 		expect(jean.deathDate).toBe('10 NOV 1920');
 	});
 
+	it('should parse events with places on persons and families', async () => {
+		const executeFunctions = {
+			...mockExecuteFunctions(),
+			helpers: {
+				assertBinaryData: () => ({
+					data: readFileSync(join(__dirname, '../fixtures/sample-utf8.ged'), 'base64'),
+				}),
+			},
+		};
+
+		const result = await gedcom.execute.call(executeFunctions as any);
+		const data = result[0][0].json as any;
+
+		const jean = data.persons.find((p: any) => p.id === '@I1@');
+		expect(jean.events).toMatchObject([
+			{ type: 'BIRT', date: '15 MAR 1850', place: 'Paris, France', notes: [], sources: [] },
+			{ type: 'DEAT', date: '10 NOV 1920', place: '', notes: [], sources: [] },
+		]);
+		expect(jean.events[0].parsedDate).toMatchObject({ qualifier: 'exact', precision: 'day', iso: '1850-03-15', sortKey: 18500315 });
+		expect(jean.birthDate).toBe('15 MAR 1850');
+
+		const family = data.families.find((f: any) => f.id === '@F1@');
+		expect(family.events).toMatchObject([
+			{ type: 'MARR', date: '14 FEB 1878', place: '', notes: [], sources: [] },
+		]);
+	});
+
 	it('should handle empty file gracefully', async () => {
 		const executeFunctions = {
 			...mockExecuteFunctions(),
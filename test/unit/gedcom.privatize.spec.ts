@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Gedcom } from '../../nodes/Gedcom/Gedcom.node';
+import { GedcomPrivacy } from '../../lib/gedcom-privacy';
+
+const mockExecuteFunctions = (params: Record<string, any>, json: any, binary?: any) => ({
+	getInputData: () => [{ json, binary }],
+	getNodeParameter: (name: string) => params[name],
+	getNode: () => ({ name: 'GEDCOM Test' }),
+	continueOnFail: () => false,
+});
+
+const event = (type: string, date: string, place = '') => ({ type, date, place, notes: [], sources: [] });
+
+const person = (id: string, name: string, events: any[], famc: string[], fams: string[], extra: any = {}) => ({
+	id, name, birthDate: '', deathDate: '', events, famc, fams, ...extra,
+});
+
+const data = {
+	meta: { individuals: 7, families: 3, encodingTag: 'UTF-8' },
+	persons: [
+		person('@I1@', 'Jean Martin', [event('BIRT', '1850'), event('DEAT', '1920')], [], ['@F1@']),
+		person('@I2@', 'Marie Dubois', [event('BIRT', '1855')], [], ['@F1@']),
+		// No dates: born at most 60 years after their parents
+		person('@I3@', 'Pierre Martin', [], ['@F1@'], ['@F2@']),
+		// No dates: born at least 12 years before their marriage
+		person('@I4@', 'Amélie Leroy', [], [], ['@F2@'], { notes: ['@N1@'] }),
+		person('@I5@', 'Paul Martin', [event('BIRT', '12 MAR 1935', 'Lyon')], ['@F2@'], ['@F3@'], {
+			notes: ['@N2@'],
+			extensions: [{ tag: '_UID', value: 'A1B2', children: [] }, { tag: 'OCCU', value: 'Baker', children: [] }],
+		}),
+		person('@I6@', 'Louise Petit', [], [], ['@F3@']),
+		// Nothing to estimate a birth from
+		person('@I7@', 'Claire Roux', [], [], []),
+	],
+	families: [
+		{ id: '@F1@', husband: '@I1@', wife: '@I2@', children: ['@I3@'], events: [event('MARR', '1878')] },
+		{ id: '@F2@', husband: '@I3@', wife: '@I4@', children: ['@I5@'], events: [event('MARR', 'ABT 1925')] },
+		{ id: '@F3@', husband: '@I5@', wife: '@I6@', children: [], events: [event('MARR', '1960')] },
+	],
+	notes: [
+		{ id: '@N1@', text: 'Seamstress' },
+		{ id: '@N2@', text: 'Lives in Lyon' },
+	],
+};
+
+const gedcom = new Gedcom();
+
+const privatize = async (params: Record<string, any>, binary?: any) => {
+	const result = await gedcom.execute.call(mockExecuteFunctions({ operation: 'privatize', ...params }, data, binary) as any);
+	return result[0][0];
+};
+
+describe('GEDCOM Privatize Operation', () => {
+	beforeEach(() => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(new Date('2026-06-01'));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('should presume living the persons without a death record born less than 100 years ago', () => {
+		const { living } = GedcomPrivacy.privatize(data as any, 'remove', 100, 2026);
+
+		expect(living).toEqual([
+			{ id: '@I5@', latestBirthYear: 1935 },
+			{ id: '@I6@', latestBirthYear: 1948 },
+			{ id: '@I7@' },
+		]);
+	});
+
+	it('should estimate birth years from relatives and marriages', () => {
+		// @I3@ was born by 1910, 60 years after their parents, and @I4@ by 1918,
+		// 12 years before their ABT 1925 marriage widened by 5 years
+		const { living } = GedcomPrivacy.privatize(data as any, 'remove', 110, 2026);
+		expect(living.map(person => person.id)).toEqual(['@I4@', '@I5@', '@I6@', '@I7@']);
+	});
+
+	it('should remove living persons and every link to them', async () => {
+		const result = await privatize({ privacyAction: 'remove' });
+		const output = result.json as any;
+
+		expect(output.persons.map((candidate: any) => candidate.id)).toEqual(['@I1@', '@I2@', '@I3@', '@I4@']);
+		expect(output.families.map((family: any) => family.id)).toEqual(['@F1@', '@F2@']);
+		expect(output.families[1]).toMatchObject({ children: [], events: [event('MARR', 'ABT 1925')] });
+		expect(output.notes).toEqual([{ id: '@N1@', text: 'Seamstress' }]);
+		expect(output.meta).toMatchObject({ individuals: 4, families: 2 });
+		expect(output.living).toHaveLength(3);
+	});
+
+	it('should replace the name of living persons and strip their details', async () => {
+		const result = await privatize({ privacyAction: 'replaceName' });
+		const output = result.json as any;
+		const paul = output.persons.find((candidate: any) => candidate.id === '@I5@');
+
+		expect(paul).toEqual({
+			id: '@I5@',
+			name: 'Living',
+			firstName: 'Living',
+			birthDate: '',
+			deathDate: '',
+			events: [],
+			famc: ['@F2@'],
+			fams: ['@F3@'],
+			notes: [],
+			extensions: [{ tag: '_UID', value: 'A1B2', children: [] }],
+		});
+		expect(output.families[2]).toMatchObject({ husband: '@I5@', wife: '@I6@', events: [] });
+		expect(output.notes.map((note: any) => note.id)).toEqual(['@N1@']);
+	});
+
+	it('should leave no note or link substructure of living persons behind', async () => {
+		const secrets = JSON.parse(JSON.stringify(data));
+		Object.assign(secrets.persons[4], {
+			notes: ['Lives at 12 rue Secret, phone 0600000000'],
+			noteDetails: [[{ tag: 'SOUR', pointer: '@S1@', children: [{ tag: 'PAGE', value: 'Phone book', children: [] }] }]],
+			famsDetails: { '@F3@': [{ tag: 'NOTE', value: 'Second marriage, kept quiet', children: [] }] },
+			famcDetails: { '@F2@': [{ tag: 'PEDI', value: 'adopted', children: [] }] },
+		});
+		Object.assign(secrets.families[2], {
+			notes: ['Wedding secret'],
+			noteDetails: [[{ tag: 'SOUR', pointer: '@S1@', children: [] }]],
+			spouseDetails: { '@I6@': [{ tag: 'AGE', value: '24y', children: [] }] },
+		});
+
+		const result = await gedcom.execute.call(mockExecuteFunctions({ operation: 'privatize', privacyAction: 'replaceName' }, secrets) as any);
+		const output = JSON.stringify(result);
+
+		for (const text of ['12 rue Secret', 'Phone book', 'kept quiet', 'adopted', 'Wedding secret', '24y']) {
+			expect(output).not.toContain(text);
+		}
+	});
+
+	it('should keep the names of living persons when only stripping details', async () => {
+		const result = await privatize({ privacyAction: 'stripDetails' });
+		const paul = (result.json as any).persons.find((candidate: any) => candidate.id === '@I5@');
+
+		expect(paul).toMatchObject({ name: 'Paul Martin', events: [], notes: [] });
+	});
+
+	it('should only pass on the media binaries still linked', async () => {
+		const result = await privatize({ privacyAction: 'remove' }, {
+			data: { data: 'R0VE', mimeType: 'text/plain' },
+		});
+
+		expect(result.binary).toBeUndefined();
+	});
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { Gedcom } from '../../nodes/Gedcom/Gedcom.node';
+
+const person = (id: string, name: string, sex: string, famc: string[], fams: string[]) => ({
+	id, name, sex, birthDate: '', deathDate: '', events: [], famc, fams,
+});
+
+const family = (id: string, husband: string | undefined, wife: string | undefined, children: string[]) => ({
+	id, husband, wife, children, events: [],
+});
+
+// Pierre and Marie's children Jean and Anne; Pierre's son Louis by Hélène; four generations below
+const sampleData = {
+	meta: { individuals: 15, families: 9, encodingTag: 'UTF-8' },
+	persons: [
+		person('@I1@', 'Pierre Martin', 'M', [], ['@F1@', '@F2@']),
+		person('@I2@', 'Marie Dubois', 'F', [], ['@F1@']),
+		person('@I3@', 'Jean Martin', 'M', ['@F1@'], ['@F3@']),
+		person('@I4@', 'Anne Martin', 'F', ['@F1@'], ['@F4@']),
+		person('@I5@', 'Claire Petit', 'F', [], ['@F3@']),
+		person('@I6@', 'Paul Martin', 'M', ['@F3@'], ['@F5@']),
+		person('@I7@', 'Henri Leroy', 'M', [], ['@F4@']),
+		person('@I8@', 'Lucie Leroy', 'F', ['@F4@'], ['@F6@']),
+		person('@I9@', 'Hélène Roux', 'F', [], ['@F2@']),
+		person('@I10@', 'Louis Martin', 'M', ['@F2@'], []),
+		person('@I11@', 'Marc Martin', 'M', ['@F5@'], ['@F8@']),
+		person('@I12@', 'Julie Bernard', 'F', ['@F6@'], ['@F7@']),
+		person('@I13@', 'Hugo Moreau', 'M', ['@F7@'], []),
+		person('@I14@', 'Emma Martin', 'F', ['@F8@'], []),
+		person('@I15@', 'Sans Lien', 'U', [], []),
+	],
+	families: [
+		family('@F1@', '@I1@', '@I2@', ['@I3@', '@I4@']),
+		family('@F2@', '@I1@', '@I9@', ['@I10@']),
+		family('@F3@', '@I3@', '@I5@', ['@I6@']),
+		family('@F4@', '@I7@', '@I4@', ['@I8@']),
+		family('@F5@', '@I6@', undefined, ['@I11@']),
+		family('@F6@', undefined, '@I8@', ['@I12@']),
+		family('@F7@', undefined, '@I12@', ['@I13@']),
+		family('@F8@', '@I11@', undefined, ['@I14@']),
+	],
+};
+
+const getRelationship = async (personId1: string, personId2: string, relationshipLanguage = 'en') => {
+	const gedcom = new Gedcom();
+	const result = await gedcom.execute.call({
+		getInputData: () => [{ json: sampleData }],
+		getNodeParameter: (name: string) => ({
+			operation: 'relationship',
+			personId1,
+			personId2,
+			relationshipLanguage,
+		} as Record<string, any>)[name],
+		getNode: () => ({ name: 'GEDCOM Test' }),
+		continueOnFail: () => false,
+	} as any);
+	return result[0][0].json as any;
+};
+
+describe('GEDCOM Relationship Operation', () => {
+	it('should describe first cousins with generation distances, common ancestors and path', async () => {
+		const result = await getRelationship('I6', '@I8@');
+
+		expect(result).toMatchObject({
+			from: '@I6@',
+			to: '@I8@',
+			relationship: 'first cousin',
+			type: 'cousin',
+			generationsFromFirst: 2,
+			generationsFromSecond: 2,
+			cousinDegree: 1,
+			removed: 0,
+			half: false,
+		});
+		expect(result.commonAncestors).toEqual([
+			{ id: '@I1@', name: 'Pierre Martin' },
+			{ id: '@I2@', name: 'Marie Dubois' },
+		]);
+		expect(result.path.map((step: any) => `${step.id} ${step.relation}`)).toEqual([
+			'@I6@ self', '@I3@ father', '@I1@ father', '@I4@ child', '@I8@ child',
+		]);
+	});
+
+	it.each([
+		['@I11@', '@I13@', 'second cousin once removed'],
+		['@I11@', '@I12@', 'second cousin'],
+		['@I14@', '@I4@', 'great-grandaunt'],
+		['@I11@', '@I4@', 'grandaunt'],
+		['@I4@', '@I11@', 'grandnephew'],
+		['@I3@', '@I10@', 'half-brother'],
+		['@I3@', '@I4@', 'sister'],
+		['@I14@', '@I1@', 'great-great-grandfather'],
+		['@I1@', '@I8@', 'granddaughter'],
+		['@I3@', '@I7@', 'brother-in-law'],
+		['@I4@', '@I5@', 'sister-in-law'],
+		['@I5@', '@I1@', 'father-in-law'],
+		['@I3@', '@I9@', 'stepmother'],
+		['@I3@', '@I5@', 'wife'],
+		['@I6@', '@I7@', 'uncle by marriage'],
+		['@I3@', '@I15@', 'not related'],
+		['@I3@', '@I3@', 'same person'],
+	])('should describe %s → %s as %s', async (from, to, label) => {
+		expect((await getRelationship(from, to)).relationship).toBe(label);
+	});
+
+	it.each([
+		['@I6@', '@I8@', 'cousine germaine'],
+		['@I11@', '@I13@', 'cousin issu de germain (1 génération d\'écart)'],
+		['@I6@', '@I4@', 'tante'],
+		['@I14@', '@I4@', 'arrière-grand-tante'],
+		['@I3@', '@I10@', 'demi-frère'],
+		['@I5@', '@I1@', 'beau-père'],
+		['@I3@', '@I7@', 'beau-frère'],
+		['@I6@', '@I7@', 'oncle par alliance'],
+	])('should describe %s → %s in French as %s', async (from, to, label) => {
+		const result = await getRelationship(from, to, 'fr');
+		expect(result.relationship).toBe(label);
+		expect(result.language).toBe('fr');
+	});
+
+	it('should describe in-law paths through the spouse', async () => {
+		const result = await getRelationship('@I5@', '@I1@');
+
+		expect(result.type).toBe('in-law');
+		expect(result.path.map((step: any) => `${step.id} ${step.relation}`)).toEqual([
+			'@I5@ self', '@I3@ spouse', '@I1@ father',
+		]);
+	});
+
+	it('should reject unknown persons', async () => {
+		await expect(getRelationship('@I1@', '@I99@')).rejects.toThrow("Person with ID '@I99@' not found in GEDCOM data");
+	});
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Gedcom } from '../../nodes/Gedcom/Gedcom.node';
+
+const mockExecuteFunctions = (params: Record<string, any>, json: any = {}) => ({
+	getInputData: () => [{ json }],
+	getNodeParameter: (name: string) => ({
+		source: 'binary',
+		binaryProperty: 'data',
+		...params,
+	} as Record<string, any>)[name],
+	helpers: {
+		assertBinaryData: () => ({
+			data: readFileSync(join(__dirname, '../fixtures/sample-utf8.ged'), 'base64'),
+		}),
+	},
+	getNode: () => ({ name: 'GEDCOM Test' }),
+	continueOnFail: () => false,
+});
+
+const gedcom = new Gedcom();
+
+const run = async (params: Record<string, any>, json?: any) => {
+	const result = await gedcom.execute.call(mockExecuteFunctions(params, json) as any);
+	return result[0][0] as any;
+};
+
+const render = async (params: Record<string, any>) => {
+	const parsed = await run({ operation: 'parse' });
+	const item = await run({ operation: 'renderChart', ...params }, parsed.json);
+	return { json: item.json, binary: item.binary.data, svg: Buffer.from(item.binary.data.data, 'base64').toString('utf8') };
+};
+
+describe('GEDCOM Render Chart Operation', () => {
+	it('should draw a pedigree chart with fathers above mothers', async () => {
+		const { json, binary, svg } = await render({ rootId: '@I5@' });
+
+		expect(json).toEqual({ chart: 'pedigree', root: '@I5@', generations: 3, persons: 5, width: 660, height: 180 });
+		expect(binary.mimeType).toBe('image/svg+xml');
+		expect(binary.fileName).toBe('chart.svg');
+		expect(svg).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="660" height="180" viewBox="0 0 660 180"/);
+		expect(svg).toContain('<title>Ancestors of Martin François</title>');
+
+		// The root is centred between its parents, the father between his own parents
+		expect(svg).toContain('<g data-id="@I5@"><rect x="20" y="82.5" width="180" height="40"');
+		expect(svg).toContain('<g data-id="@I3@"><rect x="240" y="45"');
+		expect(svg).toContain('<g data-id="@I4@"><rect x="240" y="120"');
+		expect(svg).toContain('<g data-id="@I1@"><rect x="460" y="20"');
+		expect(svg).toContain('<g data-id="@I2@"><rect x="460" y="70"');
+		expect(svg).toContain('<path d="M420 65H440V40H460M420 65H440V90H460M200 102.5H220V65H240M200 102.5H220V140H240"');
+		expect(svg).toContain('<text x="466" y="37" font-weight="bold">Martin Jean-François</text><text x="466" y="51">1850–1920</text>');
+	});
+
+	it('should color each grandparent branch', async () => {
+		const { svg } = await render({ rootId: '@I5@', chartColorBy: 'branch' });
+
+		const fill = (id: string) => (svg.match(new RegExp(`data-id="${id}"><rect [^>]*fill="([^"]+)"`)) as RegExpMatchArray)[1];
+		expect(fill('@I5@')).toBe('#f2f2f2');
+		expect(fill('@I3@')).toBe(fill('@I1@'));
+		expect(fill('@I2@')).not.toBe(fill('@I1@'));
+		expect(fill('@I4@')).not.toBe(fill('@I1@'));
+		expect(fill('@I4@')).not.toBe(fill('@I2@'));
+	});
+
+	it('should draw half and full fan charts, outlining missing ancestors', async () => {
+		const half = await render({ rootId: '@I5@', chartType: 'fan' });
+
+		expect(half.json).toMatchObject({ chart: 'fan', width: 480, height: 260 });
+		expect(half.svg).toContain('<g data-id="@I5@"><path d="M160 240A80 80 0 0 1 320 240L240 240Z"');
+		expect(half.svg).toContain('<g data-id="@I3@"><path d="M90 240A150 150 0 0 1 240 90L240 160A80 80 0 0 0 160 240Z"');
+		// Leroy Amélie has no parents in the tree
+		expect(half.svg.match(/fill="none" stroke="#cccccc"/g)).toHaveLength(2);
+
+		const full = await render({ rootId: '@I5@', chartType: 'fan', fanAngle: 360, chartPageSize: 'a4' });
+
+		expect(full.svg).toContain('width="297mm" height="210mm" preserveAspectRatio="xMidYMid meet" viewBox="0 0 480 480"');
+		expect(full.svg).toContain('<circle cx="240" cy="240" r="80"');
+		expect(full.svg).toContain('<g transform="translate(125 240) rotate(270)"><text y="-3.2" text-anchor="middle" font-weight="bold">Martin Pierre</text>');
+	});
+
+	it('should draw a drop-line chart of descendants with the content asked for', async () => {
+		const { json, binary, svg } = await render({
+			rootId: 'I1',
+			chartType: 'descendants',
+			chartBoxContent: ['name', 'birth', 'id'],
+			chartPageSize: 'letter',
+			chartOrientation: 'portrait',
+			chartBinaryProperty: 'data',
+			chartFileName: 'martin.svg',
+		});
+
+		expect(json).toEqual({ chart: 'descendants', root: '@I1@', generations: 3, persons: 3, width: 220, height: 282 });
+		expect(binary.fileName).toBe('martin.svg');
+		expect(svg).toContain('width="215.9mm" height="279.4mm"');
+		expect(svg).toContain('<title>Descendants of Martin Jean-François</title>');
+		expect(svg).toContain('<g data-id="@I3@"><rect x="20" y="114" width="180" height="54"');
+		// Long lines are shortened to fit the box
+		expect(svg).toContain('<text x="26" y="145">b. 12 JUL 1880, Paris, Fra…</text><text x="26" y="159">@I3@</text>');
+		expect(svg).toContain('<path d="M110 168V188M110 188V208M110 74V94M110 94V114"');
+	});
+
+	it('should reject an unknown root person', async () => {
+		await expect(render({ rootId: '@I99@' })).rejects.toThrow("Root person with ID '@I99@' not found in GEDCOM data");
+	});
+});
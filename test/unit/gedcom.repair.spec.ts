@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Gedcom } from '../../nodes/Gedcom/Gedcom.node';
+
+const mockExecuteFunctions = (params: Record<string, any>, json: any = {}) => ({
+	getInputData: () => [{ json }],
+	getNodeParameter: (name: string) => ({
+		source: 'binary',
+		binaryProperty: 'data',
+		...params,
+	} as Record<string, any>)[name],
+	helpers: {
+		assertBinaryData: () => ({
+			data: readFileSync(join(__dirname, '../fixtures/invalid.ged'), 'base64'),
+		}),
+	},
+	getNode: () => ({ name: 'GEDCOM Test' }),
+	continueOnFail: () => false,
+});
+
+const person = (id: string, sex: string, famc: string[], fams: string[]) => ({
+	id, name: id, sex, birthDate: '', deathDate: '', events: [], famc, fams,
+});
+
+// Links as they often come out of online tree exports: repeated, one-sided or pointing nowhere
+const brokenData = {
+	meta: { individuals: 4, families: 3, encodingTag: 'UTF-8' },
+	persons: [
+		person('@I1@', 'M', [], ['@F1@', '@F1@']),
+		person('@I2@', 'F', [], ['@F1@']),
+		person('@I3@', 'M', ['@F1@', '@F1@', '@F9@'], []),
+		person('@I4@', 'F', [], []),
+	],
+	families: [
+		{ id: '@F1@', husband: '@I1@', children: ['@I4@', '@I4@', '@I8@'], events: [] },
+		{ id: '@F2@', husband: '@I7@', children: [], events: [] },
+		{ id: '@F3@', children: [], events: [{ type: 'MARR', date: '1900', place: '', notes: [], sources: [] }] },
+	],
+};
+
+const repair = async (repairFixes?: string[]) => {
+	const gedcom = new Gedcom();
+	const result = await gedcom.execute.call(mockExecuteFunctions({ operation: 'repair', repairFixes }, brokenData) as any);
+	return result[0][0].json as any;
+};
+
+describe('GEDCOM Repair Operation', () => {
+	it('should fix links and log every change', async () => {
+		const data = await repair();
+
+		expect(data.persons.map((p: any) => `${p.id} famc=${p.famc} fams=${p.fams}`)).toEqual([
+			'@I1@ famc= fams=@F1@',
+			'@I2@ famc= fams=@F1@',
+			'@I3@ famc=@F1@ fams=',
+			'@I4@ famc=@F1@ fams=',
+		]);
+		expect(data.families).toEqual([
+			{ id: '@F1@', husband: '@I1@', wife: '@I2@', children: ['@I4@', '@I3@'], events: [] },
+		]);
+		expect(data.meta.families).toBe(1);
+		expect(data.changes.map((change: any) => change.message)).toEqual([
+			'Removed 1 repeated FAMS @F1@ from @I1@',
+			'Removed 1 repeated FAMC @F1@ from @I3@',
+			'Removed 1 repeated CHIL @I4@ from @F1@',
+			'Removed FAMC @F9@ from @I3@: the record does not exist',
+			'Removed CHIL @I8@ from @F1@: the record does not exist',
+			'Removed HUSB @I7@ from @F2@: the record does not exist',
+			'Set WIFE of @F1@ to @I2@ to match the FAMS of @I2@',
+			'Added CHIL @I3@ to @F1@ to match the FAMC of @I3@',
+			'Added FAMC @F1@ to @I4@ to match the CHIL of @F1@',
+			'Deleted family @F2@, which has no husband, wife or children',
+			'Deleted family @F3@, which has no husband, wife or children',
+		]);
+		expect(data.changes[0]).toEqual({
+			fix: 'dedupe-pointers',
+			records: ['@I1@', '@F1@'],
+			message: 'Removed 1 repeated FAMS @F1@ from @I1@',
+		});
+	});
+
+	it('should remove a FAMS whose spouse slot is held by someone else', async () => {
+		const gedcom = new Gedcom();
+		const data = {
+			meta: { individuals: 3, families: 1, encodingTag: 'UTF-8' },
+			persons: [
+				person('@I1@', 'M', [], ['@F1@']),
+				person('@I2@', 'F', [], ['@F1@']),
+				person('@I3@', 'M', [], ['@F1@']),
+			],
+			families: [{ id: '@F1@', husband: '@I1@', wife: '@I2@', children: [], events: [] }],
+		};
+		const repaired = await gedcom.execute.call(mockExecuteFunctions({ operation: 'repair' }, data) as any);
+		const json = repaired[0][0].json as any;
+
+		expect(json.persons[2].fams).toEqual([]);
+		expect(json.changes).toEqual([{
+			fix: 'restore-links',
+			records: ['@I3@', '@F1@'],
+			message: 'Removed FAMS @F1@ from @I3@, since @F1@ already has HUSB @I1@',
+		}]);
+
+		const validated = await gedcom.execute.call(mockExecuteFunctions({ operation: 'validate' }, json) as any);
+		expect((validated[0][0].json as any).issues).toEqual([]);
+	});
+
+	it('should drop the substructures of a removed note with it', async () => {
+		const gedcom = new Gedcom();
+		const data = {
+			meta: { individuals: 1, families: 0, encodingTag: 'UTF-8' },
+			persons: [{
+				...person('@I1@', 'M', [], []),
+				notes: ['@N9@', 'Seen in the register'],
+				noteDetails: [[{ tag: 'SOUR', pointer: '@S1@', children: [] }], [{ tag: 'SOUR', pointer: '@S2@', children: [] }]],
+			}],
+			families: [],
+		};
+		const repaired = await gedcom.execute.call(mockExecuteFunctions({ operation: 'repair', repairFixes: ['remove-dangling'] }, data) as any);
+		const json = repaired[0][0].json as any;
+
+		expect(json.persons[0].notes).toEqual(['Seen in the register']);
+		expect(json.persons[0].noteDetails).toEqual([[{ tag: 'SOUR', pointer: '@S2@', children: [] }]]);
+	});
+
+	it('should log the links to deleted families and drop their substructures', async () => {
+		const gedcom = new Gedcom();
+		const data = {
+			meta: { individuals: 1, families: 1, encodingTag: 'UTF-8' },
+			persons: [{
+				...person('@I1@', 'M', ['@F5@'], ['@F5@']),
+				famcDetails: { '@F5@': [{ tag: 'PEDI', value: 'birth', children: [] }] },
+				famsDetails: { '@F5@': [{ tag: 'NOTE', value: 'First marriage', children: [] }] },
+			}],
+			families: [{ id: '@F5@', children: [], events: [] }],
+		};
+		const repaired = await gedcom.execute.call(mockExecuteFunctions({ operation: 'repair', repairFixes: ['remove-empty-families'] }, data) as any);
+		const json = repaired[0][0].json as any;
+
+		expect(json.persons[0]).toMatchObject({ famc: [], fams: [], famcDetails: {}, famsDetails: {} });
+		expect(json.changes).toEqual([
+			{ fix: 'remove-empty-families', records: ['@F5@'], message: 'Deleted family @F5@, which has no husband, wife or children' },
+			{ fix: 'remove-empty-families', records: ['@I1@', '@F5@'], message: 'Removed FAMC @F5@ from @I1@: the family was deleted' },
+			{ fix: 'remove-empty-families', records: ['@I1@', '@F5@'], message: 'Removed FAMS @F5@ from @I1@: the family was deleted' },
+		]);
+	});
+
+	it('should only apply the selected fixes and leave the input untouched', async () => {
+		const data = await repair(['remove-dangling']);
+
+		expect(data.changes.map((change: any) => change.fix)).toEqual(['remove-dangling', 'remove-dangling', 'remove-dangling']);
+		expect(data.families).toHaveLength(3);
+		expect(data.persons[0].fams).toEqual(['@F1@', '@F1@']);
+		expect(brokenData.persons[2].famc).toEqual(['@F1@', '@F1@', '@F9@']);
+	});
+
+	it('should leave only the non-link issues of a parsed file for Validate', async () => {
+		const gedcom = new Gedcom();
+		const parsed = await gedcom.execute.call(mockExecuteFunctions({ operation: 'parse' }) as any);
+		const repaired = await gedcom.execute.call(mockExecuteFunctions({ operation: 'repair' }, parsed[0][0].json) as any);
+		const validated = await gedcom.execute.call(mockExecuteFunctions({ operation: 'validate' }, repaired[0][0].json) as any);
+
+		expect((validated[0][0].json as any).issues.map((issue: any) => issue.code)).toEqual([
+			'duplicate-id',
+			// @F2@ now links to the second @I6@ record, which the duplicate ID hides
+			'spouse-without-fams',
+			'ancestor-cycle',
+			'death-before-birth',
+			'lifespan-too-long',
+			'parent-too-young',
+			'born-after-mother-death',
+		]);
+	});
+});
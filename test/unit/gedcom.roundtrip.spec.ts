@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Gedcom } from '../../nodes/Gedcom/Gedcom.node';
+
+const mockExecuteFunctions = (params: Record<string, any>, json: any = {}, content?: Buffer) => ({
+	getInputData: () => [{ json }],
+	getNodeParameter: (name: string) => params[name],
+	helpers: {
+		assertBinaryData: () => ({
+			data: (content || Buffer.from('')).toString('base64'),
+		}),
+	},
+	getNode: () => ({ name: 'GEDCOM Test' }),
+	continueOnFail: () => false,
+});
+
+const parse = async (content: Buffer) => {
+	const gedcom = new Gedcom();
+	const result = await gedcom.execute.call(mockExecuteFunctions({
+		operation: 'parse',
+		source: 'binary',
+		binaryProperty: 'data',
+	}, {}, content) as any);
+	return result[0][0].json as any;
+};
+
+const generate = async (data: any, version = '5.5.1') => {
+	const gedcom = new Gedcom();
+	const result = await gedcom.execute.call(mockExecuteFunctions({
+		operation: 'generate',
+		outputFormat: 'text',
+		generateOptions: { version },
+	}, data) as any);
+	return result[0][0].json.gedcom as string;
+};
+
+const fixture = (name: string) => readFileSync(join(__dirname, '../fixtures', name));
+
+describe('GEDCOM Lossless Round-Trip', () => {
+	it('should keep unrecognised substructures as raw tag trees', async () => {
+		const data = await parse(fixture('extensions.ged'));
+
+		expect(data.meta.headerExtensions.map((node: any) => node.tag)).toEqual(['SUBM', 'PLAC']);
+		expect(data.records.map((node: any) => `${node.xref} ${node.tag}`)).toEqual(['@U1@ SUBM']);
+
+		const jean = data.persons.find((p: any) => p.id === '@I1@');
+		expect(jean.name).toBe('Jean Jr Martin');
+		expect(jean.rawName).toBe('Jean /Martin/ Jr');
+		expect(jean.nameDetails.map((node: any) => node.tag)).toEqual(['GIVN', 'SURN', 'NSFX']);
+		expect(jean.extensions.map((node: any) => node.tag)).toEqual(['NAME', '_UID']);
+		expect(jean.sex).toBe('M');
+
+		const birth = jean.events[0];
+		expect(birth.placeDetails).toEqual([{
+			tag: 'MAP',
+			children: [
+				{ tag: 'LATI', value: 'N48.8566', children: [] },
+				{ tag: 'LONG', value: 'E2.3522', children: [] },
+			],
+		}]);
+		expect(birth.extensions.map((node: any) => node.tag)).toEqual(['_PRIM']);
+
+		const pierre = data.persons.find((p: any) => p.id === '@I3@');
+		expect(pierre.famcDetails).toEqual({ '@F1@': [{ tag: 'PEDI', value: 'adopted', children: [] }] });
+		expect(jean.media).toEqual(['@O1@']);
+		expect(jean.mediaDetails).toEqual({ '@O1@': [{ tag: '_PRIM', value: 'Y', children: [] }] });
+		expect(jean.famsDetails).toEqual({ '@F1@': [{ tag: 'NOTE', value: 'First marriage of Jean', children: [] }] });
+
+		const family = data.families[0];
+		expect(family.spouseDetails).toEqual({
+			'@I1@': [{ tag: 'AGE', value: '28y', children: [] }],
+			'@I2@': [{ tag: 'AGE', value: '24y', children: [] }],
+		});
+		expect(family.childDetails).toEqual({
+			'@I3@': [
+				{ tag: '_FREL', value: 'Adopted', children: [] },
+				{ tag: '_MREL', value: 'Adopted', children: [] },
+			],
+		});
+		expect(family.notes).toEqual(['Married in the parish church']);
+		expect(family.noteDetails).toEqual([
+			[{ tag: 'SOUR', pointer: '@S1@', children: [{ tag: 'PAGE', value: 'Folio 40', children: [] }] }],
+		]);
+		expect(family.extensions.map((node: any) => node.tag)).toEqual(['_STAT']);
+	});
+
+	it('should keep the substructures of identical notes apart', async () => {
+		const gedcom = [
+			'0 HEAD', '1 GEDC', '2 VERS 5.5.1', '1 CHAR UTF-8',
+			'0 @I1@ INDI', '1 NAME Jean /Martin/',
+			'1 NOTE Seen in the register', '2 SOUR @S1@',
+			'1 NOTE Seen in the register', '2 SOUR @S2@',
+			'1 NOTE Farmer',
+			'0 @S1@ SOUR', '1 TITL Baptisms', '0 @S2@ SOUR', '1 TITL Burials',
+			'0 TRLR',
+		].join('\n');
+		const data = await parse(Buffer.from(gedcom, 'utf8'));
+
+		expect(data.persons[0].notes).toEqual(['Seen in the register', 'Seen in the register', 'Farmer']);
+		expect(data.persons[0].noteDetails).toEqual([
+			[{ tag: 'SOUR', pointer: '@S1@', children: [] }],
+			[{ tag: 'SOUR', pointer: '@S2@', children: [] }],
+			[],
+		]);
+
+		const lines = (await generate(data)).split('\n');
+		expect(lines.slice(lines.indexOf('1 NOTE Seen in the register'), lines.indexOf('1 NOTE Farmer') + 1)).toEqual([
+			'1 NOTE Seen in the register', '2 SOUR @S1@',
+			'1 NOTE Seen in the register', '2 SOUR @S2@',
+			'1 NOTE Farmer',
+		]);
+	});
+
+	it('should write extensions back in their original order', async () => {
+		const lines = (await generate(await parse(fixture('extensions.ged')))).split('\n');
+
+		const start = lines.indexOf('0 @I1@ INDI');
+		expect(lines.slice(start, lines.indexOf('0 @I2@ INDI'))).toEqual([
+			'0 @I1@ INDI',
+			'1 NAME Jean /Martin/ Jr',
+			'2 GIVN Jean',
+			'2 SURN Martin',
+			'2 NSFX Jr',
+			'1 SEX M',
+			'1 BIRT',
+			'2 DATE 15 MAR 1850',
+			'2 PLAC Paris, France',
+			'3 MAP',
+			'4 LATI N48.8566',
+			'4 LONG E2.3522',
+			'2 SOUR @S1@',
+			'3 PAGE Folio 12',
+			'3 DATA',
+			'4 DATE 16 MAR 1850',
+			'4 TEXT Baptised the day after his birth',
+			'3 QUAY 3',
+			'2 _PRIM Y',
+			'1 OCCU Farmer',
+			'1 FAMS @F1@',
+			'2 NOTE First marriage of Jean',
+			'1 OBJE @O1@',
+			'2 _PRIM Y',
+			'1 NOTE @N1@',
+			'1 SOUR @S2@',
+			'2 PAGE p. 4',
+			'1 NAME Jean /Martinez/',
+			'2 TYPE aka',
+			'1 _UID 4F2A9C1B7E',
+		]);
+		expect(lines).toContain('1 SUBM @U1@');
+		expect(lines).toContain('2 PEDI adopted');
+		expect(lines.slice(-3)).toEqual(['0 @U1@ SUBM', '1 NAME Claire Martin', '0 TRLR']);
+	});
+
+	it.each([
+		['minimal.ged', '5.5.1'],
+		['sample-utf8.ged', '5.5.1'],
+		['extensions.ged', '5.5.1'],
+		['gedcom7.ged', '7.0'],
+	])('should round-trip %s without losing data', async (name, version) => {
+		const original = await parse(fixture(name));
+		const roundTripped = await parse(Buffer.from(await generate(original, version), 'utf8'));
+
+		expect(roundTripped.persons).toEqual(original.persons);
+		expect(roundTripped.families).toEqual(original.families);
+		expect(roundTripped.notes).toEqual(original.notes);
+		expect(roundTripped.sources).toEqual(original.sources);
+		expect(roundTripped.repositories).toEqual(original.repositories);
+		expect(roundTripped.media).toEqual(original.media);
+		expect(roundTripped.records).toEqual(original.records);
+		expect(roundTripped.meta.headerExtensions).toEqual(original.meta.headerExtensions);
+	});
+
+	// These fixtures are written the way Generate writes them, so any line the parser drops shows up
+	it.each([
+		['roundtrip.ged', '5.5.1'],
+		['roundtrip-gedcom7.ged', '7.0'],
+	])('should write %s back line for line', async (name, version) => {
+		const withoutDate = (text: string) => {
+			const lines = text.trimEnd().split('\n');
+			const header = lines.findIndex(line => line.startsWith('0 ') && line !== '0 HEAD');
+			return lines.filter((line, index) => index >= header || !line.startsWith('1 DATE '));
+		};
+		const generated = await generate(await parse(fixture(name)), version);
+
+		expect(withoutDate(generated)).toEqual(withoutDate(fixture(name).toString('utf8')));
+	});
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { GedcomAncestry } from '../../lib/gedcom-ancestry';
+import { ParseResult } from '../../lib/gedcom-types';
+
+const person = (id: string, famc: string[], fams: string[], famcDetails?: Record<string, any>) => ({
+	id, name: id, birthDate: '', deathDate: '', events: [], famc, fams, famcDetails,
+});
+
+// Paul (I2) and Claire (I3) are first cousins: both descend from Louis (I6) and Jeanne (I7)
+const parseResult = {
+	meta: { individuals: 10, families: 6, encodingTag: 'UTF-8' },
+	persons: [
+		person('@I1@', ['@F1@', '@F6@'], [], { '@F6@': [{ tag: 'PEDI', value: 'adopted', children: [] }] }),
+		person('@I2@', ['@F2@'], ['@F1@']),
+		person('@I3@', ['@F3@'], ['@F1@']),
+		person('@I4@', ['@F4@'], ['@F2@']),
+		person('@I5@', ['@F4@'], ['@F3@']),
+		person('@I6@', [], ['@F4@']),
+		person('@I7@', [], ['@F4@']),
+		person('@I8@', [], ['@F2@']),
+		person('@I9@', [], ['@F3@']),
+		person('@I10@', [], ['@F6@']),
+	],
+	families: [
+		{ id: '@F1@', husband: '@I2@', wife: '@I3@', children: ['@I1@'], events: [] },
+		{ id: '@F2@', husband: '@I4@', wife: '@I8@', children: ['@I2@'], events: [] },
+		{ id: '@F3@', husband: '@I9@', wife: '@I5@', children: ['@I3@'], events: [] },
+		{ id: '@F4@', husband: '@I6@', wife: '@I7@', children: ['@I4@', '@I5@'], events: [] },
+		{ id: '@F6@', husband: '@I10@', children: ['@I1@'], events: [] },
+	],
+} as unknown as ParseResult;
+
+const context = { getNode: () => ({ name: 'GEDCOM Test' }) } as any;
+
+describe('GEDCOM Sosa numbering', () => {
+	const result = GedcomAncestry.computeAncestors(parseResult, '@I1@', 4, context);
+	const sosa = (id: string) => result.nodes.find(node => node.id === id)?.sosa;
+
+	it('should number every ancestor slot, following the birth family', () => {
+		expect(sosa('@I1@')).toEqual([1]);
+		expect(sosa('@I2@')).toEqual([2]);
+		expect(sosa('@I3@')).toEqual([3]);
+		expect(sosa('@I4@')).toEqual([4]);
+		expect(sosa('@I8@')).toEqual([5]);
+		expect(sosa('@I9@')).toEqual([6]);
+		expect(sosa('@I5@')).toEqual([7]);
+		expect(sosa('@I10@')).toBeUndefined();
+	});
+
+	it('should list an ancestor filling several slots with all their numbers', () => {
+		expect(sosa('@I6@')).toEqual([8, 14]);
+		expect(sosa('@I7@')).toEqual([9, 15]);
+		expect(result.generations[3]).toEqual(['@I6@', '@I7@']);
+		expect(result.edges.filter(edge => edge.parent === '@I6@')).toEqual([
+			{ parent: '@I6@', child: '@I4@', relation: 'father' },
+			{ parent: '@I6@', child: '@I5@', relation: 'father' },
+		]);
+		expect(result.nodes).toHaveLength(10);
+	});
+
+	it('should walk adoptive parents too, without Sosa numbers', () => {
+		expect(result.generations[1]).toEqual(['@I2@', '@I3@', '@I10@']);
+		expect(result.edges).toContainEqual({ parent: '@I10@', child: '@I1@', relation: 'father' });
+		expect(result.nodes.find(node => node.id === '@I10@')).not.toHaveProperty('sosa');
+	});
+
+	it('should walk each ancestor once per generation however collapsed the pedigree', () => {
+		// Every couple is the only pair of parents of the couple below: 2 persons fill 2^g slots
+		const persons = [person('@P0@', ['@F1@'], [])];
+		const families = [];
+		for (let gen = 1; gen <= 60; gen++) {
+			const children = gen === 1 ? ['@P0@'] : [`@P${gen - 1}@`, `@Q${gen - 1}@`];
+			persons.push(person(`@P${gen}@`, gen < 60 ? [`@F${gen + 1}@`] : [], [`@F${gen}@`]));
+			persons.push(person(`@Q${gen}@`, gen < 60 ? [`@F${gen + 1}@`] : [], [`@F${gen}@`]));
+			families.push({ id: `@F${gen}@`, husband: `@P${gen}@`, wife: `@Q${gen}@`, children, events: [] });
+		}
+		const collapsed = GedcomAncestry.computeAncestors({ meta: {}, persons, families } as unknown as ParseResult, '@P0@', 61, context);
+
+		expect(collapsed.generations).toHaveLength(61);
+		expect(collapsed.implex!.generations[9]).toEqual({ generation: 10, theoretical: 1024, known: 1024, distinct: 2 });
+		expect(collapsed.nodes.find(node => node.id === '@P3@')!.sosa).toEqual([8, 10, 12, 14]);
+		expect(collapsed.nodes.find(node => node.id === '@P40@')!.sosa).toHaveLength(32);
+	});
+
+	it('should report implex statistics per generation', () => {
+		expect(result.implex).toEqual({
+			theoretical: 14,
+			known: 10,
+			distinct: 8,
+			implexRate: 20,
+			generations: [
+				{ generation: 1, theoretical: 2, known: 2, distinct: 2 },
+				{ generation: 2, theoretical: 4, known: 4, distinct: 4 },
+				{ generation: 3, theoretical: 8, known: 4, distinct: 2 },
+			],
+		});
+	});
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Gedcom } from '../../nodes/Gedcom/Gedcom.node';
+
+const mockExecuteFunctions = (params: Record<string, any>, json: any = {}) => ({
+	getInputData: () => [{ json }],
+	getNodeParameter: (name: string) => params[name],
+	helpers: {
+		assertBinaryData: () => ({
+			data: readFileSync(join(__dirname, '../fixtures/extensions.ged'), 'base64'),
+		}),
+	},
+	getNode: () => ({ name: 'GEDCOM Test' }),
+	continueOnFail: () => false,
+});
+
+const parseFixture = async () => {
+	const gedcom = new Gedcom();
+	const result = await gedcom.execute.call(mockExecuteFunctions({
+		operation: 'parse',
+		source: 'binary',
+		binaryProperty: 'data',
+	}) as any);
+	return result[0][0].json as any;
+};
+
+const findSources = async (data: any, sourceFilters: Record<string, any>) => {
+	const gedcom = new Gedcom();
+	const result = await gedcom.execute.call(mockExecuteFunctions({
+		operation: 'find',
+		searchType: 'source',
+		includeFullData: 'results',
+		sourceFilters,
+	}, data) as any);
+	return result[0][0].json as any;
+};
+
+describe('GEDCOM Sources and Citations', () => {
+	it('should parse sources, repositories and citations', async () => {
+		const data = await parseFixture();
+
+		expect(data.sources).toEqual([
+			{
+				id: '@S1@',
+				title: 'Registre paroissial de Saint-Sulpice',
+				author: 'Paroisse Saint-Sulpice',
+				repositories: [{ repository: '@R1@', callNumbers: ['GG 1850'] }],
+			},
+			{
+				id: '@S2@',
+				title: 'Recensement de 1851',
+				repositories: [],
+				extensions: [{ tag: '_TYPE', value: 'census', children: [] }],
+			},
+		]);
+		expect(data.repositories).toEqual([{
+			id: '@R1@',
+			name: 'Archives de Paris',
+			address: '18 boulevard Sérurier',
+			addressDetails: [{ tag: 'CITY', value: 'Paris', children: [] }],
+		}]);
+
+		const jean = data.persons.find((p: any) => p.id === '@I1@');
+		expect(jean.citations).toEqual([{ source: '@S2@', page: 'p. 4' }]);
+		expect(jean.events[0].sources).toEqual(['@S1@']);
+		expect(jean.events[0].citations).toEqual([{
+			source: '@S1@',
+			page: 'Folio 12',
+			quality: '3',
+			date: '16 MAR 1850',
+			text: ['Baptised the day after his birth'],
+		}]);
+		expect(data.families[0].citations).toEqual([{ source: '@S1@' }]);
+	});
+
+	it('should find every fact citing a source', async () => {
+		const result = await findSources(await parseFixture(), { id: 'S1' });
+
+		expect(result.meta).toMatchObject({ totalFound: 1, totalSources: 2, totalFacts: 2, searchType: 'source' });
+		expect(result.sources.map((source: any) => source.id)).toEqual(['@S1@']);
+		expect(result.facts).toEqual([
+			{
+				source: '@S1@',
+				recordType: 'person',
+				recordId: '@I1@',
+				eventType: 'BIRT',
+				date: '15 MAR 1850',
+				place: 'Paris, France',
+				citation: expect.objectContaining({ page: 'Folio 12' }),
+			},
+			{
+				source: '@S1@',
+				recordType: 'family',
+				recordId: '@F1@',
+				citation: { source: '@S1@' },
+			},
+		]);
+	});
+
+	it('should filter sources by title and repository', async () => {
+		const data = await parseFixture();
+
+		const census = await findSources(data, { title: 'recensement' });
+		expect(census.sources.map((source: any) => source.id)).toEqual(['@S2@']);
+		expect(census.facts).toEqual([
+			{ source: '@S2@', recordType: 'person', recordId: '@I1@', citation: { source: '@S2@', page: 'p. 4' } },
+		]);
+
+		const archives = await findSources(data, { repository: '@R1@' });
+		expect(archives.sources.map((source: any) => source.id)).toEqual(['@S1@']);
+	});
+
+	it('should write citations and source records', async () => {
+		const data = {
+			meta: { individuals: 1, families: 0, encodingTag: 'UTF-8' },
+			persons: [{
+				id: '@I1@',
+				name: 'Jean Martin',
+				birthDate: '',
+				deathDate: '',
+				events: [{
+					type: 'BIRT',
+					date: '1850',
+					place: '',
+					notes: [],
+					sources: [],
+					citations: [{ source: 'Family bible', page: 'First page' }, { source: '@S1@', quality: '2' }],
+				}],
+				famc: [],
+				fams: [],
+			}],
+			families: [],
+			sources: [{ id: '@S1@', title: 'Parish register', repositories: [{ repository: '@R1@', callNumbers: [] }] }],
+			repositories: [{ id: '@R1@', name: 'Archives de Paris' }],
+		};
+
+		const generate = async (version: string) => {
+			const gedcom = new Gedcom();
+			const result = await gedcom.execute.call(mockExecuteFunctions({
+				operation: 'generate',
+				outputFormat: 'text',
+				generateOptions: { version },
+			}, data) as any);
+			return (result[0][0].json.gedcom as string).split('\n');
+		};
+
+		const gedcom551 = await generate('5.5.1');
+		const birth = gedcom551.indexOf('1 BIRT');
+		expect(gedcom551.slice(birth, birth + 6)).toEqual([
+			'1 BIRT',
+			'2 DATE 1850',
+			'2 SOUR Family bible',
+			'3 PAGE First page',
+			'2 SOUR @S1@',
+			'3 QUAY 2',
+		]);
+		expect(gedcom551).toContain('0 @S1@ SOUR');
+		expect(gedcom551).toContain('1 REPO @R1@');
+		expect(gedcom551).toContain('0 @R1@ REPO');
+
+		const gedcom7 = await generate('7.0');
+		const birth7 = gedcom7.indexOf('1 BIRT');
+		expect(gedcom7.slice(birth7 + 2, birth7 + 6)).toEqual([
+			'2 SOUR @VOID@',
+			'3 PAGE First page',
+			'3 DATA',
+			'4 TEXT Family bible',
+		]);
+	});
+});
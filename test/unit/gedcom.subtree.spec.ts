@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Gedcom } from '../../nodes/Gedcom/Gedcom.node';
+
+const mockExecuteFunctions = (params: Record<string, any>, json: any = {}, fixture = 'sample-utf8.ged') => ({
+	getInputData: () => [{ json }],
+	getNodeParameter: (name: string) => ({
+		source: 'binary',
+		binaryProperty: 'data',
+		...params,
+	} as Record<string, any>)[name],
+	helpers: {
+		assertBinaryData: () => ({
+			data: readFileSync(join(__dirname, '../fixtures', fixture), 'base64'),
+		}),
+	},
+	getNode: () => ({ name: 'GEDCOM Test' }),
+	continueOnFail: () => false,
+});
+
+const gedcom = new Gedcom();
+
+const parse = async (fixture = 'sample-utf8.ged') => {
+	const result = await gedcom.execute.call(mockExecuteFunctions({ operation: 'parse' }, {}, fixture) as any);
+	return result[0][0].json as any;
+};
+
+const extract = async (data: any, rootId: string, subtreeMode: string, subtreeDepth = 9) => {
+	const result = await gedcom.execute.call(mockExecuteFunctions({ operation: 'extractSubtree', rootId, subtreeMode, subtreeDepth }, data) as any);
+	return result[0][0].json as any;
+};
+
+const ids = (records: any[]) => records.map(record => record.id);
+
+describe('GEDCOM Extract Subtree Operation', () => {
+	it('should keep descendants with their spouses and drop links to the rest of the tree', async () => {
+		const subtree = await extract(await parse(), '@I3@', 'descendants');
+
+		expect(ids(subtree.persons)).toEqual(['@I3@', '@I4@', '@I5@']);
+		expect(ids(subtree.families)).toEqual(['@F2@']);
+		expect(subtree.meta).toMatchObject({ individuals: 3, families: 1 });
+		expect(subtree.persons[0]).toMatchObject({ famc: [], fams: ['@F2@'] });
+	});
+
+	it('should keep ancestors up to the requested generation', async () => {
+		const data = await parse();
+
+		const parents = await extract(data, 'I5', 'ancestors', 1);
+		expect(ids(parents.persons)).toEqual(['@I3@', '@I4@', '@I5@']);
+		expect(parents.families).toEqual([expect.objectContaining({ id: '@F2@', husband: '@I3@', wife: '@I4@', children: ['@I5@'] })]);
+
+		const all = await extract(data, 'I5', 'ancestors');
+		expect(ids(all.persons)).toEqual(['@I1@', '@I2@', '@I3@', '@I4@', '@I5@']);
+		expect(ids(all.families)).toEqual(['@F1@', '@F2@']);
+	});
+
+	it('should trim families to the members kept', async () => {
+		// The grandparents of @I5@ are two links away
+		const subtree = await extract(await parse(), '@I5@', 'relatives', 1);
+
+		expect(ids(subtree.persons)).toEqual(['@I3@', '@I4@', '@I5@']);
+		expect(ids(subtree.families)).toEqual(['@F2@']);
+
+		const both = await extract(await parse(), '@I3@', 'both', 1);
+		expect(ids(both.persons)).toEqual(['@I1@', '@I2@', '@I3@', '@I4@', '@I5@']);
+
+		const couple = await extract(await parse(), '@I1@', 'relatives', 1);
+		expect(ids(couple.persons)).toEqual(['@I1@', '@I2@', '@I3@']);
+		expect(couple.families).toEqual([expect.objectContaining({ id: '@F1@', children: ['@I3@'] })]);
+		expect(couple.persons[2]).toMatchObject({ famc: ['@F1@'], fams: [] });
+	});
+
+	it('should keep the sources, repositories, media, notes and submitter still referenced', async () => {
+		const data = await parse('extensions.ged');
+
+		const jean = await extract(data, '@I1@', 'ancestors');
+		expect(ids(jean.persons)).toEqual(['@I1@']);
+		expect(jean.families).toEqual([]);
+		expect(jean.persons[0].fams).toEqual([]);
+		expect(ids(jean.sources)).toEqual(['@S1@', '@S2@']);
+		expect(ids(jean.repositories)).toEqual(['@R1@']);
+		expect(ids(jean.media)).toEqual(['@O1@']);
+		expect(ids(jean.notes)).toEqual(['@N1@']);
+		expect(jean.records.map((record: any) => record.xref)).toEqual(['@U1@']);
+
+		const marie = await extract(data, '@I2@', 'ancestors');
+		expect(marie.sources).toEqual([]);
+		expect(marie.repositories).toEqual([]);
+		expect(marie.media).toEqual([]);
+		expect(marie.notes).toEqual([]);
+	});
+
+	it('should produce data the Validate operation accepts', async () => {
+		const subtree = await extract(await parse('extensions.ged'), '@I3@', 'relatives', 1);
+		const result = await gedcom.execute.call(mockExecuteFunctions({ operation: 'validate' }, subtree) as any);
+
+		expect(result[0][0].json).toMatchObject({ valid: true, errors: 0 });
+	});
+
+	it('should throw when the root person does not exist', async () => {
+		await expect(extract(await parse(), '@I99@', 'ancestors')).rejects.toThrow("Root person with ID '@I99@' not found in GEDCOM data");
+	});
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Gedcom } from '../../nodes/Gedcom/Gedcom.node';
+
+const mockExecuteFunctions = (fixture: string, params: Record<string, any>, json: any = {}) => ({
+	getInputData: () => [{ json }],
+	getNodeParameter: (name: string) => ({
+		operation: 'validate',
+		binaryProperty: 'data',
+		...params,
+	} as Record<string, any>)[name],
+	helpers: {
+		assertBinaryData: () => ({
+			data: readFileSync(join(__dirname, '../fixtures', fixture), 'base64'),
+		}),
+	},
+	getNode: () => ({ name: 'GEDCOM Test' }),
+	continueOnFail: () => false,
+});
+
+describe('GEDCOM Validate Operation', () => {
+	const gedcom = new Gedcom();
+
+	it('should report link, cycle and chronology issues in a GEDCOM file', async () => {
+		const result = await gedcom.execute.call(mockExecuteFunctions('invalid.ged', { validateInput: 'binary' }) as any);
+		const report = result[0][0].json as any;
+
+		expect(report.valid).toBe(false);
+		expect(report.errors).toBe(7);
+		expect(report.warnings).toBe(4);
+		expect(report.issues.map((issue: any) => `${issue.severity} ${issue.code} ${issue.records.join(',')}`)).toEqual([
+			'error duplicate-id @I6@',
+			'error dangling-famc @I6@,@F9@',
+			'warning fams-without-spouse @I6@,@F2@',
+			'error dangling-chil @F1@,@I7@',
+			'warning child-without-famc @F2@,@I5@',
+			'error dangling-note @I5@,@N9@',
+			'error ancestor-cycle @I8@,@I9@',
+			'error death-before-birth @I1@',
+			'warning lifespan-too-long @I5@',
+			'warning parent-too-young @F1@,@I2@,@I3@',
+			'error born-after-mother-death @F1@,@I2@,@I4@',
+		]);
+	});
+
+	it('should give readable messages', async () => {
+		const result = await gedcom.execute.call(mockExecuteFunctions('invalid.ged', { validateInput: 'binary' }) as any);
+		const messages = (result[0][0].json as any).issues.map((issue: any) => issue.message);
+
+		expect(messages).toContain('Family @F1@ lists child @I7@, who does not exist');
+		expect(messages).toContain('@I8@ is their own ancestor: @I8@ → @I9@ → @I8@');
+		expect(messages).toContain('@I3@ was born (ABT 1910) before their parent @I2@ was 12 (born 1905)');
+		expect(messages).toContain('@I4@ was born (1935) after their mother @I2@ died (12 MAR 1930)');
+	});
+
+	it('should return one item per issue', async () => {
+		const result = await gedcom.execute.call(mockExecuteFunctions('invalid.ged', { validateInput: 'binary', validateOutput: 'issues' }) as any);
+
+		expect(result[0]).toHaveLength(11);
+		expect(result[0][0].json).toEqual({
+			severity: 'error',
+			code: 'duplicate-id',
+			records: ['@I6@'],
+			message: 'ID @I6@ is used by 2 records',
+		});
+	});
+
+	it('should validate parsed data from the input item', async () => {
+		const parse = await gedcom.execute.call(mockExecuteFunctions('sample-utf8.ged', { operation: 'parse', source: 'binary' }) as any);
+		const result = await gedcom.execute.call(mockExecuteFunctions('sample-utf8.ged', {}, parse[0][0].json) as any);
+
+		expect(result[0][0].json).toEqual({ valid: true, errors: 0, warnings: 0, issues: [] });
+	});
+
+	it('should not flag uncertain dates that could be consistent', async () => {
+		const data = {
+			meta: { individuals: 2, families: 1, encodingTag: 'UTF-8' },
+			persons: [
+				{ id: '@I1@', name: 'Mother', birthDate: 'ABT 1900', deathDate: 'BEF 1930', events: [], famc: [], fams: ['@F1@'] },
+				{ id: '@I2@', name: 'Child', birthDate: 'BET 1910 AND 1935', deathDate: '', events: [], famc: ['@F1@'], fams: [] },
+			],
+			families: [{ id: '@F1@', wife: '@I1@', children: ['@I2@'], events: [] }],
+		};
+		const result = await gedcom.execute.call(mockExecuteFunctions('minimal.ged', {}, data) as any);
+
+		expect((result[0][0].json as any).issues).toEqual([]);
+	});
+});